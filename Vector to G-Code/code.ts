@@ -2,11 +2,82 @@
 // Converts Figma vector paths to GRBL-compatible G-code for pen plotters
 
 interface Settings {
+  profile: string;    // Name of the machine profile the machine settings came from ('' = custom)
+  firmware: Firmware; // Controller dialect, used for dwell commands
+  toolMode: ToolMode; // What the machine draws with
+  laserDynamic: boolean; // Laser on with M4 (power scales with speed) instead of M3
+  laserMinPower: number; // S value for the lightest strokes
+  laserMaxPower: number; // S value for black, opaque strokes
+  laserPower: 'color' | 'opacity' | 'fixed'; // What sets each stroke's power ('fixed' = maximum)
+  laserPasses: number;   // Times each stroke is traced
+  knifeOffset: number;   // Distance the drag knife's blade tip trails its axis (in units)
   units: 'mm' | 'inch';
   scale: number;      // pixels per unit
   feedRate: number;   // units per minute
+  travelFeed: number; // Feed for pen-up travel moves (units per minute, 0 = machine rapid rate)
+  travelG1: boolean;  // Travel with G1 at the travel feed instead of G0
+  rapidFeed: number;  // The machine's rapid (G0) rate, for time estimates (units per minute)
+  acceleration: number;      // For time estimates (units/s²)
+  junctionDeviation: number; // Cornering tolerance of the motion planner, for time estimates (units)
+  bedWidth: number;   // Drawable area width (in units)
+  bedHeight: number;  // Drawable area height (in units)
+  clipToBed: boolean; // Clip output to the drawable area
+  checkBounds: boolean; // Refuse to write output that leaves the drawable area
+  fitToPaper: boolean;  // Choose the scale so the selection fits the paper (scale is ignored)
+  paperSize: PaperSize; // Paper to fit the selection to
+  paperWidth: number;   // Custom paper size (in units)
+  paperHeight: number;
+  paperOrientation: 'portrait' | 'landscape';
+  paperMargin: number;  // Space left free along each paper edge (in units)
+  fitCenter: 'both' | 'horizontal' | 'vertical' | 'none'; // Axes centered on the paper; the others start at the top-left margin
+  arcFitting: boolean;  // Replace runs of points on a circle with G2/G3 arcs
+  arcTolerance: number; // Maximum deviation of a fitted arc (in units)
+  simplify: boolean;         // Simplify paths before optimization
+  simplifyTolerance: number; // Maximum deviation when removing points (in units)
+  minPathLength: number;     // Drop paths shorter than this (in units)
+  joinPaths: boolean;    // Chain paths with shared endpoints and drop repeated segments
+  joinTolerance: number; // Distance at which endpoints count as shared (in units)
+  optimizeTime: number;  // Time budget for improving the path order (ms, 0 = nearest-neighbor only)
   penUpCmd: string;   // G-code command to raise pen
   penDownCmd: string; // G-code command to lower pen
+  penUpFeed: number;   // Feed for a pen-up command that is a G0/G1 move, e.g. a Z lift (units per minute, 0 = as written)
+  penDownFeed: number; // Feed for a pen-down command that is a G0/G1 move (units per minute, 0 = as written)
+  slowDown: boolean;    // Draw sharp corners and very short moves at the slow feed
+  slowFeed: number;     // units per minute
+  cornerAngle: number;  // Change of direction (degrees) from which a corner counts as sharp
+  shortSegment: number; // Moves shorter than this are slowed down (in units)
+  pens: PenAssignment[];      // Pen table; empty = one pen per color, in the order found
+  penOffsets: { [pen: string]: Point }; // Tip offset of each pen number relative to the reference pen (machine units)
+  parkX: number;             // Where pen changes happen (machine units)
+  parkY: number;
+  toolChange: string;        // Pen change lines; {pen} and {color} are replaced
+  toolChangeAtStart: boolean; // Also run the pen change before the first pen
+  penUpDwell: number;   // Wait after raising the pen (seconds, 0 = none)
+  penDownDwell: number; // Wait after lowering the pen (seconds, 0 = none)
+  startGCode: string; // Lines emitted after the setup block, before the first move
+  endGCode: string;   // Lines emitted after the return to origin, before M2
+  precision: number;  // Decimal places for coordinates
+  boundsFrame: boolean;       // Wrap loose selections in a "G-Code Bounds" frame (moves nodes)
+  originCorner: OriginCorner; // Which corner (or center) of the bounds is X0 Y0
+  offsetX: number;            // Added to every X coordinate (in units)
+  offsetY: number;            // Added to every Y coordinate (in units)
+  mirrorX: boolean;           // Flip the output horizontally
+  mirrorY: boolean;           // Flip the output vertically
+  rotation: number;           // Rotate the output counterclockwise: 0, 90, 180 or 270 degrees
+  penWidth: number;      // Width of the line drawn by the pen tip (in units)
+  thickStrokes: boolean; // Draw strokes wider than the pen as multiple offset passes
+  dashes: boolean;       // Draw strokes that have a dash pattern as separate dashes
+  hatchFill: boolean;    // Fill closed shapes that have a solid fill with hatch lines
+  hatchAngle: number;    // Hatch line angle in degrees
+  hatchSpacing: number;  // Distance between hatch lines (in units)
+  crossHatch: boolean;   // Add a second hatch layer perpendicular to the first
+  hiddenLineRemoval: boolean; // Remove lines covered by opaque shapes above them
+  toneHatching: boolean; // Derive hatch density from fill color and opacity
+  toneLayers: number;    // Maximum number of hatch layers for the darkest tones
+  fontMapping: string;   // "Family Style = face" rules choosing Hershey faces for Figma fonts
+  textMode: 'hershey' | 'outline'; // How text is drawn unless a text layer chooses otherwise
+  outlineFill: 'none' | 'hatch' | 'centerline'; // Outline text: contours only, contours plus hatching, or centerlines
+  outputFormat: 'gcode' | 'hpgl' | 'ebb' | 'svg'; // What the ordered toolpath is written as
 }
 
 interface Point {
@@ -19,6 +90,22 @@ interface StrokeColor {
   g: number;
   b: number;
   a: number;
+  approximate?: boolean; // Averaged from a gradient; snapped to the nearest pen in the pen table
+}
+
+// A row of the pen table: which pen draws a color, and whether it is drawn at all
+// The table's order is the plot order; colors sharing a pen are drawn together.
+interface PenAssignment {
+  color: string; // Hex color key from groupPathsByColor, or 'DEFAULT'
+  pen: number;
+  skip: boolean;
+}
+
+// Paths drawn with one pen
+interface PenGroup {
+  pen: number;
+  colors: string[]; // Color keys assigned to this pen, in table order
+  paths: Path[];
 }
 
 interface Path {
@@ -27,22 +114,151 @@ interface Path {
   color?: StrokeColor;  // Stroke color for multi-pen support
   isText?: boolean;     // True if path comes from text
   textGroupId?: number; // Groups text strokes from the same TextNode
+  paintOrder?: number[]; // Layer position of the source node, for hidden-line removal
+  source?: string;      // Name of the layer the path came from, for error messages
+}
+
+// A fillable area made of closed rings, combined using a winding rule
+interface Region {
+  rings: Point[][];
+  windingRule: 'NONZERO' | 'EVENODD';
+}
+
+// An opaque filled shape that hides whatever is painted below it
+// Only the part inside all of its clip regions (ancestor masks and clipping frames) is shown.
+interface Occluder {
+  paintOrder: number[];
+  regions: Region[];
+  clips: Region[];
 }
 
 interface Origin {
   x: number;
   y: number;
+  width: number;   // bounds width, for origin corners and mirroring
   height: number;  // frame height for Y flip
-  frame: FrameNode | null;  // null if we created a new frame
+  frame: FrameNode | null;  // null if we created a new frame or used virtual bounds
+  source: 'frame' | 'generated' | 'bounds' | 'paper';  // where the bounds came from
+}
+
+type OriginCorner = 'bottom-left' | 'top-left' | 'top-right' | 'bottom-right' | 'center';
+
+type PaperSize = 'bed' | 'a4' | 'a3' | 'letter' | 'custom';
+
+// GRBL dwells take seconds, Marlin dwells take milliseconds
+type Firmware = 'grbl' | 'marlin';
+
+// A pen plotter lowers and raises a pen; a laser switches on at a power per stroke;
+// a drag knife cuts inner contours first and compensates for its trailing blade
+type ToolMode = 'pen' | 'laser' | 'knife';
+
+// A named set of machine settings, stored in clientStorage and shared as JSON
+interface MachineProfile {
+  name: string;
+  firmware: Firmware;
+  toolMode: ToolMode;
+  units: 'mm' | 'inch';
+  bedWidth: number;
+  bedHeight: number;
+  feedRate: number;
+  travelFeed: number;
+  travelG1: boolean;
+  rapidFeed: number;
+  acceleration: number;
+  junctionDeviation: number;
+  penUpCmd: string;
+  penDownCmd: string;
+  penUpFeed: number;
+  penDownFeed: number;
+  penUpDwell: number;
+  penDownDwell: number;
+  laserDynamic: boolean;
+  laserMinPower: number;
+  laserMaxPower: number;
+  knifeOffset: number;
+  startGCode: string;
+  endGCode: string;
+  arcFitting: boolean;
+  precision: number;
 }
 
+// Built-in machine profiles; saved profiles with the same name are listed separately
+const MACHINE_PRESETS: MachineProfile[] = [
+  {
+    name: 'GRBL servo pen', firmware: 'grbl', toolMode: 'pen', units: 'mm', bedWidth: 300, bedHeight: 200,
+    feedRate: 2000, travelFeed: 0, travelG1: false, rapidFeed: 5000, acceleration: 500, junctionDeviation: 0.01,
+    penUpCmd: 'M5', penDownCmd: 'M3 S90', penUpFeed: 0, penDownFeed: 0,
+    penUpDwell: 0.15, penDownDwell: 0.15, laserDynamic: true, laserMinPower: 0, laserMaxPower: 1000, knifeOffset: 0.25,
+    startGCode: '', endGCode: '', arcFitting: true, precision: 3
+  },
+  {
+    name: 'Marlin servo pen', firmware: 'marlin', toolMode: 'pen', units: 'mm', bedWidth: 220, bedHeight: 220,
+    feedRate: 1500, travelFeed: 3000, travelG1: false, rapidFeed: 3000, acceleration: 1000, junctionDeviation: 0.013,
+    penUpCmd: 'M280 P0 S60', penDownCmd: 'M280 P0 S30', penUpFeed: 0, penDownFeed: 0,
+    penUpDwell: 0.2, penDownDwell: 0.2, laserDynamic: true, laserMinPower: 0, laserMaxPower: 255, knifeOffset: 0.25,
+    startGCode: 'G28 X Y', endGCode: 'M84', arcFitting: true, precision: 3
+  },
+  {
+    name: 'AxiDraw-style (Z lift)', firmware: 'grbl', toolMode: 'pen', units: 'mm', bedWidth: 300, bedHeight: 218,
+    feedRate: 3000, travelFeed: 0, travelG1: false, rapidFeed: 8000, acceleration: 1000, junctionDeviation: 0.01,
+    penUpCmd: 'G0 Z5', penDownCmd: 'G0 Z0', penUpFeed: 0, penDownFeed: 1000,
+    penUpDwell: 0, penDownDwell: 0, laserDynamic: true, laserMinPower: 0, laserMaxPower: 1000, knifeOffset: 0.25,
+    startGCode: '', endGCode: '', arcFitting: true, precision: 2
+  },
+  {
+    name: 'Diode laser', firmware: 'grbl', toolMode: 'laser', units: 'mm', bedWidth: 400, bedHeight: 400,
+    feedRate: 1000, travelFeed: 0, travelG1: false, rapidFeed: 6000, acceleration: 800, junctionDeviation: 0.01,
+    penUpCmd: 'M5', penDownCmd: 'M3 S1000', penUpFeed: 0, penDownFeed: 0,
+    penUpDwell: 0, penDownDwell: 0, laserDynamic: true, laserMinPower: 0, laserMaxPower: 1000, knifeOffset: 0.25,
+    startGCode: 'M5', endGCode: 'M5', arcFitting: true, precision: 3
+  },
+  {
+    name: 'Drag knife (Z lift)', firmware: 'grbl', toolMode: 'knife', units: 'mm', bedWidth: 300, bedHeight: 300,
+    feedRate: 1000, travelFeed: 0, travelG1: false, rapidFeed: 5000, acceleration: 500, junctionDeviation: 0.01,
+    penUpCmd: 'G0 Z3', penDownCmd: 'G0 Z-0.5', penUpFeed: 0, penDownFeed: 300,
+    penUpDwell: 0, penDownDwell: 0, laserDynamic: true, laserMinPower: 0, laserMaxPower: 1000, knifeOffset: 0.25,
+    startGCode: '', endGCode: '', arcFitting: true, precision: 3
+  }
+];
+
+// Miter limit used when a node doesn't specify one (Figma's default)
+const DEFAULT_MITER_LIMIT = 4;
+
+// Points deviating less than this from a straight run are merged away (in pixels)
+const COLLINEAR_TOLERANCE = 1e-6;
+
+// Arcs larger than this radius (in units) are emitted as lines instead
+const MAX_ARC_RADIUS = 1000;
+
+// Largest turn between neighbouring points that still counts as a sampled curve
+// (sharper turns are real corners and must not be rounded into an arc)
+const MAX_ARC_STEP_ANGLE = Math.PI / 6;
+
+// Tones lighter than this ink coverage are left unhatched
+const MIN_TONE_COVERAGE = 0.02;
+
 // Tolerance for bezier curve linearization (in pixels)
 // Smaller = more accurate but more points
 const BEZIER_TOLERANCE = 0.5;
 
+// Centerline tracing of outline text: raster cells per em of the smallest font size,
+// cap on the raster size, and skeleton branches shorter than this many cells are dropped as spurs
+const CENTERLINE_CELLS_PER_EM = 50;
+const MAX_CENTERLINE_CELLS = 4000000;
+const SPUR_CELLS = 4;
+
+// Hershey glyph grid: baseline at y=23, capitals 21 units tall, about 32 units to the em
+const HERSHEY_BASELINE = 23;
+const HERSHEY_CAP_HEIGHT = 21;
+const HERSHEY_EM = 32;
+
+// Approximate ascent and descent of a font (fractions of the font size),
+// used to place glyphs in their line box the way Figma does
+const TEXT_ASCENT = 0.95;
+const TEXT_DESCENT = 0.25;
+
 // Hershey Simplex font for single-stroke text
 // Each character has width and strokes (arrays of [x,y] coordinate pairs)
-// Coordinates are in a 21-unit grid, baseline at y=9
 interface HersheyGlyph {
   width: number;
   strokes: number[][];  // Each stroke is [x1,y1,x2,y2,...]
@@ -146,7 +362,781 @@ const HERSHEY_FONT: { [char: string]: HersheyGlyph } = {
   '~': { width: 24, strokes: [[3,16,3,14,4,11,6,10,8,10,10,11,14,14,16,15,18,15,20,14,21,12],[21,16,21,12,20,9,18,8,16,8,14,9,10,12,8,13,6,13,4,12,3,10]] },
 };
 
+// Hershey Duplex face, same grid as HERSHEY_FONT
+const HERSHEY_DUPLEX: { [char: string]: HersheyGlyph } = {
+  ' ': { width: 16, strokes: [] },
+  '!': { width: 12, strokes: [[5,2,5,16,6,16],[5,2,6,2,6,16],[5,20,4,21,4,22,5,23,6,23,7,22,7,21,6,20,5,20],[5,21,5,22,6,22,6,21,5,21]] },
+  '"': { width: 18, strokes: [[5,2,4,3,4,9],[5,3,4,9],[5,2,6,3,4,9],[14,2,13,3,13,9],[14,3,13,9],[14,2,15,3,13,9]] },
+  '#': { width: 22, strokes: [[11,-2,4,30],[17,-2,10,30],[4,11,18,11],[3,17,17,17]] },
+  '$': { width: 20, strokes: [[9,-2,9,27,10,27],[9,-2,10,-2,10,27],[14,5,16,5,14,3,11,2,8,2,5,3,3,5,3,7,4,9,5,10,13,14,14,15,15,17,15,19,14,21,11,22,8,22,6,21,5,20],[14,5,13,4,11,3,8,3,5,4,4,5,4,7,5,9,13,13,15,15,16,17,16,19,15,21,14,22,11,23,8,23,5,22,3,20,5,20],[15,20,12,22]] },
+  '%': { width: 24, strokes: [[21,2,3,23],[8,2,10,4,10,6,9,8,7,9,5,9,3,7,3,5,4,3,6,2,8,2,10,3,13,4,16,4,19,3,21,2],[17,16,15,17,14,19,14,21,16,23,18,23,20,22,21,20,21,18,19,16,17,16]] },
+  '&': { width: 26, strokes: [[21,10,20,11,21,12,22,11,22,10,21,9,20,9,19,10,18,12,16,17,14,20,12,22,10,23,7,23,4,22,3,20,3,17,4,15,10,11,12,9,13,7,13,5,12,3,10,2,8,3,7,5,7,7,8,10,10,13,15,20,17,22,20,23,21,23,22,22,22,21],[7,23,5,22,4,20,4,17,5,15,7,13],[7,7,8,9,16,20,18,22,20,23]] },
+  '\'': { width: 10, strokes: [[5,2,4,3,4,9],[5,3,4,9],[5,2,6,3,4,9]] },
+  '(': { width: 14, strokes: [[11,-2,9,0,7,3,5,7,4,12,4,16,5,21,7,25,9,28,11,30],[9,0,7,4,6,7,5,12,5,16,6,21,7,24,9,28]] },
+  ')': { width: 14, strokes: [[3,-2,5,0,7,3,9,7,10,12,10,16,9,21,7,25,5,28,3,30],[5,0,7,4,8,7,9,12,9,16,8,21,7,24,5,28]] },
+  '*': { width: 16, strokes: [[8,2,7,3,9,13,8,14],[8,2,8,14],[8,2,9,3,7,13,8,14],[3,5,4,5,12,11,13,11],[3,5,13,11],[3,5,3,6,13,10,13,11],[13,5,12,5,4,11,3,11],[13,5,3,11],[13,5,13,6,3,10,3,11]] },
+  '+': { width: 26, strokes: [[12,5,12,22,13,22],[12,5,13,5,13,22],[4,13,21,13,21,14],[4,13,4,14,21,14]] },
+  ',': { width: 12, strokes: [[7,22,6,23,5,23,4,22,4,21,5,20,6,20,7,21,7,24,6,26,4,27],[5,21,5,22,6,22,6,21,5,21],[6,23,7,24],[7,22,6,26]] },
+  '-': { width: 26, strokes: [[4,14,22,14]] },
+  '.': { width: 12, strokes: [[5,20,4,21,4,22,5,23,6,23,7,22,7,21,6,20,5,20],[5,21,5,22,6,22,6,21,5,21]] },
+  '/': { width: 24, strokes: [[20,-2,2,30,3,30],[20,-2,21,-2,3,30]] },
+  '0': { width: 20, strokes: [[9,2,6,3,4,6,3,11,3,14,4,19,6,22,9,23,11,23,14,22,16,19,17,14,17,11,16,6,14,3,11,2,9,2],[7,3,5,6,4,11,4,14,5,19,7,22],[6,21,9,22,11,22,14,21],[13,22,15,19,16,14,16,11,15,6,13,3],[14,4,11,3,9,3,6,4]] },
+  '1': { width: 20, strokes: [[6,6,8,5,11,2,11,23],[6,6,6,7,8,6,10,4,10,23,11,23]] },
+  '2': { width: 20, strokes: [[4,7,4,6,5,4,6,3,8,2,12,2,14,3,15,4,16,6,16,8,15,10,13,13,4,23],[4,7,5,7,5,6,6,4,8,3,12,3,14,4,15,6,15,8,14,10,12,13,3,23],[4,22,17,22,17,23],[3,23,17,23]] },
+  '3': { width: 20, strokes: [[5,2,16,2,9,11],[5,2,5,3,15,3],[15,2,8,11],[9,10,11,10,14,11,16,13,17,16,17,17,16,20,14,22,11,23,8,23,5,22,4,21,3,19,4,19],[8,11,11,11,14,12,16,15],[12,11,15,13,16,16,16,17,15,20,12,22],[16,18,14,21,11,22,8,22,5,21,4,19],[7,22,4,20]] },
+  '4': { width: 20, strokes: [[13,5,13,23,14,23],[14,2,14,23],[14,2,3,18,18,18],[13,5,4,18],[4,17,18,17,18,18]] },
+  '5': { width: 20, strokes: [[5,2,4,11],[6,3,5,10],[5,2,15,2,15,3],[6,3,15,3],[5,10,8,9,11,9,14,10,16,12,17,15,17,17,16,20,14,22,11,23,8,23,5,22,4,21,3,19,4,19],[4,11,5,11,7,10,11,10,14,11,16,14],[12,10,15,12,16,15,16,17,15,20,12,22],[16,18,14,21,11,22,8,22,5,21,4,19],[7,22,4,20]] },
+  '6': { width: 20, strokes: [[14,3,15,5,16,5,15,3,12,2,10,2,7,3,5,6,4,11,4,16,5,20,7,22,10,23,11,23,14,22,16,20,17,17,17,16,16,13,14,11,11,10,10,10,7,11,5,13],[15,4,12,3,10,3,7,4],[8,3,6,6,5,11,5,16,6,20,9,22],[5,18,7,21,10,22,11,22,14,21,16,18],[12,22,15,20,16,17,16,16,15,13,12,11],[16,15,14,12,11,11,10,11,7,12,5,15],[9,11,6,13,5,16]] },
+  '7': { width: 20, strokes: [[3,2,17,2,7,23],[3,2,3,3,16,3],[16,2,6,23,7,23]] },
+  '8': { width: 20, strokes: [[8,2,5,3,4,5,4,7,5,9,6,10,8,11,12,12,14,13,15,14,16,16,16,19,15,21,12,22,8,22,5,21,4,19,4,16,5,14,6,13,8,12,12,11,14,10,15,9,16,7,16,5,15,3,12,2,8,2],[6,3,5,5,5,7,6,9,8,10,12,11,14,12,16,14,17,16,17,19,16,21,15,22,12,23,8,23,5,22,4,21,3,19,3,16,4,14,6,12,8,11,12,10,14,9,15,7,15,5,14,3],[15,4,12,3,8,3,5,4],[4,20,7,22],[13,22,16,20]] },
+  '9': { width: 20, strokes: [[15,12,13,14,10,15,9,15,6,14,4,12,3,9,3,8,4,5,6,3,9,2,10,2,13,3,15,5,16,9,16,14,15,19,13,22,10,23,8,23,5,22,4,20,5,20,6,22],[15,9,14,12,11,14],[15,10,13,13,10,14,9,14,6,13,4,10],[8,14,5,12,4,9,4,8,5,5,8,3],[4,7,6,4,9,3,10,3,13,4,15,7],[11,3,14,5,15,9,15,14,14,19,12,22],[13,21,10,22,8,22,5,21]] },
+  ':': { width: 12, strokes: [[5,9,4,10,4,11,5,12,6,12,7,11,7,10,6,9,5,9],[5,10,5,11,6,11,6,10,5,10],[5,20,4,21,4,22,5,23,6,23,7,22,7,21,6,20,5,20],[5,21,5,22,6,22,6,21,5,21]] },
+  ';': { width: 12, strokes: [[5,9,4,10,4,11,5,12,6,12,7,11,7,10,6,9,5,9],[5,10,5,11,6,11,6,10,5,10],[7,22,6,23,5,23,4,22,4,21,5,20,6,20,7,21,7,24,6,26,4,27],[5,21,5,22,6,22,6,21,5,21],[6,23,7,24],[7,22,6,26]] },
+  '<': { width: 24, strokes: [[20,5,4,14,20,23]] },
+  '=': { width: 26, strokes: [[4,9,21,9,21,10],[4,9,4,10,21,10],[4,17,21,17,21,18],[4,17,4,18,21,18]] },
+  '>': { width: 24, strokes: [[4,5,20,14,4,23]] },
+  '?': { width: 20, strokes: [[3,7,3,6,4,4,5,3,8,2,11,2,14,3,15,4,16,6,16,8,15,10,14,11,12,12,9,13],[3,7,4,7,4,6,5,4,8,3,11,3,14,4,15,6,15,8,14,10,12,11,9,12],[4,5,7,3],[12,3,15,5],[15,9,11,12],[9,12,9,16,10,16,10,12],[9,20,8,21,8,22,9,23,10,23,11,22,11,21,10,20,9,20],[9,21,9,22,10,22,10,21,9,21]] },
+  '@': { width: 28, strokes: [[18,10,17,8,15,7,12,7,10,8,9,9,8,12,8,15,9,17,11,18,14,18,16,17,17,15],[12,7,10,9,9,12,9,15,10,17,11,18],[18,7,17,15,17,17,19,18,21,18,23,16,24,13,24,11,23,8,22,6,20,4,18,3,15,2,12,2,9,3,7,4,5,6,4,8,3,11,3,14,4,17,5,19,7,21,9,22,12,23,15,23,18,22,20,21,21,20],[19,7,18,15,18,17,19,18]] },
+  'A': { width: 20, strokes: [[10,2,2,23],[10,5,3,23,2,23],[10,5,17,23,18,23],[10,2,18,23],[5,17,15,17],[4,18,16,18]] },
+  'B': { width: 20, strokes: [[4,2,4,23],[5,3,5,22],[4,2,12,2,15,3,16,4,17,6,17,9,16,11,15,12,12,13],[5,3,12,3,15,4,16,6,16,9,15,11,12,12],[5,12,12,12,15,13,16,14,17,16,17,19,16,21,15,22,12,23,4,23],[5,13,12,13,15,14,16,16,16,19,15,21,12,22,5,22]] },
+  'C': { width: 22, strokes: [[18,7,17,5,15,3,13,2,9,2,7,3,5,5,4,7,3,10,3,15,4,18,5,20,7,22,9,23,13,23,15,22,17,20,18,18],[18,7,17,7,16,5,15,4,13,3,9,3,7,4,5,7,4,10,4,15,5,18,7,21,9,22,13,22,15,21,16,20,17,18,18,18]] },
+  'D': { width: 22, strokes: [[4,2,4,23],[5,3,5,22],[4,2,11,2,14,3,16,5,17,7,18,10,18,15,17,18,16,20,14,22,11,23,4,23],[5,3,11,3,14,4,15,5,16,7,17,10,17,15,16,18,15,20,14,21,11,22,5,22]] },
+  'E': { width: 20, strokes: [[4,2,4,23],[5,3,5,22],[4,2,16,2],[5,3,16,3,16,2],[5,12,11,12,11,13],[5,13,11,13],[5,22,16,22,16,23],[4,23,16,23]] },
+  'F': { width: 18, strokes: [[4,2,4,23],[5,3,5,23,4,23],[4,2,16,2],[5,3,16,3,16,2],[5,12,11,12,11,13],[5,13,11,13]] },
+  'G': { width: 22, strokes: [[18,7,17,5,15,3,13,2,9,2,7,3,5,5,4,7,3,10,3,15,4,18,5,20,7,22,9,23,13,23,15,22,17,20,18,18,18,14,13,14],[18,7,17,7,16,5,15,4,13,3,9,3,7,4,6,5,5,7,4,10,4,15,5,18,6,20,7,21,9,22,13,22,15,21,16,20,17,18,17,15,13,15,13,14]] },
+  'H': { width: 22, strokes: [[4,2,4,23],[4,2,5,2,5,23,4,23],[18,2,17,2,17,23,18,23],[18,2,18,23],[5,12,17,12],[5,13,17,13]] },
+  'I': { width: 10, strokes: [[4,2,4,23,5,23],[4,2,5,2,5,23]] },
+  'J': { width: 18, strokes: [[12,2,12,18,11,21,9,22,7,22,5,21,4,18,3,18],[12,2,13,2,13,18,12,21,11,22,9,23,7,23,5,22,4,21,3,18]] },
+  'K': { width: 22, strokes: [[4,2,4,23,5,23],[4,2,5,2,5,23],[18,2,17,2,5,14],[18,2,5,15],[8,11,17,23,18,23],[9,11,18,23]] },
+  'L': { width: 16, strokes: [[4,2,4,23],[4,2,5,2,5,22],[5,22,16,22,16,23],[4,23,16,23]] },
+  'M': { width: 24, strokes: [[4,2,4,23],[5,7,5,23,4,23],[5,7,12,23],[4,2,12,20],[20,2,12,20],[19,7,12,23],[19,7,19,23,20,23],[20,2,20,23]] },
+  'N': { width: 22, strokes: [[4,2,4,23],[5,5,5,23,4,23],[5,5,18,23],[4,2,17,20],[17,2,17,20],[17,2,18,2,18,23]] },
+  'O': { width: 22, strokes: [[9,2,7,3,5,5,4,7,3,10,3,15,4,18,5,20,7,22,9,23,13,23,15,22,17,20,18,18,19,15,19,10,18,7,17,5,15,3,13,2,9,2],[10,3,7,4,5,7,4,10,4,15,5,18,7,21,10,22,12,22,15,21,17,18,18,15,18,10,17,7,15,4,12,3,10,3]] },
+  'P': { width: 20, strokes: [[4,2,4,23],[5,3,5,23,4,23],[4,2,13,2,15,3,16,4,17,6,17,9,16,11,15,12,13,13,5,13],[5,3,13,3,15,4,16,6,16,9,15,11,13,12,5,12]] },
+  'Q': { width: 22, strokes: [[9,2,7,3,5,5,4,7,3,10,3,15,4,18,5,20,7,22,9,23,13,23,15,22,17,20,18,18,19,15,19,10,18,7,17,5,15,3,13,2,9,2],[10,3,7,4,5,7,4,10,4,15,5,18,7,21,10,22,12,22,15,21,17,18,18,15,18,10,17,7,15,4,12,3,10,3],[12,20,17,25,18,25],[12,20,13,20,18,25]] },
+  'R': { width: 20, strokes: [[4,2,4,23],[5,3,5,23,4,23],[4,2,12,2,15,3,16,4,17,6,17,9,16,11,15,12,12,13,5,13],[5,3,12,3,15,4,16,6,16,9,15,11,12,12,5,12],[10,13,16,23,17,23],[11,13,17,23]] },
+  'S': { width: 20, strokes: [[17,5,15,3,12,2,8,2,5,3,3,5,3,7,4,9,5,10,7,11,12,13,14,14,15,15,16,17,16,20,15,21,12,22,8,22,6,21,5,20,3,20],[17,5,15,5,14,4,12,3,8,3,5,4,4,5,4,7,5,9,7,10,12,12,14,13,16,15,17,17,17,20,15,22,12,23,8,23,5,22,3,20]] },
+  'T': { width: 18, strokes: [[8,3,8,23],[9,3,9,23,8,23],[2,2,15,2,15,3],[2,2,2,3,15,3]] },
+  'U': { width: 22, strokes: [[4,2,4,17,5,20,7,22,10,23,12,23,15,22,17,20,18,17,18,2],[4,2,5,2,5,17,6,20,7,21,10,22,12,22,15,21,16,20,17,17,17,2,18,2]] },
+  'V': { width: 20, strokes: [[2,2,10,23],[2,2,3,2,10,20],[18,2,17,2,10,20],[18,2,10,23]] },
+  'W': { width: 26, strokes: [[2,2,8,23],[2,2,3,2,8,20],[13,2,8,20],[13,5,8,23],[13,5,18,23],[13,2,18,20],[24,2,23,2,18,20],[24,2,18,23]] },
+  'X': { width: 20, strokes: [[3,2,16,23,17,23],[3,2,4,2,17,23],[17,2,16,2,3,23],[17,2,4,23,3,23]] },
+  'Y': { width: 20, strokes: [[2,2,9,12,9,23,10,23],[2,2,3,2,10,12],[17,2,16,2,9,12],[17,2,10,12,10,23]] },
+  'Z': { width: 20, strokes: [[16,2,3,23],[17,2,4,23],[3,2,17,2],[3,2,3,3,16,3],[4,22,17,22,17,23],[3,23,17,23]] },
+  '[': { width: 14, strokes: [[4,-2,4,30],[5,-2,5,30],[4,-2,11,-2],[4,30,11,30]] },
+  '\\': { width: 14, strokes: [[0,2,14,26]] },
+  ']': { width: 14, strokes: [[9,-2,9,30],[10,-2,10,30],[3,-2,10,-2],[3,30,10,30]] },
+  '^': { width: 22, strokes: [[3,16,11,11,19,16],[3,16,11,12,19,16]] },
+  '_': { width: 20, strokes: [[0,30,20,30]] },
+  '`': { width: 12, strokes: [[4,2,9,8],[4,2,3,3,9,8]] },
+  'a': { width: 20, strokes: [[15,9,15,23,16,23],[15,9,16,9,16,23],[15,12,13,10,11,9,8,9,6,10,4,12,3,15,3,17,4,20,6,22,8,23,11,23,13,22,15,20],[15,12,11,10,8,10,6,11,5,12,4,15,4,17,5,20,6,21,8,22,11,22,15,20]] },
+  'b': { width: 20, strokes: [[4,2,4,23,5,23],[4,2,5,2,5,23],[5,12,7,10,9,9,12,9,14,10,16,12,17,15,17,17,16,20,14,22,12,23,9,23,7,22,5,20],[5,12,9,10,12,10,14,11,15,12,16,15,16,17,15,20,14,21,12,22,9,22,5,20]] },
+  'c': { width: 18, strokes: [[15,12,13,10,11,9,8,9,6,10,4,12,3,15,3,17,4,20,6,22,8,23,11,23,13,22,15,20],[15,12,14,13,13,11,11,10,8,10,6,11,5,12,4,15,4,17,5,20,6,21,8,22,11,22,13,21,14,19,15,20]] },
+  'd': { width: 20, strokes: [[15,2,15,23,16,23],[15,2,16,2,16,23],[15,12,13,10,11,9,8,9,6,10,4,12,3,15,3,17,4,20,6,22,8,23,11,23,13,22,15,20],[15,12,11,10,8,10,6,11,5,12,4,15,4,17,5,20,6,21,8,22,11,22,15,20]] },
+  'e': { width: 18, strokes: [[4,16,15,16,15,13,14,11,13,10,11,9,8,9,6,10,4,12,3,15,3,17,4,20,6,22,8,23,11,23,13,22,15,20],[4,15,14,15,14,13,13,11,11,10,8,10,6,11,5,12,4,15,4,17,5,20,6,21,8,22,11,22,13,21,14,19,15,20]] },
+  'f': { width: 16, strokes: [[11,2,9,2,7,3,6,6,6,23,7,23],[11,2,11,3,9,3,7,4],[8,3,7,6,7,23],[3,9,10,9,10,10],[3,9,3,10,10,10]] },
+  'g': { width: 20, strokes: [[16,9,15,9,15,24,14,27,13,28,11,29,9,29,7,28,6,27,4,27],[16,9,16,24,15,27,13,29,11,30,8,30,6,29,4,27],[15,12,13,10,11,9,8,9,6,10,4,12,3,15,3,17,4,20,6,22,8,23,11,23,13,22,15,20],[15,12,11,10,8,10,6,11,5,12,4,15,4,17,5,20,6,21,8,22,11,22,15,20]] },
+  'h': { width: 20, strokes: [[4,2,4,23,5,23],[4,2,5,2,5,23],[5,13,8,10,10,9,13,9,15,10,16,13,16,23],[5,13,8,11,10,10,12,10,14,11,15,13,15,23,16,23]] },
+  'i': { width: 10, strokes: [[4,2,3,3,3,4,4,5,5,5,6,4,6,3,5,2,4,2],[4,3,4,4,5,4,5,3,4,3],[4,9,4,23,5,23],[4,9,5,9,5,23]] },
+  'j': { width: 10, strokes: [[4,2,3,3,3,4,4,5,5,5,6,4,6,3,5,2,4,2],[4,3,4,4,5,4,5,3,4,3],[4,9,4,30,5,30],[4,9,5,9,5,30]] },
+  'k': { width: 18, strokes: [[4,2,4,23,5,23],[4,2,5,2,5,23],[16,9,15,9,5,19],[16,9,5,20],[8,16,14,23,16,23],[9,15,16,23]] },
+  'l': { width: 10, strokes: [[4,2,4,23,5,23],[4,2,5,2,5,23]] },
+  'm': { width: 32, strokes: [[4,9,4,23,5,23],[4,9,5,9,5,23],[5,13,8,10,10,9,13,9,15,10,16,13,16,23],[5,13,8,11,10,10,12,10,14,11,15,13,15,23,16,23],[16,13,19,10,21,9,24,9,26,10,27,13,27,23],[16,13,19,11,21,10,23,10,25,11,26,13,26,23,27,23]] },
+  'n': { width: 20, strokes: [[4,9,4,23,5,23],[4,9,5,9,5,23],[5,13,8,10,10,9,13,9,15,10,16,13,16,23],[5,13,8,11,10,10,12,10,14,11,15,13,15,23,16,23]] },
+  'o': { width: 20, strokes: [[8,9,6,10,4,12,3,15,3,17,4,20,6,22,8,23,11,23,13,22,15,20,16,17,16,15,15,12,13,10,11,9,8,9],[8,10,6,11,5,12,4,15,4,17,5,20,6,21,8,22,11,22,13,21,14,20,15,17,15,15,14,12,13,11,11,10,8,10]] },
+  'p': { width: 20, strokes: [[4,9,4,30,5,30],[4,9,5,9,5,30],[5,12,7,10,9,9,12,9,14,10,16,12,17,15,17,17,16,20,14,22,12,23,9,23,7,22,5,20],[5,12,9,10,12,10,14,11,15,12,16,15,16,17,15,20,14,21,12,22,9,22,5,20]] },
+  'q': { width: 20, strokes: [[15,9,15,30,16,30],[15,9,16,9,16,30],[15,12,13,10,11,9,8,9,6,10,4,12,3,15,3,17,4,20,6,22,8,23,11,23,13,22,15,20],[15,12,11,10,8,10,6,11,5,12,4,15,4,17,5,20,6,21,8,22,11,22,15,20]] },
+  'r': { width: 14, strokes: [[4,9,4,23,5,23],[4,9,5,9,5,23],[5,15,6,12,8,10,10,9,13,9],[5,15,6,13,8,11,10,10,13,10,13,9]] },
+  's': { width: 18, strokes: [[14,12,13,10,10,9,7,9,4,10,3,12,4,14,6,15,11,17,13,18],[12,17,13,19,13,20,12,22],[13,21,10,22,7,22,4,21],[5,22,4,20,3,20],[14,12,13,12,12,10],[13,11,10,10,7,10,4,11],[5,10,4,12,5,14],[4,13,6,14,11,16,13,17,14,19,14,20,13,22,10,23,7,23,4,22,3,20]] },
+  't': { width: 12, strokes: [[5,2,5,23,6,23],[5,2,6,2,6,23],[2,9,9,9,9,10],[2,9,2,10,9,10]] },
+  'u': { width: 20, strokes: [[4,9,4,19,5,22,7,23,10,23,12,22,15,19],[4,9,5,9,5,19,6,21,8,22,10,22,12,21,15,19],[15,9,15,23,16,23],[15,9,16,9,16,23]] },
+  'v': { width: 16, strokes: [[2,9,8,23],[2,9,3,9,8,21],[14,9,13,9,8,21],[14,9,8,23]] },
+  'w': { width: 24, strokes: [[3,9,8,23],[3,9,4,9,8,20],[12,9,8,20],[12,12,8,23],[12,12,16,23],[12,9,16,20],[21,9,20,9,16,20],[21,9,16,23]] },
+  'x': { width: 18, strokes: [[3,9,14,23,15,23],[3,9,4,9,15,23],[15,9,14,9,3,23],[15,9,4,23,3,23]] },
+  'y': { width: 16, strokes: [[2,9,8,23],[2,9,3,9,8,21],[14,9,13,9,8,21,4,30],[14,9,8,23,5,30,4,30]] },
+  'z': { width: 18, strokes: [[13,10,3,23],[15,9,5,22],[3,9,15,9],[3,9,3,10,13,10],[5,22,15,22,15,23],[3,23,15,23]] },
+  '{': { width: 14, strokes: [[10,-2,3,14,10,30]] },
+  '|': { width: 8, strokes: [[4,-2,4,30]] },
+  '}': { width: 14, strokes: [[4,-2,11,14,4,30]] },
+  '~': { width: 24, strokes: [[3,17,3,15,4,12,6,11,8,11,10,12,14,15,16,16,18,16,20,15,21,13],[3,15,4,13,6,12,8,12,10,13,14,16,16,17,18,17,20,16,21,13,21,11]] },
+};
+
+// Hershey Complex face, same grid as HERSHEY_FONT
+const HERSHEY_COMPLEX: { [char: string]: HersheyGlyph } = {
+  ' ': { width: 16, strokes: [] },
+  '!': { width: 10, strokes: [[5,2,4,4,5,16,6,4,5,2],[5,4,5,10],[5,21,4,22,5,23,6,22,5,21]] },
+  '"': { width: 18, strokes: [[5,2,4,3,4,9],[5,3,4,9],[5,2,6,3,4,9],[14,2,13,3,13,9],[14,3,13,9],[14,2,15,3,13,9]] },
+  '#': { width: 22, strokes: [[11,-2,4,30],[17,-2,10,30],[4,11,18,11],[3,17,17,17]] },
+  '$': { width: 20, strokes: [[8,-2,8,27],[12,-2,12,27],[16,5,15,6,16,7,17,6,17,5,15,3,12,2,8,2,5,3,3,5,3,7,4,9,5,10,7,11,13,13,15,14,17,16],[3,7,5,9,7,10,13,12,15,13,16,14,17,16,17,20,15,22,12,23,8,23,5,22,3,20,3,19,4,18,5,19,4,20]] },
+  '%': { width: 24, strokes: [[21,2,3,23],[8,2,10,4,10,6,9,8,7,9,5,9,3,7,3,5,4,3,6,2,8,2,10,3,13,4,16,4,19,3,21,2],[17,16,15,17,14,19,14,21,16,23,18,23,20,22,21,20,21,18,19,16,17,16]] },
+  '&': { width: 26, strokes: [[21,10,20,11,21,12,22,11,22,10,21,9,20,9,19,10,18,12,16,17,14,20,12,22,10,23,7,23,4,22,3,20,3,17,4,15,10,11,12,9,13,7,13,5,12,3,10,2,8,3,7,5,7,7,8,10,10,13,15,20,17,22,20,23,21,23,22,22,22,21],[7,23,5,22,4,20,4,17,5,15,7,13],[7,7,8,9,16,20,18,22,20,23]] },
+  '\'': { width: 8, strokes: [[4,2,3,9],[5,2,3,9]] },
+  '(': { width: 14, strokes: [[11,-2,9,0,7,3,5,7,4,12,4,16,5,21,7,25,9,28,11,30],[9,0,7,4,6,7,5,12,5,16,6,21,7,24,9,28]] },
+  ')': { width: 14, strokes: [[3,-2,5,0,7,3,9,7,10,12,10,16,9,21,7,25,5,28,3,30],[5,0,7,4,8,7,9,12,9,16,8,21,7,24,5,28]] },
+  '*': { width: 16, strokes: [[8,8,8,20],[3,11,13,17],[13,11,3,17]] },
+  '+': { width: 26, strokes: [[13,5,13,23],[4,14,22,14]] },
+  ',': { width: 8, strokes: [[5,19,4,20,3,19,4,18,5,19,5,21,3,23]] },
+  '-': { width: 26, strokes: [[4,14,22,14]] },
+  '.': { width: 8, strokes: [[4,18,3,19,4,20,5,19,4,18]] },
+  '/': { width: 22, strokes: [[20,-2,2,30]] },
+  '0': { width: 20, strokes: [[9,2,6,3,4,6,3,11,3,14,4,19,6,22,9,23,11,23,14,22,16,19,17,14,17,11,16,6,14,3,11,2,9,2],[9,2,7,3,6,4,5,6,4,11,4,14,5,19,6,21,7,22,9,23],[11,23,13,22,14,21,15,19,16,14,16,11,15,6,14,4,13,3,11,2]] },
+  '1': { width: 20, strokes: [[6,6,8,5,11,2,11,23],[10,3,10,23],[6,23,15,23]] },
+  '2': { width: 20, strokes: [[4,6,5,7,4,8,3,7,3,6,4,4,5,3,8,2,12,2,15,3,16,4,17,6,17,8,16,10,13,12,8,14,6,15,4,17,3,20,3,23],[12,2,14,3,15,4,16,6,16,8,15,10,12,12,8,14],[3,21,4,20,6,20,11,22,14,22,16,21,17,20],[6,20,11,23,15,23,16,22,17,20,17,18]] },
+  '3': { width: 20, strokes: [[4,6,5,7,4,8,3,7,3,6,4,4,5,3,8,2,12,2,15,3,16,5,16,8,15,10,12,11,9,11],[12,2,14,3,15,5,15,8,14,10,12,11],[12,11,14,12,16,14,17,16,17,19,16,21,15,22,12,23,8,23,5,22,4,21,3,19,3,18,4,17,5,18,4,19],[15,13,16,16,16,19,15,21,14,22,12,23]] },
+  '4': { width: 20, strokes: [[12,4,12,23],[13,2,13,23],[13,2,2,17,18,17],[9,23,16,23]] },
+  '5': { width: 20, strokes: [[5,2,3,12],[3,12,5,10,8,9,11,9,14,10,16,12,17,15,17,17,16,20,14,22,11,23,8,23,5,22,4,21,3,19,3,18,4,17,5,18,4,19],[11,9,13,10,15,12,16,15,16,17,15,20,13,22,11,23],[5,2,15,2],[5,3,10,3,15,2]] },
+  '6': { width: 20, strokes: [[15,5,14,6,15,7,16,6,16,5,15,3,13,2,10,2,7,3,5,5,4,7,3,11,3,17,4,20,6,22,9,23,11,23,14,22,16,20,17,17,17,16,16,13,14,11,11,10,10,10,7,11,5,13,4,16],[10,2,8,3,6,5,5,7,4,11,4,17,5,20,7,22,9,23],[11,23,13,22,15,20,16,17,16,16,15,13,13,11,11,10]] },
+  '7': { width: 20, strokes: [[3,2,3,8],[3,6,4,4,6,2,8,2,13,5,15,5,16,4,17,2],[4,4,6,3,8,3,13,5],[17,2,17,5,16,8,12,13,11,15,10,18,10,23],[16,8,11,13,10,15,9,18,9,23]] },
+  '8': { width: 20, strokes: [[8,2,5,3,4,5,4,8,5,10,8,11,12,11,15,10,16,8,16,5,15,3,12,2,8,2],[8,2,6,3,5,5,5,8,6,10,8,11],[12,11,14,10,15,8,15,5,14,3,12,2],[8,11,5,12,4,13,3,15,3,19,4,21,5,22,8,23,12,23,15,22,16,21,17,19,17,15,16,13,15,12,12,11],[8,11,6,12,5,13,4,15,4,19,5,21,6,22,8,23],[12,23,14,22,15,21,16,19,16,15,15,13,14,12,12,11]] },
+  '9': { width: 20, strokes: [[16,9,15,12,13,14,10,15,9,15,6,14,4,12,3,9,3,8,4,5,6,3,9,2,11,2,14,3,16,5,17,8,17,14,16,18,15,20,13,22,10,23,7,23,5,22,4,20,4,19,5,18,6,19,5,20],[9,15,7,14,5,12,4,9,4,8,5,5,7,3,9,2],[11,2,13,3,15,5,16,8,16,14,15,18,14,20,12,22,10,23]] },
+  ':': { width: 8, strokes: [[4,11,3,12,4,13,5,12,4,11],[4,18,3,19,4,20,5,19,4,18]] },
+  ';': { width: 8, strokes: [[4,11,3,12,4,13,5,12,4,11],[5,19,4,20,3,19,4,18,5,19,5,21,3,23]] },
+  '<': { width: 24, strokes: [[20,5,4,14,20,23]] },
+  '=': { width: 26, strokes: [[4,11,22,11],[4,17,22,17]] },
+  '>': { width: 24, strokes: [[4,5,20,14,4,23]] },
+  '?': { width: 18, strokes: [[4,6,5,7,4,8,3,7,3,6,4,4,5,3,7,2,10,2,13,3,14,4,15,6,15,8,14,10,13,11,9,13,9,16],[10,2,12,3,13,4,14,6,14,8,13,10,11,12],[9,21,8,22,9,23,10,22,9,21]] },
+  '@': { width: 28, strokes: [[18,10,17,8,15,7,12,7,10,8,9,9,8,12,8,15,9,17,11,18,14,18,16,17,17,15],[12,7,10,9,9,12,9,15,10,17,11,18],[18,7,17,15,17,17,19,18,21,18,23,16,24,13,24,11,23,8,22,6,20,4,18,3,15,2,12,2,9,3,7,4,5,6,4,8,3,11,3,14,4,17,5,19,7,21,9,22,12,23,15,23,18,22,20,21,21,20],[19,7,18,15,18,17,19,18]] },
+  'A': { width: 20, strokes: [[10,2,3,23],[10,2,17,23],[10,5,16,23],[5,17,14,17],[1,23,7,23],[13,23,19,23]] },
+  'B': { width: 22, strokes: [[5,2,5,23],[6,2,6,23],[2,2,14,2,17,3,18,4,19,6,19,8,18,10,17,11,14,12],[14,2,16,3,17,4,18,6,18,8,17,10,16,11,14,12],[6,12,14,12,17,13,18,14,19,16,19,19,18,21,17,22,14,23,2,23],[14,12,16,13,17,14,18,16,18,19,17,21,16,22,14,23]] },
+  'C': { width: 20, strokes: [[17,5,18,8,18,2,17,5,15,3,12,2,10,2,7,3,5,5,4,7,3,10,3,15,4,18,5,20,7,22,10,23,12,23,15,22,17,20,18,18],[10,2,8,3,6,5,5,7,4,10,4,15,5,18,6,20,8,22,10,23]] },
+  'D': { width: 22, strokes: [[5,2,5,23],[6,2,6,23],[2,2,12,2,15,3,17,5,18,7,19,10,19,15,18,18,17,20,15,22,12,23,2,23],[12,2,14,3,16,5,17,7,18,10,18,15,17,18,16,20,14,22,12,23]] },
+  'E': { width: 20, strokes: [[5,2,5,23],[6,2,6,23],[12,8,12,16],[2,2,18,2,18,8,17,2],[6,12,12,12],[2,23,18,23,18,17,17,23]] },
+  'F': { width: 18, strokes: [[5,2,5,23],[6,2,6,23],[12,8,12,16],[2,2,18,2,18,8,17,2],[6,12,12,12],[2,23,9,23]] },
+  'G': { width: 24, strokes: [[17,5,18,8,18,2,17,5,15,3,12,2,10,2,7,3,5,5,4,7,3,10,3,15,4,18,5,20,7,22,10,23,12,23,15,22,17,20],[10,2,8,3,6,5,5,7,4,10,4,15,5,18,6,20,8,22,10,23],[17,15,17,23],[18,15,18,23],[14,15,21,15]] },
+  'H': { width: 24, strokes: [[5,2,5,23],[6,2,6,23],[18,2,18,23],[19,2,19,23],[2,2,9,2],[15,2,22,2],[6,12,18,12],[2,23,9,23],[15,23,22,23]] },
+  'I': { width: 12, strokes: [[5,2,5,23],[6,2,6,23],[2,2,9,2],[2,23,9,23]] },
+  'J': { width: 16, strokes: [[10,2,10,19,9,22,7,23,5,23,3,22,2,20,2,18,3,17,4,18,3,19],[9,2,9,19,8,22,7,23],[6,2,13,2]] },
+  'K': { width: 20, strokes: [[5,2,5,23],[6,2,6,23],[19,2,6,15],[11,11,19,23],[10,11,18,23],[2,2,9,2],[15,2,21,2],[2,23,9,23],[15,23,21,23]] },
+  'L': { width: 18, strokes: [[5,2,5,23],[6,2,6,23],[2,2,9,2],[2,23,17,23,17,17,16,23]] },
+  'M': { width: 26, strokes: [[5,2,5,23],[6,2,12,20],[5,2,12,23],[19,2,12,23],[19,2,19,23],[20,2,20,23],[2,2,6,2],[19,2,23,2],[2,23,8,23],[16,23,23,23]] },
+  'N': { width: 24, strokes: [[5,2,5,23],[6,2,18,21],[6,4,18,23],[18,2,18,23],[2,2,6,2],[15,2,21,2],[2,23,8,23]] },
+  'O': { width: 22, strokes: [[10,2,7,3,5,5,4,7,3,11,3,14,4,18,5,20,7,22,10,23,12,23,15,22,17,20,18,18,19,14,19,11,18,7,17,5,15,3,12,2,10,2],[10,2,8,3,6,5,5,7,4,11,4,14,5,18,6,20,8,22,10,23],[12,23,14,22,16,20,17,18,18,14,18,11,17,7,16,5,14,3,12,2]] },
+  'P': { width: 22, strokes: [[5,2,5,23],[6,2,6,23],[2,2,14,2,17,3,18,4,19,6,19,9,18,11,17,12,14,13,6,13],[14,2,16,3,17,4,18,6,18,9,17,11,16,12,14,13],[2,23,9,23]] },
+  'Q': { width: 22, strokes: [[10,2,7,3,5,5,4,7,3,11,3,14,4,18,5,20,7,22,10,23,12,23,15,22,17,20,18,18,19,14,19,11,18,7,17,5,15,3,12,2,10,2],[10,2,8,3,6,5,5,7,4,11,4,14,5,18,6,20,8,22,10,23],[12,23,14,22,16,20,17,18,18,14,18,11,17,7,16,5,14,3,12,2],[7,21,7,20,8,18,10,17,11,17,13,18,14,20,15,27,16,28,18,28,19,26,19,25],[14,20,15,24,16,26,17,27,18,27,19,26]] },
+  'R': { width: 22, strokes: [[5,2,5,23],[6,2,6,23],[2,2,14,2,17,3,18,4,19,6,19,8,18,10,17,11,14,12,6,12],[14,2,16,3,17,4,18,6,18,8,17,10,16,11,14,12],[2,23,9,23],[11,12,13,13,14,14,17,21,18,22,19,22,20,21],[13,13,14,15,16,22,17,23,19,23,20,21,20,20]] },
+  'S': { width: 20, strokes: [[16,5,17,2,17,8,16,5,14,3,11,2,8,2,5,3,3,5,3,7,4,9,5,10,7,11,13,13,15,14,17,16],[3,7,5,9,7,10,13,12,15,13,16,14,17,16,17,20,15,22,12,23,9,23,6,22,4,20,3,17,3,23,4,20]] },
+  'T': { width: 20, strokes: [[9,2,9,23],[10,2,10,23],[3,2,2,8,2,2,17,2,17,8,16,2],[6,23,13,23]] },
+  'U': { width: 24, strokes: [[5,2,5,17,6,20,8,22,11,23,13,23,16,22,18,20,19,17,19,2],[6,2,6,17,7,20,9,22,11,23],[2,2,9,2],[16,2,22,2]] },
+  'V': { width: 20, strokes: [[3,2,10,23],[4,2,10,20],[17,2,10,23],[1,2,7,2],[13,2,19,2]] },
+  'W': { width: 24, strokes: [[4,2,8,23],[5,2,8,18],[12,2,8,23],[12,2,16,23],[13,2,16,18],[20,2,16,23],[1,2,8,2],[17,2,23,2]] },
+  'X': { width: 20, strokes: [[3,2,16,23],[4,2,17,23],[17,2,3,23],[1,2,7,2],[13,2,19,2],[1,23,7,23],[13,23,19,23]] },
+  'Y': { width: 22, strokes: [[3,2,10,13,10,23],[4,2,11,13,11,23],[18,2,11,13],[1,2,7,2],[14,2,20,2],[7,23,14,23]] },
+  'Z': { width: 20, strokes: [[16,2,3,23],[17,2,4,23],[4,2,3,8,3,2,17,2],[3,23,17,23,17,17,16,23]] },
+  '[': { width: 14, strokes: [[4,-2,4,30],[5,-2,5,30],[4,-2,11,-2],[4,30,11,30]] },
+  '\\': { width: 14, strokes: [[0,2,14,26]] },
+  ']': { width: 14, strokes: [[9,-2,9,30],[10,-2,10,30],[3,-2,10,-2],[3,30,10,30]] },
+  '^': { width: 22, strokes: [[3,16,11,11,19,16],[3,16,11,12,19,16]] },
+  '_': { width: 20, strokes: [[0,30,20,30]] },
+  '`': { width: 12, strokes: [[4,2,9,8],[4,2,3,3,9,8]] },
+  'a': { width: 22, strokes: [[5,11,5,12,4,12,4,11,5,10,7,9,11,9,13,10,14,11,15,13,15,20,16,22,17,23],[14,11,14,20,15,22,17,23,18,23],[14,13,13,14,7,15,4,16,3,18,3,20,4,22,7,23,10,23,12,22,14,20],[7,15,5,16,4,18,4,20,5,22,7,23]] },
+  'b': { width: 20, strokes: [[5,2,5,23],[6,2,6,23],[6,12,8,10,10,9,12,9,15,10,17,12,18,15,18,17,17,20,15,22,12,23,10,23,8,22,6,20],[12,9,14,10,16,12,17,15,17,17,16,20,14,22,12,23],[2,2,6,2]] },
+  'c': { width: 18, strokes: [[15,12,14,13,15,14,16,13,16,12,14,10,12,9,9,9,6,10,4,12,3,15,3,17,4,20,6,22,9,23,11,23,14,22,16,20],[9,9,7,10,5,12,4,15,4,17,5,20,7,22,9,23]] },
+  'd': { width: 22, strokes: [[15,2,15,23],[16,2,16,23],[15,12,13,10,11,9,9,9,6,10,4,12,3,15,3,17,4,20,6,22,9,23,11,23,13,22,15,20],[9,9,7,10,5,12,4,15,4,17,5,20,7,22,9,23],[12,2,16,2],[15,23,19,23]] },
+  'e': { width: 18, strokes: [[4,15,16,15,16,13,15,11,14,10,12,9,9,9,6,10,4,12,3,15,3,17,4,20,6,22,9,23,11,23,14,22,16,20],[15,15,15,12,14,10],[9,9,7,10,5,12,4,15,4,17,5,20,7,22,9,23]] },
+  'f': { width: 12, strokes: [[10,3,9,4,10,5,11,4,11,3,10,2,8,2,6,3,5,5,5,23],[8,2,7,3,6,5,6,23],[2,9,10,9],[2,23,9,23]] },
+  'g': { width: 20, strokes: [[8,9,6,10,5,11,4,13,4,15,5,17,6,18,8,19,10,19,12,18,13,17,14,15,14,13,13,11,12,10,10,9,8,9],[6,10,5,12,5,16,6,18],[12,18,13,16,13,12,12,10],[13,11,14,10,16,9,16,10,14,10],[5,17,4,18,3,20,3,21,4,23,7,24,12,24,15,25,16,26],[3,21,4,22,7,23,12,23,15,24,16,26,16,27,15,29,12,30,6,30,3,29,2,27,2,26,3,24,6,23]] },
+  'h': { width: 22, strokes: [[5,2,5,23],[6,2,6,23],[6,12,8,10,11,9,13,9,16,10,17,12,17,23],[13,9,15,10,16,12,16,23],[2,2,6,2],[2,23,9,23],[13,23,20,23]] },
+  'i': { width: 12, strokes: [[5,2,4,3,5,4,6,3,5,2],[5,9,5,23],[6,9,6,23],[2,9,6,9],[2,23,9,23]] },
+  'j': { width: 12, strokes: [[6,2,5,3,6,4,7,3,6,2],[7,9,7,27,6,29,4,30,2,30,1,29,1,28,2,27,3,28,2,29],[6,9,6,27,5,29,4,30],[3,9,7,9]] },
+  'k': { width: 20, strokes: [[5,2,5,23],[6,2,6,23],[16,9,6,19],[11,15,17,23],[10,15,16,23],[2,2,6,2],[13,9,19,9],[2,23,9,23],[13,23,19,23]] },
+  'l': { width: 12, strokes: [[5,2,5,23],[6,2,6,23],[2,2,6,2],[2,23,9,23]] },
+  'm': { width: 34, strokes: [[5,9,5,23],[6,9,6,23],[6,12,8,10,11,9,13,9,16,10,17,12,17,23],[13,9,15,10,16,12,16,23],[17,12,19,10,22,9,24,9,27,10,28,12,28,23],[24,9,26,10,27,12,27,23],[2,9,6,9],[2,23,9,23],[13,23,20,23],[24,23,31,23]] },
+  'n': { width: 22, strokes: [[5,9,5,23],[6,9,6,23],[6,12,8,10,11,9,13,9,16,10,17,12,17,23],[13,9,15,10,16,12,16,23],[2,9,6,9],[2,23,9,23],[13,23,20,23]] },
+  'o': { width: 20, strokes: [[9,9,6,10,4,12,3,15,3,17,4,20,6,22,9,23,11,23,14,22,16,20,17,17,17,15,16,12,14,10,11,9,9,9],[9,9,7,10,5,12,4,15,4,17,5,20,7,22,9,23],[11,23,13,22,15,20,16,17,16,15,15,12,13,10,11,9]] },
+  'p': { width: 20, strokes: [[5,9,5,30],[6,9,6,30],[6,12,8,10,10,9,12,9,15,10,17,12,18,15,18,17,17,20,15,22,12,23,10,23,8,22,6,20],[12,9,14,10,16,12,17,15,17,17,16,20,14,22,12,23],[2,9,6,9],[2,30,9,30]] },
+  'q': { width: 20, strokes: [[15,9,15,30],[16,9,16,30],[15,12,13,10,11,9,9,9,6,10,4,12,3,15,3,17,4,20,6,22,9,23,11,23,13,22,15,20],[9,9,7,10,5,12,4,15,4,17,5,20,7,22,9,23],[12,30,19,30]] },
+  'r': { width: 16, strokes: [[5,9,5,23],[6,9,6,23],[6,15,7,12,9,10,11,9,14,9,15,10,15,11,14,12,13,11,14,10],[2,9,6,9],[2,23,9,23]] },
+  's': { width: 18, strokes: [[13,11,14,9,14,13,13,11,12,10,10,9,6,9,4,10,3,11,3,13,4,14,6,15,11,17,13,18,14,19],[3,12,4,13,6,14,11,16,13,17,14,18,14,21,13,22,11,23,7,23,5,22,4,21,3,19,3,23,4,21]] },
+  't': { width: 16, strokes: [[5,2,5,19,6,22,8,23,10,23,12,22,13,20],[6,2,6,19,7,22,8,23],[2,9,10,9]] },
+  'u': { width: 22, strokes: [[5,9,5,20,6,22,9,23,11,23,14,22,16,20],[6,9,6,20,7,22,9,23],[16,9,16,23],[17,9,17,23],[2,9,6,9],[13,9,17,9],[16,23,20,23]] },
+  'v': { width: 18, strokes: [[3,9,9,23],[4,9,9,21],[15,9,9,23],[1,9,7,9],[11,9,17,9]] },
+  'w': { width: 24, strokes: [[4,9,8,23],[5,9,8,20],[12,9,8,23],[12,9,16,23],[13,9,16,20],[20,9,16,23],[1,9,8,9],[17,9,23,9]] },
+  'x': { width: 20, strokes: [[4,9,15,23],[5,9,16,23],[16,9,4,23],[2,9,8,9],[12,9,18,9],[2,23,8,23],[12,23,18,23]] },
+  'y': { width: 18, strokes: [[4,9,10,23],[5,9,10,21],[16,9,10,23,8,27,6,29,4,30,3,30,2,29,3,28,4,29],[2,9,8,9],[12,9,18,9]] },
+  'z': { width: 18, strokes: [[14,9,3,23],[15,9,4,23],[4,9,3,13,3,9,15,9],[3,23,15,23,15,19,14,23]] },
+  '{': { width: 14, strokes: [[9,-2,7,-1,6,0,5,2,5,4,6,6,7,7,8,9,8,11,6,13],[7,-1,6,1,6,3,7,5,8,6,9,8,9,10,8,12,4,14,8,16,9,18,9,20,8,22,7,23,6,25,6,27,7,29],[6,15,8,17,8,19,7,21,6,22,5,24,5,26,6,28,7,29,9,30]] },
+  '|': { width: 8, strokes: [[4,-2,4,30]] },
+  '}': { width: 14, strokes: [[5,-2,7,-1,8,0,9,2,9,4,8,6,7,7,6,9,6,11,8,13],[7,-1,8,1,8,3,7,5,6,6,5,8,5,10,6,12,10,14,6,16,5,18,5,20,6,22,7,23,8,25,8,27,7,29],[8,15,6,17,6,19,7,21,8,22,9,24,9,26,8,28,7,29,5,30]] },
+  '~': { width: 24, strokes: [[3,17,3,15,4,12,6,11,8,11,10,12,14,15,16,16,18,16,20,15,21,13],[3,15,4,13,6,12,8,12,10,13,14,16,16,17,18,17,20,16,21,13,21,11]] },
+};
+
+// Hershey Triplex face, same grid as HERSHEY_FONT
+const HERSHEY_TRIPLEX: { [char: string]: HersheyGlyph } = {
+  ' ': { width: 16, strokes: [] },
+  '!': { width: 12, strokes: [[5,2,4,3,4,5,5,13],[5,2,5,16,6,16],[5,2,6,2,6,16],[6,2,7,3,7,5,6,13],[5,20,4,21,4,22,5,23,6,23,7,22,7,21,6,20,5,20],[5,21,5,22,6,22,6,21,5,21]] },
+  '"': { width: 18, strokes: [[5,2,4,3,4,9],[5,3,4,9],[5,2,6,3,4,9],[14,2,13,3,13,9],[14,3,13,9],[14,2,15,3,13,9]] },
+  '#': { width: 22, strokes: [[11,-2,4,30],[17,-2,10,30],[4,11,18,11],[3,17,17,17]] },
+  '$': { width: 20, strokes: [[8,-2,8,27],[12,-2,12,27],[16,7,16,6,15,6,15,8,17,8,17,6,16,4,15,3,12,2,8,2,5,3,3,5,3,8,4,10,7,12,13,14,15,15,16,17,16,20,15,22],[4,8,5,10,7,11,13,13,15,14,16,16],[5,3,4,5,4,7,5,9,7,10,13,12,16,14,17,16,17,19,16,21,15,22,12,23,8,23,5,22,4,21,3,19,3,17,5,17,5,19,4,19,4,18]] },
+  '%': { width: 24, strokes: [[21,2,3,23],[8,2,10,4,10,6,9,8,7,9,5,9,3,7,3,5,4,3,6,2,8,2,10,3,13,4,16,4,19,3,21,2],[17,16,15,17,14,19,14,21,16,23,18,23,20,22,21,20,21,18,19,16,17,16]] },
+  '&': { width: 26, strokes: [[22,11,22,10,21,10,21,12,23,12,23,10,22,9,21,9,20,10,19,12,17,17,15,20,13,22,11,23,7,23,5,22,4,20,4,17,5,15,11,11,13,9,14,7,14,5,13,3,11,2,9,3,8,5,8,8,9,11,11,14,15,19,18,22,20,23,22,23,23,21,23,20],[6,22,5,20,5,17,6,15,7,14],[13,9,14,5],[14,7,13,3],[9,3,8,7],[9,10,11,13,15,18,18,21,20,22],[9,23,7,22,6,20,6,17,7,15,11,11],[8,5,9,9,12,13,16,18,19,21,21,22,22,22,23,21]] },
+  '\'': { width: 10, strokes: [[5,2,4,3,4,9],[5,3,4,9],[5,2,6,3,4,9]] },
+  '(': { width: 14, strokes: [[10,-2,8,0,6,3,4,7,3,12,3,16,4,21,6,25,8,28,10,30],[6,4,5,7,4,11,4,17,5,21,6,24],[8,0,7,2,6,5,5,11,5,17,6,23,7,26,8,28]] },
+  ')': { width: 14, strokes: [[4,-2,6,0,8,3,10,7,11,12,11,16,10,21,8,25,6,28,4,30],[8,4,9,7,10,11,10,17,9,21,8,24],[6,0,7,2,8,5,9,11,9,17,8,23,7,26,6,28]] },
+  '*': { width: 16, strokes: [[8,2,7,3,9,13,8,14],[8,2,8,14],[8,2,9,3,7,13,8,14],[3,5,4,5,12,11,13,11],[3,5,13,11],[3,5,3,6,13,10,13,11],[13,5,12,5,4,11,3,11],[13,5,3,11],[13,5,13,6,3,10,3,11]] },
+  '+': { width: 26, strokes: [[12,5,12,22,13,22],[12,5,13,5,13,22],[4,13,21,13,21,14],[4,13,4,14,21,14]] },
+  ',': { width: 12, strokes: [[7,22,6,23,5,23,4,22,4,21,5,20,6,20,7,21,7,24,6,26,4,27],[5,21,5,22,6,22,6,21,5,21],[6,23,7,24],[7,22,6,26]] },
+  '-': { width: 26, strokes: [[4,14,22,14]] },
+  '.': { width: 12, strokes: [[5,20,4,21,4,22,5,23,6,23,7,22,7,21,6,20,5,20],[5,21,5,22,6,22,6,21,5,21]] },
+  '/': { width: 24, strokes: [[20,-2,2,30,3,30],[20,-2,21,-2,3,30]] },
+  '0': { width: 20, strokes: [[9,2,6,3,4,6,3,11,3,14,4,19,6,22,9,23,11,23,14,22,16,19,17,14,17,11,16,6,14,3,11,2,9,2],[6,4,5,6,4,10,4,15,5,19,6,21],[14,21,15,19,16,15,16,10,15,6,14,4],[9,2,7,3,6,5,5,10,5,15,6,20,7,22,9,23],[11,23,13,22,14,20,15,15,15,10,14,5,13,3,11,2]] },
+  '1': { width: 20, strokes: [[9,4,9,23],[10,4,10,22],[11,2,11,23],[11,2,8,5,6,6],[5,23,15,23],[9,22,7,23],[9,21,8,23],[11,21,12,23],[11,22,13,23]] },
+  '2': { width: 20, strokes: [[4,6,4,7,5,7,5,6,4,6],[4,5,5,5,6,6,6,7,5,8,4,8,3,7,3,6,4,4,5,3,8,2,12,2,15,3,16,4,17,6,17,8,16,10,13,12,8,14,6,15,4,17,3,20,3,23],[15,4,16,6,16,8,15,10],[12,2,14,3,15,6,15,8,14,10,12,12,8,14],[3,21,4,20,6,20,11,21,15,21,17,20],[6,20,11,22,15,22,16,21],[6,20,11,23,15,23,16,22,17,20,17,18]] },
+  '3': { width: 20, strokes: [[4,6,4,7,5,7,5,6,4,6],[4,5,5,5,6,6,6,7,5,8,4,8,3,7,3,6,4,4,5,3,8,2,12,2,15,3,16,5,16,8,15,10,12,11],[14,3,15,5,15,8,14,10],[11,2,13,3,14,5,14,8,13,10,11,11],[9,11,12,11,14,12,16,14,17,16,17,19,16,21,15,22,12,23,8,23,5,22,4,21,3,19,3,18,4,17,5,17,6,18,6,19,5,20,4,20],[15,14,16,16,16,19,15,21],[11,11,13,12,14,13,15,16,15,19,14,22,12,23],[4,18,4,19,5,19,5,18,4,18]] },
+  '4': { width: 20, strokes: [[11,5,11,23],[12,4,12,22],[13,2,13,23],[13,2,2,17,18,17],[8,23,16,23],[11,22,9,23],[11,21,10,23],[13,21,14,23],[13,22,15,23]] },
+  '5': { width: 20, strokes: [[5,2,3,12,5,10,8,9,11,9,14,10,16,12,17,15,17,17,16,20,14,22,11,23,8,23,5,22,4,21,3,19,3,18,4,17,5,17,6,18,6,19,5,20,4,20],[15,12,16,14,16,18,15,20],[11,9,13,10,14,11,15,14,15,18,14,21,13,22,11,23],[4,18,4,19,5,19,5,18,4,18],[5,2,15,2],[5,3,13,3],[5,4,9,4,13,3,15,2]] },
+  '6': { width: 20, strokes: [[14,5,14,6,15,6,15,5,14,5],[15,4,14,4,13,5,13,6,14,7,15,7,16,6,16,5,15,3,13,2,10,2,7,3,5,5,4,7,3,11,3,17,4,20,6,22,9,23,11,23,14,22,16,20,17,17,17,16,16,13,14,11,11,10,9,10,7,11,6,12,5,14],[6,5,5,7,4,11,4,17,5,20,6,21],[15,20,16,18,16,15,15,13],[10,2,8,3,7,4,6,6,5,10,5,17,6,20,7,22,9,23],[11,23,13,22,14,21,15,18,15,15,14,12,13,11,11,10]] },
+  '7': { width: 20, strokes: [[3,2,3,8],[17,2,17,5,16,8,12,13,11,15,10,19,10,23],[11,14,10,16,9,19,9,23],[16,8,11,13,9,16,8,19,8,23,10,23],[3,6,4,4,6,2,8,2,13,5,15,5,16,4,17,2],[5,4,6,3,8,3,10,4],[3,6,4,5,6,4,8,4,13,5]] },
+  '8': { width: 20, strokes: [[8,2,5,3,4,5,4,8,5,10,8,11,12,11,15,10,16,8,16,5,15,3,12,2,8,2],[6,3,5,5,5,8,6,10],[14,10,15,8,15,5,14,3],[8,2,7,3,6,5,6,8,7,10,8,11],[12,11,13,10,14,8,14,5,13,3,12,2],[8,11,5,12,4,13,3,15,3,19,4,21,5,22,8,23,12,23,15,22,16,21,17,19,17,15,16,13,15,12,12,11],[5,13,4,15,4,19,5,21],[15,21,16,19,16,15,15,13],[8,11,6,12,5,15,5,19,6,22,8,23],[12,23,14,22,15,19,15,15,14,12,12,11]] },
+  '9': { width: 20, strokes: [[5,19,5,20,6,20,6,19,5,19],[15,11,14,13,13,14,11,15,9,15,6,14,4,12,3,9,3,8,4,5,6,3,9,2,11,2,14,3,16,5,17,8,17,14,16,18,15,20,13,22,10,23,7,23,5,22,4,20,4,19,5,18,6,18,7,19,7,20,6,21,5,21],[5,12,4,10,4,7,5,5],[14,4,15,5,16,8,16,14,15,18,14,20],[9,15,7,14,6,13,5,10,5,7,6,4,7,3,9,2],[11,2,13,3,14,5,15,8,15,15,14,19,13,21,12,22,10,23]] },
+  ':': { width: 12, strokes: [[5,9,4,10,4,11,5,12,6,12,7,11,7,10,6,9,5,9],[5,10,5,11,6,11,6,10,5,10],[5,20,4,21,4,22,5,23,6,23,7,22,7,21,6,20,5,20],[5,21,5,22,6,22,6,21,5,21]] },
+  ';': { width: 12, strokes: [[5,9,4,10,4,11,5,12,6,12,7,11,7,10,6,9,5,9],[5,10,5,11,6,11,6,10,5,10],[7,22,6,23,5,23,4,22,4,21,5,20,6,20,7,21,7,24,6,26,4,27],[5,21,5,22,6,22,6,21,5,21],[6,23,7,24],[7,22,6,26]] },
+  '<': { width: 24, strokes: [[20,5,4,14,20,23]] },
+  '=': { width: 26, strokes: [[4,9,21,9,21,10],[4,9,4,10,21,10],[4,17,21,17,21,18],[4,17,4,18,21,18]] },
+  '>': { width: 24, strokes: [[4,5,20,14,4,23]] },
+  '?': { width: 20, strokes: [[4,7,4,6,5,6,5,8,3,8,3,6,4,4,5,3,7,2,11,2,14,3,15,4,16,6,16,8,15,10,14,11,10,13],[14,4,15,5,15,9,14,10],[11,2,13,3,14,5,14,9,13,11,12,12],[9,13,9,16,10,16,10,13,9,13],[9,20,8,21,8,22,9,23,10,23,11,22,11,21,10,20,9,20],[9,21,9,22,10,22,10,21,9,21]] },
+  '@': { width: 28, strokes: [[18,10,17,8,15,7,12,7,10,8,9,9,8,12,8,15,9,17,11,18,14,18,16,17,17,15],[12,7,10,9,9,12,9,15,10,17,11,18],[18,7,17,15,17,17,19,18,21,18,23,16,24,13,24,11,23,8,22,6,20,4,18,3,15,2,12,2,9,3,7,4,5,6,4,8,3,11,3,14,4,17,5,19,7,21,9,22,12,23,15,23,18,22,20,21,21,20],[19,7,18,15,18,17,19,18]] },
+  'A': { width: 20, strokes: [[10,2,3,22],[9,5,15,23],[10,5,16,23],[10,2,17,23],[5,17,14,17],[1,23,7,23],[12,23,19,23],[3,22,2,23],[3,22,5,23],[15,22,13,23],[15,21,14,23],[16,21,18,23]] },
+  'B': { width: 22, strokes: [[5,2,5,23],[6,3,6,22],[7,2,7,23],[2,2,14,2,17,3,18,4,19,6,19,8,18,10,17,11,14,12],[17,4,18,6,18,8,17,10],[14,2,16,3,17,5,17,9,16,11,14,12],[7,12,14,12,17,13,18,14,19,16,19,19,18,21,17,22,14,23,2,23],[17,14,18,16,18,19,17,21],[14,12,16,13,17,15,17,20,16,22,14,23],[3,2,5,3],[4,2,5,4],[8,2,7,4],[9,2,7,3],[5,22,3,23],[5,21,4,23],[7,21,8,23],[7,22,9,23]] },
+  'C': { width: 20, strokes: [[17,5,18,2,18,8,17,5,15,3,13,2,10,2,7,3,5,5,4,7,3,10,3,15,4,18,5,20,7,22,10,23,13,23,15,22,17,20,18,18],[6,5,5,7,4,10,4,15,5,18,6,20],[10,2,8,3,6,6,5,10,5,15,6,19,8,22,10,23]] },
+  'D': { width: 22, strokes: [[5,2,5,23],[6,3,6,22],[7,2,7,23],[2,2,12,2,15,3,17,5,18,7,19,10,19,15,18,18,17,20,15,22,12,23,2,23],[16,5,17,7,18,10,18,15,17,18,16,20],[12,2,14,3,16,6,17,10,17,15,16,19,14,22,12,23],[3,2,5,3],[4,2,5,4],[8,2,7,4],[9,2,7,3],[5,22,3,23],[5,21,4,23],[7,21,8,23],[7,22,9,23]] },
+  'E': { width: 20, strokes: [[5,2,5,23],[6,3,6,22],[7,2,7,23],[2,2,18,2,18,8],[7,12,13,12],[13,8,13,16],[2,23,18,23,18,17],[3,2,5,3],[4,2,5,4],[8,2,7,4],[9,2,7,3],[13,2,18,3],[15,2,18,4],[16,2,18,5],[17,2,18,8],[13,8,12,12,13,16],[13,10,11,12,13,14],[13,11,9,12,13,13],[5,22,3,23],[5,21,4,23],[7,21,8,23],[7,22,9,23],[13,23,18,22],[15,23,18,21],[16,23,18,20],[17,23,18,17]] },
+  'F': { width: 18, strokes: [[5,2,5,23],[6,3,6,22],[7,2,7,23],[2,2,18,2,18,8],[7,12,13,12],[13,8,13,16],[2,23,10,23],[3,2,5,3],[4,2,5,4],[8,2,7,4],[9,2,7,3],[13,2,18,3],[15,2,18,4],[16,2,18,5],[17,2,18,8],[13,8,12,12,13,16],[13,10,11,12,13,14],[13,11,9,12,13,13],[5,22,3,23],[5,21,4,23],[7,21,8,23],[7,22,9,23]] },
+  'G': { width: 24, strokes: [[17,5,18,2,18,8,17,5,15,3,13,2,10,2,7,3,5,5,4,7,3,10,3,15,4,18,5,20,7,22,10,23,13,23,15,22,17,22,18,23,18,15],[6,5,5,7,4,10,4,15,5,18,6,20],[10,2,8,3,6,6,5,10,5,15,6,19,8,22,10,23],[17,16,17,21],[16,15,16,21,15,22],[13,15,21,15],[14,15,16,16],[15,15,16,17],[19,15,18,17],[20,15,18,16]] },
+  'H': { width: 24, strokes: [[5,2,5,23],[6,3,6,22],[7,2,7,23],[17,2,17,23],[18,3,18,22],[19,2,19,23],[2,2,10,2],[14,2,22,2],[7,12,17,12],[2,23,10,23],[14,23,22,23],[3,2,5,3],[4,2,5,4],[8,2,7,4],[9,2,7,3],[15,2,17,3],[16,2,17,4],[20,2,19,4],[21,2,19,3],[5,22,3,23],[5,21,4,23],[7,21,8,23],[7,22,9,23],[17,22,15,23],[17,21,16,23],[19,21,20,23],[19,22,21,23]] },
+  'I': { width: 12, strokes: [[5,2,5,23],[6,3,6,22],[7,2,7,23],[2,2,10,2],[2,23,10,23],[3,2,5,3],[4,2,5,4],[8,2,7,4],[9,2,7,3],[5,22,3,23],[5,21,4,23],[7,21,8,23],[7,22,9,23]] },
+  'J': { width: 16, strokes: [[9,2,9,19,8,22,7,23],[10,3,10,19,9,22],[11,2,11,19,10,22,7,23,5,23,3,22,2,20,2,18,3,17,4,17,5,18,5,19,4,20,3,20],[3,18,3,19,4,19,4,18,3,18],[6,2,14,2],[7,2,9,3],[8,2,9,4],[12,2,11,4],[13,2,11,3]] },
+  'K': { width: 20, strokes: [[5,2,5,23],[6,3,6,22],[7,2,7,23],[18,3,7,14],[10,12,17,23],[11,12,18,23],[11,10,19,23],[2,2,10,2],[15,2,21,2],[2,23,10,23],[14,23,21,23],[3,2,5,3],[4,2,5,4],[8,2,7,4],[9,2,7,3],[17,2,18,3],[20,2,18,3],[5,22,3,23],[5,21,4,23],[7,21,8,23],[7,22,9,23],[17,21,15,23],[17,21,20,23]] },
+  'L': { width: 18, strokes: [[5,2,5,23],[6,3,6,22],[7,2,7,23],[2,2,10,2],[2,23,17,23,17,17],[3,2,5,3],[4,2,5,4],[8,2,7,4],[9,2,7,3],[5,22,3,23],[5,21,4,23],[7,21,8,23],[7,22,9,23],[12,23,17,22],[14,23,17,21],[15,23,17,20],[16,23,17,17]] },
+  'M': { width: 26, strokes: [[5,2,5,22],[5,2,12,23],[6,2,12,20],[7,2,13,20],[19,2,12,23],[19,2,19,23],[20,3,20,22],[21,2,21,23],[2,2,7,2],[19,2,24,2],[2,23,8,23],[16,23,24,23],[3,2,5,3],[22,2,21,4],[23,2,21,3],[5,22,3,23],[5,22,7,23],[19,22,17,23],[19,21,18,23],[21,21,22,23],[21,22,23,23]] },
+  'N': { width: 24, strokes: [[5,2,5,22],[5,2,19,23],[6,2,18,20],[7,2,19,20],[19,3,19,23],[2,2,7,2],[16,2,22,2],[2,23,8,23],[3,2,5,3],[17,2,19,3],[21,2,19,3],[5,22,3,23],[5,22,7,23]] },
+  'O': { width: 22, strokes: [[10,2,7,3,5,5,4,7,3,11,3,14,4,18,5,20,7,22,10,23,12,23,15,22,17,20,18,18,19,14,19,11,18,7,17,5,15,3,12,2,10,2],[6,5,5,7,4,10,4,15,5,18,6,20],[16,20,17,18,18,15,18,10,17,7,16,5],[10,2,8,3,6,6,5,10,5,15,6,19,8,22,10,23],[12,23,14,22,16,19,17,15,17,10,16,6,14,3,12,2]] },
+  'P': { width: 22, strokes: [[5,2,5,23],[6,3,6,22],[7,2,7,23],[2,2,14,2,17,3,18,4,19,6,19,9,18,11,17,12,14,13,7,13],[17,4,18,6,18,9,17,11],[14,2,16,3,17,5,17,10,16,12,14,13],[2,23,10,23],[3,2,5,3],[4,2,5,4],[8,2,7,4],[9,2,7,3],[5,22,3,23],[5,21,4,23],[7,21,8,23],[7,22,9,23]] },
+  'Q': { width: 22, strokes: [[10,2,7,3,5,5,4,7,3,11,3,14,4,18,5,20,7,22,10,23,12,23,15,22,17,20,18,18,19,14,19,11,18,7,17,5,15,3,12,2,10,2],[6,5,5,7,4,10,4,15,5,18,6,20],[16,20,17,18,18,15,18,10,17,7,16,5],[10,2,8,3,6,6,5,10,5,15,6,19,8,22,10,23],[12,23,14,22,16,19,17,15,17,10,16,6,14,3,12,2],[7,20,8,18,10,17,11,17,13,18,14,20,15,26,16,28,18,28,19,26,19,24],[15,24,16,26,17,27,18,27],[14,20,16,25,17,26,18,26,19,25]] },
+  'R': { width: 22, strokes: [[5,2,5,23],[6,3,6,22],[7,2,7,23],[2,2,14,2,17,3,18,4,19,6,19,8,18,10,17,11,14,12,7,12],[17,4,18,6,18,8,17,10],[14,2,16,3,17,5,17,9,16,11,14,12],[11,12,13,13,14,15,16,21,17,23,19,23,20,21,20,19],[16,19,17,21,18,22,19,22],[13,13,14,14,17,20,18,21,19,21,20,20],[2,23,10,23],[3,2,5,3],[4,2,5,4],[8,2,7,4],[9,2,7,3],[5,22,3,23],[5,21,4,23],[7,21,8,23],[7,22,9,23]] },
+  'S': { width: 20, strokes: [[16,5,17,2,17,8,16,5,14,3,11,2,8,2,5,3,3,5,3,8,4,10,7,12,13,14,15,15,16,17,16,20,15,22],[4,8,5,10,7,11,13,13,15,14,16,16],[5,3,4,5,4,7,5,9,7,10,13,12,16,14,17,16,17,19,16,21,15,22,12,23,9,23,6,22,4,20,3,17,3,23,4,20]] },
+  'T': { width: 20, strokes: [[2,2,2,8],[9,2,9,23],[10,3,10,22],[11,2,11,23],[18,2,18,8],[2,2,18,2],[6,23,14,23],[3,2,2,8],[4,2,2,5],[5,2,2,4],[7,2,2,3],[13,2,18,3],[15,2,18,4],[16,2,18,5],[17,2,18,8],[9,22,7,23],[9,21,8,23],[11,21,12,23],[11,22,13,23]] },
+  'U': { width: 24, strokes: [[5,2,5,17,6,20,8,22,11,23,13,23,16,22,18,20,19,17,19,3],[6,3,6,18,7,20],[7,2,7,18,8,21,9,22,11,23],[2,2,10,2],[16,2,22,2],[3,2,5,3],[4,2,5,4],[8,2,7,4],[9,2,7,3],[17,2,19,3],[21,2,19,3]] },
+  'V': { width: 20, strokes: [[3,2,10,23],[4,2,10,20,10,23],[5,2,11,20],[17,3,10,23],[1,2,8,2],[13,2,19,2],[2,2,4,4],[6,2,5,4],[7,2,5,3],[15,2,17,3],[18,2,17,3]] },
+  'W': { width: 24, strokes: [[4,2,8,23],[5,2,8,18,8,23],[6,2,9,18],[12,2,9,18,8,23],[12,2,16,23],[13,2,16,18,16,23],[14,2,17,18],[20,3,17,18,16,23],[1,2,9,2],[12,2,14,2],[17,2,23,2],[2,2,5,3],[3,2,5,4],[7,2,6,4],[8,2,6,3],[18,2,20,3],[22,2,20,3]] },
+  'X': { width: 20, strokes: [[3,2,15,23],[4,2,16,23],[5,2,17,23],[16,3,4,22],[1,2,8,2],[13,2,19,2],[1,23,7,23],[12,23,19,23],[2,2,5,4],[6,2,5,4],[7,2,5,3],[14,2,16,3],[18,2,16,3],[4,22,2,23],[4,22,6,23],[15,22,13,23],[15,21,14,23],[15,21,18,23]] },
+  'Y': { width: 22, strokes: [[3,2,10,13,10,23],[4,2,11,13,11,22],[5,2,12,13,12,23],[18,3,12,13],[1,2,8,2],[15,2,21,2],[7,23,15,23],[2,2,4,3],[7,2,5,3],[16,2,18,3],[20,2,18,3],[10,22,8,23],[10,21,9,23],[12,21,13,23],[12,22,14,23]] },
+  'Z': { width: 20, strokes: [[17,2,3,2,3,8],[15,2,3,23],[16,2,4,23],[17,2,5,23],[3,23,17,23,17,17],[4,2,3,8],[5,2,3,5],[6,2,3,4],[8,2,3,3],[12,23,17,22],[14,23,17,21],[15,23,17,20],[16,23,17,17]] },
+  '[': { width: 14, strokes: [[4,-2,4,30],[5,-2,5,30],[4,-2,11,-2],[4,30,11,30]] },
+  '\\': { width: 14, strokes: [[0,2,14,26]] },
+  ']': { width: 14, strokes: [[9,-2,9,30],[10,-2,10,30],[3,-2,10,-2],[3,30,10,30]] },
+  '^': { width: 22, strokes: [[3,16,11,11,19,16],[3,16,11,12,19,16]] },
+  '_': { width: 20, strokes: [[0,30,20,30]] },
+  '`': { width: 12, strokes: [[4,2,9,8],[4,2,3,3,9,8]] },
+  'a': { width: 22, strokes: [[5,12,5,11,6,11,6,13,4,13,4,11,5,10,7,9,11,9,13,10,14,11,15,13,15,20,16,22,17,23],[13,11,14,13,14,20,15,22],[11,9,12,10,13,12,13,20,14,22,17,23,18,23],[13,14,12,15,7,16,4,17,3,19,3,20,4,22,7,23,10,23,12,22,13,20],[5,17,4,19,4,20,5,22],[12,15,8,16,6,17,5,19,5,20,6,22,7,23]] },
+  'b': { width: 20, strokes: [[5,2,5,23,6,22,8,22],[6,3,6,21],[2,2,7,2,7,22],[7,12,8,10,10,9,12,9,15,10,17,12,18,15,18,17,17,20,15,22,12,23,10,23,8,22,7,20],[16,12,17,14,17,18,16,20],[12,9,14,10,15,11,16,14,16,18,15,21,14,22,12,23],[3,2,5,3],[4,2,5,4]] },
+  'c': { width: 18, strokes: [[15,13,15,12,14,12,14,14,16,14,16,12,14,10,12,9,9,9,6,10,4,12,3,15,3,17,4,20,6,22,9,23,11,23,14,22,16,20],[5,12,4,14,4,18,5,20],[9,9,7,10,6,11,5,14,5,18,6,21,7,22,9,23]] },
+  'd': { width: 22, strokes: [[14,2,14,23,19,23],[15,3,15,22],[11,2,16,2,16,23],[14,12,13,10,11,9,9,9,6,10,4,12,3,15,3,17,4,20,6,22,9,23,11,23,13,22,14,20],[5,12,4,14,4,18,5,20],[9,9,7,10,6,11,5,14,5,18,6,21,7,22,9,23],[12,2,14,3],[13,2,14,4],[16,21,17,23],[16,22,18,23]] },
+  'e': { width: 18, strokes: [[5,15,16,15,16,13,15,11,14,10,11,9,9,9,6,10,4,12,3,15,3,17,4,20,6,22,9,23,11,23,14,22,16,20],[15,14,15,13,14,11],[5,12,4,14,4,18,5,20],[14,15,14,12,13,10,11,9],[9,9,7,10,6,11,5,14,5,18,6,21,7,22,9,23]] },
+  'f': { width: 14, strokes: [[12,4,12,3,11,3,11,5,13,5,13,3,12,2,9,2,7,3,6,4,5,7,5,23],[7,4,6,7,6,22],[9,2,8,3,7,5,7,23],[2,9,11,9],[2,23,10,23],[5,22,3,23],[5,21,4,23],[7,21,8,23],[7,22,9,23]] },
+  'g': { width: 20, strokes: [[15,10,16,11,17,10,16,9,15,9,13,10,12,11],[8,9,6,10,5,11,4,13,4,15,5,17,6,18,8,19,10,19,12,18,13,17,14,15,14,13,13,11,12,10,10,9,8,9],[6,11,5,13,5,15,6,17],[12,17,13,15,13,13,12,11],[8,9,7,10,6,12,6,16,7,18,8,19],[10,19,11,18,12,16,12,12,11,10,10,9],[5,17,4,18,3,20,3,21,4,23,5,24,8,25,12,25,15,26,16,27],[5,23,8,24,12,24,15,25],[3,21,4,22,7,23,12,23,15,24,16,26,16,27,15,29,12,30,6,30,3,29,2,27,2,26,3,24,6,23],[6,30,4,29,3,27,3,26,4,24,6,23]] },
+  'h': { width: 24, strokes: [[5,2,5,23],[6,3,6,22],[2,2,7,2,7,23],[7,13,8,11,9,10,11,9,14,9,16,10,17,11,18,14,18,23],[16,11,17,14,17,22],[14,9,15,10,16,13,16,23],[2,23,10,23],[13,23,21,23],[3,2,5,3],[4,2,5,4],[5,22,3,23],[5,21,4,23],[7,21,8,23],[7,22,9,23],[16,22,14,23],[16,21,15,23],[18,21,19,23],[18,22,20,23]] },
+  'i': { width: 12, strokes: [[5,2,5,4,7,4,7,2,5,2],[6,2,6,4],[5,3,7,3],[5,9,5,23],[6,10,6,22],[2,9,7,9,7,23],[2,23,10,23],[3,9,5,10],[4,9,5,11],[5,22,3,23],[5,21,4,23],[7,21,8,23],[7,22,9,23]] },
+  'j': { width: 12, strokes: [[7,2,7,4,9,4,9,2,7,2],[8,2,8,4],[7,3,9,3],[7,9,7,26,6,29,5,30],[8,10,8,25,7,28],[4,9,9,9,9,25,8,28,7,29,5,30,2,30,1,29,1,27,3,27,3,29,2,29,2,28],[5,9,7,10],[6,9,7,11]] },
+  'k': { width: 22, strokes: [[5,2,5,23],[6,3,6,22],[2,2,7,2,7,23],[16,10,7,19],[11,15,18,23],[11,16,17,23],[10,16,16,23],[13,9,20,9],[2,23,10,23],[13,23,20,23],[3,2,5,3],[4,2,5,4],[14,9,16,10],[19,9,16,10],[5,22,3,23],[5,21,4,23],[7,21,8,23],[7,22,9,23],[16,21,14,23],[15,21,19,23]] },
+  'l': { width: 12, strokes: [[5,2,5,23],[6,3,6,22],[2,2,7,2,7,23],[2,23,10,23],[3,2,5,3],[4,2,5,4],[5,22,3,23],[5,21,4,23],[7,21,8,23],[7,22,9,23]] },
+  'm': { width: 34, strokes: [[5,9,5,23],[6,10,6,22],[2,9,7,9,7,23],[7,13,8,11,9,10,11,9,14,9,16,10,17,11,18,14,18,23],[16,11,17,14,17,22],[14,9,15,10,16,13,16,23],[18,13,19,11,20,10,22,9,25,9,27,10,28,11,29,14,29,23],[27,11,28,14,28,22],[25,9,26,10,27,13,27,23],[2,23,10,23],[13,23,21,23],[24,23,32,23],[3,9,5,10],[4,9,5,11],[5,22,3,23],[5,21,4,23],[7,21,8,23],[7,22,9,23],[16,22,14,23],[16,21,15,23],[18,21,19,23],[18,22,20,23],[27,22,25,23],[27,21,26,23],[29,21,30,23],[29,22,31,23]] },
+  'n': { width: 24, strokes: [[5,9,5,23],[6,10,6,22],[2,9,7,9,7,23],[7,13,8,11,9,10,11,9,14,9,16,10,17,11,18,14,18,23],[16,11,17,14,17,22],[14,9,15,10,16,13,16,23],[2,23,10,23],[13,23,21,23],[3,9,5,10],[4,9,5,11],[5,22,3,23],[5,21,4,23],[7,21,8,23],[7,22,9,23],[16,22,14,23],[16,21,15,23],[18,21,19,23],[18,22,20,23]] },
+  'o': { width: 20, strokes: [[9,9,6,10,4,12,3,15,3,17,4,20,6,22,9,23,11,23,14,22,16,20,17,17,17,15,16,12,14,10,11,9,9,9],[5,12,4,14,4,18,5,20],[15,20,16,18,16,14,15,12],[9,9,7,10,6,11,5,14,5,18,6,21,7,22,9,23],[11,23,13,22,14,21,15,18,15,14,14,11,13,10,11,9]] },
+  'p': { width: 20, strokes: [[5,9,5,30],[6,10,6,29],[2,9,7,9,7,30],[7,12,8,10,10,9,12,9,15,10,17,12,18,15,18,17,17,20,15,22,12,23,10,23,8,22,7,20],[16,12,17,14,17,18,16,20],[12,9,14,10,15,11,16,14,16,18,15,21,14,22,12,23],[2,30,10,30],[3,9,5,10],[4,9,5,11],[5,29,3,30],[5,28,4,30],[7,28,8,30],[7,29,9,30]] },
+  'q': { width: 20, strokes: [[14,10,14,30],[15,11,15,29],[13,10,15,10,16,9,16,30],[14,12,13,10,11,9,9,9,6,10,4,12,3,15,3,17,4,20,6,22,9,23,11,23,13,22,14,20],[5,12,4,14,4,18,5,20],[9,9,7,10,6,11,5,14,5,18,6,21,7,22,9,23],[11,30,19,30],[14,29,12,30],[14,28,13,30],[16,28,17,30],[16,29,18,30]] },
+  'r': { width: 16, strokes: [[5,9,5,23],[6,10,6,22],[2,9,7,9,7,23],[14,11,14,10,13,10,13,12,15,12,15,10,14,9,12,9,10,10,8,12,7,15],[2,23,10,23],[3,9,5,10],[4,9,5,11],[5,22,3,23],[5,21,4,23],[7,21,8,23],[7,22,9,23]] },
+  's': { width: 18, strokes: [[13,11,14,9,14,13,13,11,12,10,10,9,6,9,4,10,3,11,3,13,4,15,6,16,11,17,13,18,14,21],[4,10,3,13],[4,14,6,15,11,16,13,17],[14,18,13,22],[3,11,4,13,6,14,11,15,13,16,14,18,14,21,13,22,11,23,7,23,5,22,4,21,3,19,3,23,4,21]] },
+  't': { width: 16, strokes: [[5,4,5,18,6,21,7,22,9,23,11,23,13,22,14,20],[6,4,6,19,7,21],[5,4,7,2,7,19,8,22,9,23],[2,9,11,9]] },
+  'u': { width: 24, strokes: [[5,9,5,18,6,21,7,22,9,23,12,23,14,22,15,21,16,19],[6,10,6,19,7,21],[2,9,7,9,7,19,8,22,9,23],[16,9,16,23,21,23],[17,10,17,22],[13,9,18,9,18,23],[3,9,5,10],[4,9,5,11],[18,21,19,23],[18,22,20,23]] },
+  'v': { width: 18, strokes: [[3,9,9,23],[4,9,9,21],[5,9,10,21],[15,10,10,21,9,23],[1,9,8,9],[11,9,17,9],[2,9,5,11],[7,9,5,10],[13,9,15,10],[16,9,15,10]] },
+  'w': { width: 24, strokes: [[4,9,8,23],[5,9,8,20],[6,9,9,20],[12,9,9,20,8,23],[12,9,16,23],[13,9,16,20],[12,9,14,9,17,20],[20,10,17,20,16,23],[1,9,9,9],[17,9,23,9],[2,9,5,10],[8,9,6,10],[18,9,20,10],[22,9,20,10]] },
+  'x': { width: 20, strokes: [[4,9,14,23],[5,9,15,23],[6,9,16,23],[15,10,5,22],[2,9,9,9],[12,9,18,9],[2,23,8,23],[11,23,18,23],[3,9,5,10],[8,9,6,10],[13,9,15,10],[17,9,15,10],[5,22,3,23],[5,22,7,23],[14,22,12,23],[15,22,17,23]] },
+  'y': { width: 18, strokes: [[4,9,10,23],[5,9,10,21],[6,9,11,21],[16,10,11,21,8,27,6,29,4,30,2,30,1,29,1,27,3,27,3,29,2,29,2,28],[2,9,9,9],[12,9,18,9],[3,9,6,11],[8,9,6,10],[14,9,16,10],[17,9,16,10]] },
+  'z': { width: 18, strokes: [[13,9,3,23],[14,9,4,23],[15,9,5,23],[15,9,3,9,3,13],[3,23,15,23,15,19],[4,9,3,13],[5,9,3,12],[6,9,3,11],[8,9,3,10],[10,23,15,22],[12,23,15,21],[13,23,15,20],[14,23,15,19]] },
+  '{': { width: 14, strokes: [[9,-2,7,-1,6,0,5,2,5,4,6,6,7,7,8,9,8,11,6,13],[7,-1,6,1,6,3,7,5,8,6,9,8,9,10,8,12,4,14,8,16,9,18,9,20,8,22,7,23,6,25,6,27,7,29],[6,15,8,17,8,19,7,21,6,22,5,24,5,26,6,28,7,29,9,30]] },
+  '|': { width: 8, strokes: [[4,-2,4,30]] },
+  '}': { width: 14, strokes: [[5,-2,7,-1,8,0,9,2,9,4,8,6,7,7,6,9,6,11,8,13],[7,-1,8,1,8,3,7,5,6,6,5,8,5,10,6,12,10,14,6,16,5,18,5,20,6,22,7,23,8,25,8,27,7,29],[8,15,6,17,6,19,7,21,8,22,9,24,9,26,8,28,7,29,5,30]] },
+  '~': { width: 24, strokes: [[3,17,3,15,4,12,6,11,8,11,10,12,14,15,16,16,18,16,20,15,21,13],[3,15,4,13,6,12,8,12,10,13,14,16,16,17,18,17,20,16,21,13,21,11]] },
+};
+
+// Hershey Complex Italic face, same grid as HERSHEY_FONT
+const HERSHEY_COMPLEX_ITALIC: { [char: string]: HersheyGlyph } = {
+  ' ': { width: 16, strokes: [] },
+  '!': { width: 12, strokes: [[8,2,7,3,5,15],[8,3,5,15],[8,2,9,3,5,15],[3,21,2,22,3,23,4,22,3,21]] },
+  '"': { width: 18, strokes: [[7,2,5,9],[8,2,5,9],[16,2,14,9],[17,2,14,9]] },
+  '#': { width: 22, strokes: [[11,-2,4,30],[17,-2,10,30],[4,11,18,11],[3,17,17,17]] },
+  '$': { width: 22, strokes: [[12,-2,4,27],[17,-2,9,27],[18,6,17,7,18,8,19,7,19,6,18,4,17,3,14,2,10,2,7,3,5,5,5,7,6,9,7,10,14,14,16,16],[5,7,7,9,14,13,15,14,16,16,16,19,15,21,14,22,11,23,7,23,4,22,3,21,2,19,2,18,3,17,4,18,3,19]] },
+  '%': { width: 24, strokes: [[21,2,3,23],[8,2,10,4,10,6,9,8,7,9,5,9,3,7,3,5,4,3,6,2,8,2,10,3,13,4,16,4,19,3,21,2],[17,16,15,17,14,19,14,21,16,23,18,23,20,22,21,20,21,18,19,16,17,16]] },
+  '&': { width: 26, strokes: [[21,10,20,11,21,12,22,11,22,10,21,9,20,9,19,10,18,12,16,17,14,20,12,22,10,23,7,23,4,22,3,20,3,17,4,15,10,11,12,9,13,7,13,5,12,3,10,2,8,3,7,5,7,7,8,10,10,13,15,20,17,22,20,23,21,23,22,22,22,21],[7,23,5,22,4,20,4,17,5,15,7,13],[7,7,8,9,16,20,18,22,20,23]] },
+  '\'': { width: 10, strokes: [[7,2,5,9],[8,2,5,9]] },
+  '(': { width: 16, strokes: [[15,-2,11,1,8,4,6,7,4,11,3,16,3,20,4,25,5,28,6,30],[11,1,8,5,6,9,5,12,4,17,4,22,5,27,6,30]] },
+  ')': { width: 14, strokes: [[9,-2,10,0,11,3,12,8,12,12,11,17,9,21,7,24,4,27,0,30],[9,-2,10,1,11,6,11,11,10,16,9,19,7,23,4,27]] },
+  '*': { width: 16, strokes: [[8,8,8,20],[3,11,13,17],[13,11,3,17]] },
+  '+': { width: 26, strokes: [[13,5,13,23],[4,14,22,14]] },
+  ',': { width: 12, strokes: [[3,23,2,22,3,21,4,22,4,23,3,25,1,27]] },
+  '-': { width: 26, strokes: [[4,14,22,14]] },
+  '.': { width: 12, strokes: [[3,21,2,22,3,23,4,22,3,21]] },
+  '/': { width: 22, strokes: [[20,-2,2,30]] },
+  '0': { width: 22, strokes: [[12,2,9,3,7,5,5,8,4,11,3,15,3,18,4,21,5,22,7,23,9,23,12,22,14,20,16,17,17,14,18,10,18,7,17,4,16,3,14,2,12,2],[12,2,10,3,8,5,6,8,5,11,4,15,4,18,5,21,7,23],[9,23,11,22,13,20,15,17,16,14,17,10,17,7,16,4,14,2]] },
+  '1': { width: 22, strokes: [[12,6,7,23],[14,2,8,23],[14,2,11,5,8,7,6,8],[13,5,9,7,6,8]] },
+  '2': { width: 22, strokes: [[7,6,8,7,7,8,6,7,6,6,7,4,8,3,11,2,14,2,17,3,18,5,18,7,17,9,15,11,12,13,8,15,5,17,3,19,1,23],[14,2,16,3,17,5,17,7,16,9,14,11,8,15],[2,21,3,20,5,20,10,22,13,22,15,21,16,19],[5,20,10,23,13,23,15,22,16,19]] },
+  '3': { width: 22, strokes: [[7,6,8,7,7,8,6,7,6,6,7,4,8,3,11,2,14,2,17,3,18,5,18,7,17,9,14,11,11,12],[14,2,16,3,17,5,17,7,16,9,14,11],[9,12,11,12,14,13,15,14,16,16,16,19,15,21,14,22,11,23,7,23,4,22,3,21,2,19,2,18,3,17,4,18,3,19],[11,12,13,13,14,14,15,16,15,19,14,21,13,22,11,23]] },
+  '4': { width: 22, strokes: [[16,3,10,23],[17,2,11,23],[17,2,2,17,18,17]] },
+  '5': { width: 22, strokes: [[9,2,4,12],[9,2,19,2],[9,3,14,3,19,2],[4,12,5,11,8,10,11,10,14,11,15,12,16,14,16,17,15,20,13,22,10,23,7,23,4,22,3,21,2,19,2,18,3,17,4,18,3,19],[11,10,13,11,14,12,15,14,15,17,14,20,12,22,10,23]] },
+  '6': { width: 22, strokes: [[17,5,16,6,17,7,18,6,18,5,17,3,15,2,12,2,9,3,7,5,5,8,4,11,3,15,3,19,4,21,5,22,7,23,10,23,13,22,15,20,16,18,16,15,15,13,14,12,12,11,9,11,7,12,5,14,4,16],[12,2,10,3,8,5,6,8,5,11,4,15,4,20,5,22],[10,23,12,22,14,20,15,18,15,14,14,12]] },
+  '7': { width: 22, strokes: [[6,2,4,8],[19,2,18,5,16,8,11,14,9,17,8,19,7,23],[16,8,10,14,8,17,7,19,6,23],[5,5,8,2,10,2,15,5],[6,4,8,3,10,3,15,5,17,5,18,4,19,2]] },
+  '8': { width: 22, strokes: [[11,2,8,3,7,4,6,6,6,9,7,11,9,12,12,12,16,11,17,10,18,8,18,5,17,3,14,2,11,2],[11,2,9,3,8,4,7,6,7,9,8,11,9,12],[12,12,15,11,16,10,17,8,17,5,16,3,14,2],[9,12,5,13,3,15,2,17,2,20,3,22,6,23,10,23,14,22,15,21,16,19,16,16,15,14,14,13,12,12],[9,12,6,13,4,15,3,17,3,20,4,22,6,23],[10,23,13,22,14,21,15,19,15,15,14,13]] },
+  '9': { width: 22, strokes: [[17,9,16,11,14,13,12,14,9,14,7,13,6,12,5,10,5,7,6,5,8,3,11,2,14,2,16,3,17,4,18,6,18,10,17,14,16,17,14,20,12,22,9,23,6,23,4,22,3,20,3,19,4,18,5,19,4,20],[7,13,6,11,6,7,7,5,9,3,11,2],[16,3,17,5,17,10,16,14,15,17,13,20,11,22,9,23]] },
+  ':': { width: 12, strokes: [[6,9,5,10,6,11,7,10,6,9],[3,21,2,22,3,23,4,22]] },
+  ';': { width: 12, strokes: [[6,9,5,10,6,11,7,10,6,9],[3,23,2,22,3,21,4,22,4,23,3,25,1,27]] },
+  '<': { width: 24, strokes: [[20,5,4,14,20,23]] },
+  '=': { width: 26, strokes: [[4,11,22,11],[4,17,22,17]] },
+  '>': { width: 24, strokes: [[4,5,20,14,4,23]] },
+  '?': { width: 22, strokes: [[7,6,8,7,7,8,6,7,6,6,7,4,8,3,11,2,15,2,18,3,19,5,19,7,18,9,17,10,11,12,9,13,9,15,10,16,12,16],[15,2,17,3,18,5,18,7,17,9,16,10,14,11],[8,21,7,22,8,23,9,22,8,21]] },
+  '@': { width: 28, strokes: [[18,10,17,8,15,7,12,7,10,8,9,9,8,12,8,15,9,17,11,18,14,18,16,17,17,15],[12,7,10,9,9,12,9,15,10,17,11,18],[18,7,17,15,17,17,19,18,21,18,23,16,24,13,24,11,23,8,22,6,20,4,18,3,15,2,12,2,9,3,7,4,5,6,4,8,3,11,3,14,4,17,5,19,7,21,9,22,12,23,15,23,18,22,20,21,21,20],[19,7,18,15,18,17,19,18]] },
+  'A': { width: 20, strokes: [[13,2,0,23],[13,2,14,23],[12,4,13,23],[4,17,13,17],[-2,23,4,23],[10,23,16,23]] },
+  'B': { width: 24, strokes: [[9,2,3,23],[10,2,4,23],[6,2,17,2,20,3,21,5,21,7,20,10,19,11,16,12],[17,2,19,3,20,5,20,7,19,10,18,11,16,12],[7,12,16,12,18,13,19,15,19,17,18,20,16,22,12,23,0,23],[16,12,17,13,18,15,18,17,17,20,15,22,12,23]] },
+  'C': { width: 22, strokes: [[18,4,19,4,20,2,19,8,19,6,18,4,17,3,15,2,12,2,9,3,7,5,5,8,4,11,3,15,3,18,4,21,5,22,8,23,11,23,13,22,15,20,16,18],[12,2,10,3,8,5,6,8,5,11,4,15,4,18,5,21,6,22,8,23]] },
+  'D': { width: 22, strokes: [[9,2,3,23],[10,2,4,23],[6,2,15,2,18,3,19,4,20,7,20,11,19,15,17,19,15,21,13,22,9,23,0,23],[15,2,17,3,18,4,19,7,19,11,18,15,16,19,14,21,12,22,9,23]] },
+  'E': { width: 22, strokes: [[9,2,3,23],[10,2,4,23],[14,8,12,16],[6,2,21,2,20,8,20,2],[7,12,13,12],[0,23,15,23,17,18,14,23]] },
+  'F': { width: 20, strokes: [[9,2,3,23],[10,2,4,23],[14,8,12,16],[6,2,21,2,20,8,20,2],[7,12,13,12],[0,23,7,23]] },
+  'G': { width: 24, strokes: [[18,4,19,4,20,2,19,8,19,6,18,4,17,3,15,2,12,2,9,3,7,5,5,8,4,11,3,15,3,18,4,21,5,22,8,23,10,23,13,22,15,20,17,16],[12,2,10,3,8,5,6,8,5,11,4,15,4,18,5,21,6,22,8,23],[10,23,12,22,14,20,16,16],[13,16,20,16]] },
+  'H': { width: 26, strokes: [[9,2,3,23],[10,2,4,23],[22,2,16,23],[23,2,17,23],[6,2,13,2],[19,2,26,2],[7,12,19,12],[0,23,7,23],[13,23,20,23]] },
+  'I': { width: 14, strokes: [[9,2,3,23],[10,2,4,23],[6,2,13,2],[0,23,7,23]] },
+  'J': { width: 18, strokes: [[15,2,10,19,9,21,8,22,6,23,4,23,2,22,1,20,1,18,2,17,3,18,2,19],[14,2,9,19,8,21,6,23],[11,2,18,2]] },
+  'K': { width: 22, strokes: [[9,2,3,23],[10,2,4,23],[23,2,6,15],[13,11,17,23],[12,11,16,23],[6,2,13,2],[19,2,25,2],[0,23,7,23],[13,23,19,23]] },
+  'L': { width: 20, strokes: [[9,2,3,23],[10,2,4,23],[6,2,13,2],[0,23,15,23,17,17,14,23]] },
+  'M': { width: 28, strokes: [[9,2,3,23],[9,2,10,23],[10,2,11,21],[23,2,10,23],[23,2,17,23],[24,2,18,23],[6,2,10,2],[23,2,27,2],[0,23,6,23],[14,23,21,23]] },
+  'N': { width: 26, strokes: [[9,2,3,23],[9,2,16,20],[9,5,16,23],[22,2,16,23],[6,2,9,2],[19,2,25,2],[0,23,6,23]] },
+  'O': { width: 22, strokes: [[12,2,9,3,7,5,5,8,4,11,3,15,3,18,4,21,5,22,7,23,10,23,13,22,15,20,17,17,18,14,19,10,19,7,18,4,17,3,15,2,12,2],[12,2,10,3,8,5,6,8,5,11,4,15,4,18,5,21,7,23],[10,23,12,22,14,20,16,17,17,14,18,10,18,7,17,4,15,2]] },
+  'P': { width: 22, strokes: [[9,2,3,23],[10,2,4,23],[6,2,18,2,21,3,22,5,22,7,21,10,19,12,15,13,7,13],[18,2,20,3,21,5,21,7,20,10,18,12,15,13],[0,23,7,23]] },
+  'Q': { width: 22, strokes: [[12,2,9,3,7,5,5,8,4,11,3,15,3,18,4,21,5,22,7,23,10,23,13,22,15,20,17,17,18,14,19,10,19,7,18,4,17,3,15,2,12,2],[12,2,10,3,8,5,6,8,5,11,4,15,4,18,5,21,7,23],[10,23,12,22,14,20,16,17,17,14,18,10,18,7,17,4,15,2],[5,21,5,20,6,18,8,17,9,17,11,18,12,20,12,27,13,28,15,28,16,26,16,25],[12,20,13,26,14,27,15,27,16,26]] },
+  'R': { width: 24, strokes: [[9,2,3,23],[10,2,4,23],[6,2,17,2,20,3,21,5,21,7,20,10,19,11,16,12,7,12],[17,2,19,3,20,5,20,7,19,10,18,11,16,12],[12,12,14,13,15,14,16,22,17,23,19,23,20,21,20,20],[15,14,17,21,18,22,19,22,20,21],[0,23,7,23]] },
+  'S': { width: 24, strokes: [[19,4,20,4,21,2,20,8,20,6,19,4,18,3,15,2,11,2,8,3,6,5,6,7,7,9,8,10,15,14,17,16],[6,7,8,9,15,13,16,14,17,16,17,19,16,21,15,22,12,23,8,23,5,22,4,21,3,19,3,17,2,23,3,21,4,21]] },
+  'T': { width: 22, strokes: [[13,2,7,23],[14,2,8,23],[7,2,4,8,6,2,21,2,20,8,20,2],[4,23,11,23]] },
+  'U': { width: 26, strokes: [[8,2,5,13,4,17,4,20,5,22,8,23,12,23,15,22,17,20,18,17,22,2],[9,2,6,13,5,17,5,20,6,22,8,23],[5,2,12,2],[19,2,25,2]] },
+  'V': { width: 20, strokes: [[6,2,7,23],[7,2,8,21],[20,2,7,23],[4,2,10,2],[16,2,22,2]] },
+  'W': { width: 26, strokes: [[8,2,6,23],[9,2,7,21],[16,2,6,23],[16,2,14,23],[17,2,15,21],[24,2,14,23],[5,2,12,2],[21,2,27,2]] },
+  'X': { width: 22, strokes: [[7,2,14,23],[8,2,15,23],[21,2,1,23],[5,2,11,2],[17,2,23,2],[-1,23,5,23],[11,23,17,23]] },
+  'Y': { width: 22, strokes: [[6,2,10,12,7,23],[7,2,11,12,8,23],[21,2,11,12],[4,2,10,2],[17,2,23,2],[4,23,11,23]] },
+  'Z': { width: 22, strokes: [[20,2,1,23],[21,2,2,23],[8,2,5,8,7,2,21,2],[1,23,15,23,17,17,14,23]] },
+  '[': { width: 14, strokes: [[4,-2,4,30],[5,-2,5,30],[4,-2,11,-2],[4,30,11,30]] },
+  '\\': { width: 14, strokes: [[0,2,14,26]] },
+  ']': { width: 14, strokes: [[9,-2,9,30],[10,-2,10,30],[3,-2,10,-2],[3,30,10,30]] },
+  '^': { width: 22, strokes: [[3,16,11,11,19,16],[3,16,11,12,19,16]] },
+  '_': { width: 20, strokes: [[0,30,20,30]] },
+  '`': { width: 12, strokes: [[4,2,9,8],[4,2,3,3,9,8]] },
+  'a': { width: 22, strokes: [[16,9,14,16,13,20,13,22,14,23,17,23,19,21,20,19],[17,9,15,16,14,20,14,22,15,23],[14,16,14,13,13,10,11,9,9,9,6,10,4,13,3,16,3,19,4,21,5,22,7,23,9,23,11,22,13,19,14,16],[9,9,7,10,5,13,4,16,4,20,5,22]] },
+  'b': { width: 18, strokes: [[8,2,4,15,4,18,5,21,6,22],[9,2,5,15],[5,15,6,12,8,10,10,9,12,9,14,10,15,11,16,13,16,16,15,19,13,22,10,23,8,23,6,22,5,19,5,15],[14,10,15,12,15,16,14,19,12,22,10,23],[5,2,9,2]] },
+  'c': { width: 18, strokes: [[14,12,14,13,15,13,15,12,14,10,12,9,9,9,6,10,4,13,3,16,3,19,4,21,5,22,7,23,9,23,12,22,14,19],[9,9,7,10,5,13,4,16,4,20,5,22]] },
+  'd': { width: 22, strokes: [[18,2,14,16,13,20,13,22,14,23,17,23,19,21,20,19],[19,2,15,16,14,20,14,22,15,23],[14,16,14,13,13,10,11,9,9,9,6,10,4,13,3,16,3,19,4,21,5,22,7,23,9,23,11,22,13,19,14,16],[9,9,7,10,5,13,4,16,4,20,5,22],[15,2,19,2]] },
+  'e': { width: 18, strokes: [[4,18,8,17,11,16,14,14,15,12,14,10,12,9,9,9,6,10,4,13,3,16,3,19,4,21,5,22,7,23,9,23,12,22,14,20],[9,9,7,10,5,13,4,16,4,20,5,22]] },
+  'f': { width: 16, strokes: [[15,3,14,4,15,5,16,4,16,3,15,2,13,2,11,3,10,4,9,6,8,9,5,23,4,27,3,29],[13,2,11,4,10,6,9,10,7,19,6,23,5,26,4,28,3,29,1,30,-1,30,-2,29,-2,28,-1,27,0,28,-1,29],[4,9,14,9]] },
+  'g': { width: 20, strokes: [[17,9,13,23,12,26,10,29,7,30,4,30,2,29,1,28,1,27,2,26,3,27,2,28],[16,9,12,23,11,26,9,29,7,30],[14,16,14,13,13,10,11,9,9,9,6,10,4,13,3,16,3,19,4,21,5,22,7,23,9,23,11,22,13,19,14,16],[9,9,7,10,5,13,4,16,4,20,5,22]] },
+  'h': { width: 22, strokes: [[8,2,2,23],[9,2,3,23],[5,16,7,12,9,10,11,9,13,9,15,10,16,11,16,13,14,19,14,22,15,23],[13,9,15,11,15,13,13,19,13,22,14,23,17,23,19,21,20,19],[5,2,9,2]] },
+  'i': { width: 14, strokes: [[9,2,8,3,9,4,10,3,9,2],[1,13,2,11,4,9,7,9,8,10,8,13,6,19,6,22,7,23],[6,9,7,10,7,13,5,19,5,22,6,23,9,23,11,21,12,19]] },
+  'j': { width: 14, strokes: [[10,2,9,3,10,4,11,3,10,2],[2,13,3,11,5,9,8,9,9,10,9,13,6,23,5,26,4,28,3,29,1,30,-1,30,-2,29,-2,28,-1,27,0,28,-1,29],[7,9,8,10,8,13,5,23,4,26,3,28,1,30]] },
+  'k': { width: 20, strokes: [[8,2,2,23],[9,2,3,23],[16,10,15,11,16,12,17,11,17,10,16,9,15,9,13,10,9,14,7,15,5,15],[7,15,9,16,11,22,12,23],[7,15,8,16,10,22,11,23,13,23,15,22,17,19],[5,2,9,2]] },
+  'l': { width: 14, strokes: [[8,2,4,16,3,20,3,22,4,23,7,23,9,21,10,19],[9,2,5,16,4,20,4,22,5,23],[5,2,9,2]] },
+  'm': { width: 32, strokes: [[1,13,2,11,4,9,7,9,8,10,8,12,7,16,5,23],[6,9,7,10,7,12,6,16,4,23],[7,16,9,12,11,10,13,9,15,9,17,10,18,11,18,13,15,23],[15,9,17,11,17,13,14,23],[17,16,19,12,21,10,23,9,25,9,27,10,28,11,28,13,26,19,26,22,27,23],[25,9,27,11,27,13,25,19,25,22,26,23,29,23,31,21,32,19]] },
+  'n': { width: 22, strokes: [[1,13,2,11,4,9,7,9,8,10,8,12,7,16,5,23],[6,9,7,10,7,12,6,16,4,23],[7,16,9,12,11,10,13,9,15,9,17,10,18,11,18,13,16,19,16,22,17,23],[15,9,17,11,17,13,15,19,15,22,16,23,19,23,21,21,22,19]] },
+  'o': { width: 18, strokes: [[9,9,6,10,4,13,3,16,3,19,4,21,5,22,7,23,9,23,12,22,14,19,15,16,15,13,14,11,13,10,11,9,9,9],[9,9,7,10,5,13,4,16,4,20,5,22],[9,23,11,22,13,19,14,16,14,12,13,10]] },
+  'p': { width: 20, strokes: [[1,13,2,11,4,9,7,9,8,10,8,12,7,16,3,30],[6,9,7,10,7,12,6,16,2,30],[7,16,8,13,10,10,12,9,14,9,16,10,17,11,18,13,18,16,17,19,15,22,12,23,10,23,8,22,7,19,7,16],[16,10,17,12,17,16,16,19,14,22,12,23],[-1,30,6,30]] },
+  'q': { width: 20, strokes: [[16,9,10,30],[17,9,11,30],[14,16,14,13,13,10,11,9,9,9,6,10,4,13,3,16,3,19,4,21,5,22,7,23,9,23,11,22,13,19,14,16],[9,9,7,10,5,13,4,16,4,20,5,22],[7,30,14,30]] },
+  'r': { width: 16, strokes: [[1,13,2,11,4,9,7,9,8,10,8,12,7,16,5,23],[6,9,7,10,7,12,6,16,4,23],[7,16,9,12,11,10,13,9,15,9,16,10,16,11,15,12,14,11,15,10]] },
+  's': { width: 18, strokes: [[14,11,14,12,15,12,15,11,14,10,11,9,8,9,5,10,4,11,4,13,5,14,12,18,13,19],[4,12,5,13,12,17,13,18,13,21,12,22,9,23,6,23,3,22,2,21,2,20,3,20,3,21]] },
+  't': { width: 14, strokes: [[9,2,5,16,4,20,4,22,5,23,8,23,10,21,11,19],[10,2,6,16,5,20,5,22,6,23],[3,9,12,9]] },
+  'u': { width: 22, strokes: [[1,13,2,11,4,9,7,9,8,10,8,13,6,19,6,21,8,23],[6,9,7,10,7,13,5,19,5,21,6,22,8,23,10,23,12,22,14,20,16,16],[18,9,16,16,15,20,15,22,16,23,19,23,21,21,22,19],[19,9,17,16,16,20,16,22,17,23]] },
+  'v': { width: 20, strokes: [[1,13,2,11,4,9,7,9,8,10,8,13,6,19,6,21,8,23],[6,9,7,10,7,13,5,19,5,21,6,22,8,23,9,23,12,22,14,20,16,17,17,13,17,9,16,9,17,11]] },
+  'w': { width: 28, strokes: [[1,13,2,11,4,9,7,9,8,10,8,13,6,19,6,21,8,23],[6,9,7,10,7,13,5,19,5,21,6,22,8,23,10,23,12,22,14,20,15,18],[17,9,15,18,15,21,16,22,18,23,20,23,22,22,24,20,25,18,26,14,26,9,25,9,26,11],[18,9,16,18,16,21,18,23]] },
+  'x': { width: 20, strokes: [[3,13,5,10,7,9,10,9,11,11,11,14],[9,9,10,11,10,14,9,18,8,20,6,22,4,23,3,23,2,22,2,21,3,20,4,21,3,22],[9,18,9,21,10,23,13,23,15,22,17,19],[17,10,16,11,17,12,18,11,18,10,17,9,16,9,14,10,12,12,11,14,10,18,10,21,11,23]] },
+  'y': { width: 20, strokes: [[1,13,2,11,4,9,7,9,8,10,8,13,6,19,6,21,8,23],[6,9,7,10,7,13,5,19,5,21,6,22,8,23,10,23,12,22,14,20,16,16],[19,9,15,23,14,26,12,29,9,30,6,30,4,29,3,28,3,27,4,26,5,27,4,28],[18,9,14,23,13,26,11,29,9,30]] },
+  'z': { width: 20, strokes: [[17,9,16,11,14,13,6,19,4,21,3,23],[4,13,5,11,7,9,10,9,14,11],[5,11,7,10,10,10,14,11,16,11],[4,21,6,21,10,22,13,22,15,21],[6,21,10,23,13,23,15,21,16,19]] },
+  '{': { width: 14, strokes: [[9,-2,7,-1,6,0,5,2,5,4,6,6,7,7,8,9,8,11,6,13],[7,-1,6,1,6,3,7,5,8,6,9,8,9,10,8,12,4,14,8,16,9,18,9,20,8,22,7,23,6,25,6,27,7,29],[6,15,8,17,8,19,7,21,6,22,5,24,5,26,6,28,7,29,9,30]] },
+  '|': { width: 8, strokes: [[4,-2,4,30]] },
+  '}': { width: 14, strokes: [[5,-2,7,-1,8,0,9,2,9,4,8,6,7,7,6,9,6,11,8,13],[7,-1,8,1,8,3,7,5,6,6,5,8,5,10,6,12,10,14,6,16,5,18,5,20,6,22,7,23,8,25,8,27,7,29],[8,15,6,17,6,19,7,21,8,22,9,24,9,26,8,28,7,29,5,30]] },
+  '~': { width: 24, strokes: [[3,17,3,15,4,12,6,11,8,11,10,12,14,15,16,16,18,16,20,15,21,13],[3,15,4,13,6,12,8,12,10,13,14,16,16,17,18,17,20,16,21,13,21,11]] },
+};
+
+// Hershey Script face, same grid as HERSHEY_FONT
+const HERSHEY_SCRIPT: { [char: string]: HersheyGlyph } = {
+  ' ': { width: 16, strokes: [] },
+  '!': { width: 12, strokes: [[8,2,7,3,5,15],[8,3,5,15],[8,2,9,3,5,15],[3,21,2,22,3,23,4,22,3,21]] },
+  '"': { width: 18, strokes: [[7,2,5,9],[8,2,5,9],[16,2,14,9],[17,2,14,9]] },
+  '#': { width: 22, strokes: [[11,-2,4,30],[17,-2,10,30],[4,11,18,11],[3,17,17,17]] },
+  '$': { width: 22, strokes: [[12,-2,4,27],[17,-2,9,27],[18,6,17,7,18,8,19,7,19,6,18,4,17,3,14,2,10,2,7,3,5,5,5,7,6,9,7,10,14,14,16,16],[5,7,7,9,14,13,15,14,16,16,16,19,15,21,14,22,11,23,7,23,4,22,3,21,2,19,2,18,3,17,4,18,3,19]] },
+  '%': { width: 24, strokes: [[21,2,3,23],[8,2,10,4,10,6,9,8,7,9,5,9,3,7,3,5,4,3,6,2,8,2,10,3,13,4,16,4,19,3,21,2],[17,16,15,17,14,19,14,21,16,23,18,23,20,22,21,20,21,18,19,16,17,16]] },
+  '&': { width: 26, strokes: [[23,10,22,11,23,12,24,11,24,10,23,9,22,9,20,10,18,12,13,20,11,22,9,23,6,23,3,22,2,20,2,18,3,16,4,15,6,14,11,12,13,11,15,9,16,7,16,5,15,3,13,2,11,3,10,5,10,8,11,14,12,17,14,20,16,22,18,23,20,23,21,21,21,20],[6,23,4,22,3,20,3,18,4,16,5,15,11,12],[10,8,11,13,12,16,14,19,16,21,18,22,20,22,21,21]] },
+  '\'': { width: 12, strokes: [[8,4,7,3,8,2,9,3,9,4,8,6,6,8]] },
+  '(': { width: 16, strokes: [[15,-2,11,1,8,4,6,7,4,11,3,16,3,20,4,25,5,28,6,30],[11,1,8,5,6,9,5,12,4,17,4,22,5,27,6,30]] },
+  ')': { width: 14, strokes: [[9,-2,10,0,11,3,12,8,12,12,11,17,9,21,7,24,4,27,0,30],[9,-2,10,1,11,6,11,11,10,16,9,19,7,23,4,27]] },
+  '*': { width: 18, strokes: [[10,2,10,14],[5,5,15,11],[15,5,5,11]] },
+  '+': { width: 26, strokes: [[13,5,13,23],[4,14,22,14]] },
+  ',': { width: 12, strokes: [[3,23,2,22,3,21,4,22,4,23,3,25,1,27]] },
+  '-': { width: 26, strokes: [[4,14,22,14]] },
+  '.': { width: 10, strokes: [[5,21,4,22,5,23,6,22,5,21]] },
+  '/': { width: 22, strokes: [[24,-2,-2,30]] },
+  '0': { width: 22, strokes: [[12,2,9,3,7,5,5,8,4,11,3,15,3,18,4,21,5,22,7,23,9,23,12,22,14,20,16,17,17,14,18,10,18,7,17,4,16,3,14,2,12,2],[12,2,10,3,8,5,6,8,5,11,4,15,4,18,5,21,7,23],[9,23,11,22,13,20,15,17,16,14,17,10,17,7,16,4,14,2]] },
+  '1': { width: 22, strokes: [[12,6,7,23],[14,2,8,23],[14,2,11,5,8,7,6,8],[13,5,9,7,6,8]] },
+  '2': { width: 22, strokes: [[7,6,8,7,7,8,6,7,6,6,7,4,8,3,11,2,14,2,17,3,18,5,18,7,17,9,15,11,12,13,8,15,5,17,3,19,1,23],[14,2,16,3,17,5,17,7,16,9,14,11,8,15],[2,21,3,20,5,20,10,22,13,22,15,21,16,19],[5,20,10,23,13,23,15,22,16,19]] },
+  '3': { width: 22, strokes: [[7,6,8,7,7,8,6,7,6,6,7,4,8,3,11,2,14,2,17,3,18,5,18,7,17,9,14,11,11,12],[14,2,16,3,17,5,17,7,16,9,14,11],[9,12,11,12,14,13,15,14,16,16,16,19,15,21,14,22,11,23,7,23,4,22,3,21,2,19,2,18,3,17,4,18,3,19],[11,12,13,13,14,14,15,16,15,19,14,21,13,22,11,23]] },
+  '4': { width: 22, strokes: [[16,3,10,23],[17,2,11,23],[17,2,2,17,18,17]] },
+  '5': { width: 22, strokes: [[9,2,4,12],[9,2,19,2],[9,3,14,3,19,2],[4,12,5,11,8,10,11,10,14,11,15,12,16,14,16,17,15,20,13,22,10,23,7,23,4,22,3,21,2,19,2,18,3,17,4,18,3,19],[11,10,13,11,14,12,15,14,15,17,14,20,12,22,10,23]] },
+  '6': { width: 22, strokes: [[17,5,16,6,17,7,18,6,18,5,17,3,15,2,12,2,9,3,7,5,5,8,4,11,3,15,3,19,4,21,5,22,7,23,10,23,13,22,15,20,16,18,16,15,15,13,14,12,12,11,9,11,7,12,5,14,4,16],[12,2,10,3,8,5,6,8,5,11,4,15,4,20,5,22],[10,23,12,22,14,20,15,18,15,14,14,12]] },
+  '7': { width: 22, strokes: [[6,2,4,8],[19,2,18,5,16,8,11,14,9,17,8,19,7,23],[16,8,10,14,8,17,7,19,6,23],[5,5,8,2,10,2,15,5],[6,4,8,3,10,3,15,5,17,5,18,4,19,2]] },
+  '8': { width: 22, strokes: [[11,2,8,3,7,4,6,6,6,9,7,11,9,12,12,12,16,11,17,10,18,8,18,5,17,3,14,2,11,2],[11,2,9,3,8,4,7,6,7,9,8,11,9,12],[12,12,15,11,16,10,17,8,17,5,16,3,14,2],[9,12,5,13,3,15,2,17,2,20,3,22,6,23,10,23,14,22,15,21,16,19,16,16,15,14,14,13,12,12],[9,12,6,13,4,15,3,17,3,20,4,22,6,23],[10,23,13,22,14,21,15,19,15,15,14,13]] },
+  '9': { width: 22, strokes: [[17,9,16,11,14,13,12,14,9,14,7,13,6,12,5,10,5,7,6,5,8,3,11,2,14,2,16,3,17,4,18,6,18,10,17,14,16,17,14,20,12,22,9,23,6,23,4,22,3,20,3,19,4,18,5,19,4,20],[7,13,6,11,6,7,7,5,9,3,11,2],[16,3,17,5,17,10,16,14,15,17,13,20,11,22,9,23]] },
+  ':': { width: 12, strokes: [[6,9,5,10,6,11,7,10,6,9],[3,21,2,22,3,23,4,22]] },
+  ';': { width: 12, strokes: [[6,9,5,10,6,11,7,10,6,9],[3,23,2,22,3,21,4,22,4,23,3,25,1,27]] },
+  '<': { width: 24, strokes: [[20,5,4,14,20,23]] },
+  '=': { width: 26, strokes: [[4,11,22,11],[4,17,22,17]] },
+  '>': { width: 24, strokes: [[4,5,20,14,4,23]] },
+  '?': { width: 22, strokes: [[7,6,8,7,7,8,6,7,6,6,7,4,8,3,11,2,15,2,18,3,19,5,19,7,18,9,17,10,11,12,9,13,9,15,10,16,12,16],[15,2,17,3,18,5,18,7,17,9,16,10,14,11],[8,21,7,22,8,23,9,22,8,21]] },
+  '@': { width: 28, strokes: [[18,10,17,8,15,7,12,7,10,8,9,9,8,12,8,15,9,17,11,18,14,18,16,17,17,15],[12,7,10,9,9,12,9,15,10,17,11,18],[18,7,17,15,17,17,19,18,21,18,23,16,24,13,24,11,23,8,22,6,20,4,18,3,15,2,12,2,9,3,7,4,5,6,4,8,3,11,3,14,4,17,5,19,7,21,9,22,12,23,15,23,18,22,20,21,21,20],[19,7,18,15,18,17,19,18]] },
+  'A': { width: 18, strokes: [[0,23,2,22,5,19,8,15,12,8,15,2,15,23,14,20,12,17,10,15,7,13,5,13,4,14,4,16,5,18,7,20,10,22,13,23,18,23]] },
+  'B': { width: 22, strokes: [[13,4,14,5,14,8,13,12,12,15,11,17,9,20,7,22,5,23,4,23,3,22,3,19,4,14,5,11,6,9,8,6,10,4,12,3,15,2,18,2,20,3,21,5,21,7,20,9,19,10,17,11,14,12],[13,12,14,12,17,13,18,14,19,16,19,19,18,21,17,22,15,23,12,23,10,22,9,20]] },
+  'C': { width: 20, strokes: [[12,8,12,9,13,10,15,10,17,9,18,7,18,5,17,3,15,2,12,2,9,3,7,5,5,8,4,10,3,14,3,18,4,21,5,22,7,23,9,23,12,22,14,20,15,18]] },
+  'D': { width: 24, strokes: [[13,2,11,3,10,5,9,9,8,15,7,18,6,20,4,22,2,23,0,23,-1,22,-1,20,0,19,2,19,4,20,6,22,9,23,12,23,15,22,17,20,19,16,20,11,20,7,19,4,18,3,16,2,13,2,11,4,11,6,12,9,14,12,16,14,19,16,21,17]] },
+  'E': { width: 20, strokes: [[14,6,14,7,15,8,17,8,18,7,18,5,17,3,14,2,10,2,7,3,6,5,6,8,7,10,8,11,11,12,8,12,5,13,4,14,3,16,3,19,4,21,5,22,8,23,11,23,14,22,16,20,17,18]] },
+  'F': { width: 20, strokes: [[10,8,8,8,6,7,5,5,6,3,9,2,12,2,16,3,19,3,21,2],[16,3,14,10,12,16,10,20,8,22,6,23,4,23,2,22,1,20,1,18,2,17,4,17,6,18],[9,12,18,12]] },
+  'G': { width: 24, strokes: [[0,23,2,22,6,18,9,13,10,10,11,6,11,3,10,2,9,2,8,3,7,5,7,8,8,10,10,11,14,11,17,10,18,9,19,7,19,13,18,18,17,20,15,22,12,23,8,23,5,22,3,20,2,18,2,16]] },
+  'H': { width: 24, strokes: [[7,9,5,8,4,6,4,5,5,3,7,2,8,2,10,3,11,5,11,7,10,11,8,17,6,21,4,23,2,23,1,22,1,20],[7,14,16,11,18,10,21,8,23,6,24,4,24,3,23,2,22,2,20,4,18,8,16,14,15,19,15,22,16,23,17,23,19,22,20,21,22,18]] },
+  'I': { width: 16, strokes: [[14,18,12,16,10,13,9,11,8,8,8,5,9,3,10,2,12,2,13,3,14,5,14,8,13,13,11,18,10,20,8,22,6,23,4,23,2,22,1,20,1,18,2,17,4,17,6,18]] },
+  'J': { width: 14, strokes: [[10,26,8,23,6,18,5,12,5,6,6,3,8,2,10,2,11,3,12,6,12,9,11,14,8,23,6,29,5,32,4,34,2,35,1,34,1,32,2,29,4,26,6,24,9,22,13,20]] },
+  'K': { width: 24, strokes: [[7,9,5,8,4,6,4,5,5,3,7,2,8,2,10,3,11,5,11,7,10,11,8,17,6,21,4,23,2,23,1,22,1,20],[24,5,24,3,23,2,22,2,20,3,18,5,16,8,14,10,12,11,10,11],[12,11,13,13,13,20,14,22,15,23,16,23,18,22,19,21,21,18]] },
+  'L': { width: 20, strokes: [[4,14,6,14,10,13,13,11,15,9,16,7,16,4,15,2,13,2,12,3,11,5,10,10,9,15,8,18,7,20,5,22,3,23,1,23,0,22,0,20,1,19,3,19,5,20,8,22,11,23,13,23,16,22,18,20]] },
+  'M': { width: 30, strokes: [[5,9,3,8,2,6,2,5,3,3,5,2,6,2,8,3,9,5,9,7,8,12,7,16,5,23],[7,16,10,8,12,4,13,3,15,2,16,2,18,3,19,5,19,7,18,12,17,16,15,23],[17,16,20,8,22,4,23,3,25,2,26,2,28,3,29,5,29,7,28,12,26,19,26,22,27,23,28,23,30,22,31,21,33,18]] },
+  'N': { width: 22, strokes: [[5,9,3,8,2,6,2,5,3,3,5,2,6,2,8,3,9,5,9,7,8,12,7,16,5,23],[7,16,10,8,12,4,13,3,15,2,17,2,19,3,20,5,20,7,19,12,17,19,17,22,18,23,19,23,21,22,22,21,24,18]] },
+  'O': { width: 22, strokes: [[12,2,9,3,7,5,5,8,4,10,3,14,3,18,4,21,5,22,7,23,9,23,12,22,14,20,16,17,17,15,18,11,18,7,17,4,16,3,14,2,12,2,10,4,10,7,11,10,13,13,15,15,18,17,20,18]] },
+  'P': { width: 26, strokes: [[13,4,14,5,14,8,13,12,12,15,11,17,9,20,7,22,5,23,4,23,3,22,3,19,4,14,5,11,6,9,8,6,10,4,12,3,15,2,20,2,22,3,23,4,24,6,24,9,23,11,22,12,20,13,17,13,15,12,14,11]] },
+  'Q': { width: 24, strokes: [[13,8,12,10,11,11,9,12,7,12,6,10,6,8,7,5,9,3,12,2,15,2,17,3,18,5,18,9,17,12,15,15,11,19,8,21,6,22,3,23,1,23,0,22,0,20,1,19,3,19,5,20,8,22,11,23,14,23,17,22,19,20]] },
+  'R': { width: 26, strokes: [[13,4,14,5,14,8,13,12,12,15,11,17,9,20,7,22,5,23,4,23,3,22,3,19,4,14,5,11,6,9,8,6,10,4,12,3,15,2,19,2,21,3,22,4,23,6,23,9,22,11,21,12,19,13,16,13,13,12,14,13,15,15,15,20,16,22,18,23,20,22,21,21,23,18]] },
+  'S': { width: 20, strokes: [[0,23,2,22,4,20,7,16,9,13,11,9,12,6,12,3,11,2,10,2,9,3,8,5,8,7,9,9,11,11,14,13,16,15,17,17,17,19,16,21,15,22,12,23,8,23,5,22,3,20,2,18,2,16]] },
+  'T': { width: 18, strokes: [[10,8,8,8,6,7,5,5,6,3,9,2,12,2,16,3,19,3,21,2],[16,3,14,10,12,16,10,20,8,22,6,23,4,23,2,22,1,20,1,18,2,17,4,17,6,18]] },
+  'U': { width: 22, strokes: [[5,9,3,8,2,6,2,5,3,3,5,2,6,2,8,3,9,5,9,7,8,11,7,14,6,18,6,20,7,22,9,23,11,23,13,22,14,21,16,17,19,9,21,2],[19,9,18,13,17,19,17,22,18,23,19,23,21,22,22,21,24,18]] },
+  'V': { width: 22, strokes: [[5,9,3,8,2,6,2,5,3,3,5,2,6,2,8,3,9,5,9,7,8,11,7,14,6,18,6,21,7,23,9,23,11,22,14,19,16,16,18,12,19,9,20,5,20,3,19,2,18,2,17,3,16,5,16,7,17,10,19,12,21,13]] },
+  'W': { width: 26, strokes: [[5,9,3,8,2,6,2,5,3,3,5,2,6,2,8,3,9,5,9,8,8,23],[18,2,8,23],[18,2,16,23],[30,2,28,3,25,6,22,10,19,16,16,23]] },
+  'X': { width: 24, strokes: [[8,8,6,8,5,7,5,5,6,3,8,2,10,2,12,3,13,5,13,8,11,17,11,20,12,22,14,23,16,23,18,22,19,20,19,18,18,17,16,17],[23,5,23,3,22,2,20,2,18,3,16,5,14,8,10,17,8,20,6,22,4,23,2,23,1,22,1,20]] },
+  'Y': { width: 22, strokes: [[5,9,3,8,2,6,2,5,3,3,5,2,6,2,8,3,9,5,9,7,8,11,7,14,6,18,6,20,7,22,8,23,10,23,12,22,14,20,16,17,17,15,19,9],[21,2,19,9,16,19,14,25,12,30,10,34,8,35,7,34,7,32,8,29,10,26,13,23,16,21,21,18]] },
+  'Z': { width: 22, strokes: [[13,8,12,10,11,11,9,12,7,12,6,10,6,8,7,5,9,3,12,2,15,2,17,3,18,5,18,9,17,12,15,16,12,19,8,22,6,23,3,23,2,22,2,20,3,19,6,19,8,20,9,21,10,23,10,26,9,29,8,31,6,34,4,35,3,34,3,32,4,29,6,26,9,23,12,21,18,18]] },
+  '[': { width: 14, strokes: [[4,-2,4,30],[5,-2,5,30],[4,-2,11,-2],[4,30,11,30]] },
+  '\\': { width: 14, strokes: [[0,2,14,26]] },
+  ']': { width: 14, strokes: [[9,-2,9,30],[10,-2,10,30],[3,-2,10,-2],[3,30,10,30]] },
+  '^': { width: 16, strokes: [[6,8,8,5,10,8],[3,11,8,6,13,11],[8,6,8,23]] },
+  '_': { width: 16, strokes: [[0,25,16,25]] },
+  '`': { width: 12, strokes: [[9,2,7,4,6,6,6,7,7,8,8,7,7,6]] },
+  'a': { width: 20, strokes: [[9,17,8,15,6,14,4,14,2,15,1,16,0,18,0,20,1,22,3,23,5,23,7,22,8,20,10,14,9,19,9,22,10,23,11,23,13,22,14,21,16,18]] },
+  'b': { width: 18, strokes: [[0,18,2,15,5,10,6,8,7,5,7,3,6,2,4,3,3,5,2,9,1,16,1,22,2,23,3,23,5,22,7,20,8,17,8,14,9,18,10,19,12,19,14,18]] },
+  'c': { width: 12, strokes: [[7,16,7,15,6,14,4,14,2,15,1,16,0,18,0,20,1,22,3,23,6,23,9,21,11,18]] },
+  'd': { width: 20, strokes: [[9,17,8,15,6,14,4,14,2,15,1,16,0,18,0,20,1,22,3,23,5,23,7,22,8,20,14,2],[10,14,9,19,9,22,10,23,11,23,13,22,14,21,16,18]] },
+  'e': { width: 12, strokes: [[1,21,3,20,4,19,5,17,5,15,4,14,3,14,1,15,0,17,0,20,1,22,3,23,5,23,7,22,8,21,10,18]] },
+  'f': { width: 10, strokes: [[0,18,4,13,6,10,7,8,8,5,8,3,7,2,5,3,4,5,2,13,-1,22,-4,29,-5,32,-5,34,-4,35,-2,34,-1,31,0,22,1,23,3,23,5,22,6,21,8,18]] },
+  'g': { width: 18, strokes: [[9,17,8,15,6,14,4,14,2,15,1,16,0,18,0,20,1,22,3,23,5,23,7,22,8,21],[10,14,8,21,4,32,3,34,1,35,0,34,0,32,1,29,4,26,7,24,9,23,12,21,15,18]] },
+  'h': { width: 20, strokes: [[0,18,2,15,5,10,6,8,7,5,7,3,6,2,4,3,3,5,2,9,1,15,0,23],[0,23,1,20,2,18,4,15,6,14,8,14,9,15,9,17,8,20,8,22,9,23,10,23,12,22,13,21,15,18]] },
+  'i': { width: 10, strokes: [[3,9,3,10,4,10,4,9,3,9],[0,18,2,14,0,20,0,22,1,23,2,23,4,22,5,21,7,18]] },
+  'j': { width: 10, strokes: [[3,9,3,10,4,10,4,9,3,9],[0,18,2,14,-4,32,-5,34,-7,35,-8,34,-8,32,-7,29,-4,26,-1,24,1,23,4,21,7,18]] },
+  'k': { width: 18, strokes: [[0,18,2,15,5,10,6,8,7,5,7,3,6,2,4,3,3,5,2,9,1,15,0,23],[0,23,1,20,2,18,4,15,6,14,8,14,9,15,9,17,7,18,4,18],[4,18,6,19,7,22,8,23,9,23,11,22,12,21,14,18]] },
+  'l': { width: 10, strokes: [[0,18,2,15,5,10,6,8,7,5,7,3,6,2,4,3,3,5,2,9,1,16,1,22,2,23,3,23,5,22,6,21,8,18]] },
+  'm': { width: 24, strokes: [[0,18,2,15,4,14,5,15,5,16,4,20,3,23],[4,20,5,18,7,15,9,14,11,14,12,15,12,16,11,20,10,23],[11,20,12,18,14,15,16,14,18,14,19,15,19,17,18,20,18,22,19,23,20,23,22,22,23,21,25,18]] },
+  'n': { width: 20, strokes: [[0,18,2,15,4,14,5,15,5,16,4,20,3,23],[4,20,5,18,7,15,9,14,11,14,12,15,12,17,11,20,11,22,12,23,13,23,15,22,16,21,18,18]] },
+  'o': { width: 16, strokes: [[6,14,4,14,2,15,1,16,0,18,0,20,1,22,3,23,5,23,7,22,8,21,9,19,9,17,8,15,6,14,5,15,5,17,6,19,8,20,11,20,13,19,14,18]] },
+  'p': { width: 16, strokes: [[0,18,2,15,3,13,2,17,-4,35],[2,17,3,15,5,14,7,14,9,15,10,17,10,19,9,21,8,22,6,23],[2,22,4,23,7,23,10,22,12,21,15,18]] },
+  'q': { width: 18, strokes: [[9,17,8,15,6,14,4,14,2,15,1,16,0,18,0,20,1,22,3,23,5,23,7,22],[10,14,9,17,7,22,4,29,3,32,3,34,4,35,6,34,7,31,7,24,9,23,12,21,15,18]] },
+  'r': { width: 16, strokes: [[0,18,2,15,3,13,3,15,6,15,7,16,7,18,6,21,6,22,7,23,8,23,10,22,11,21,13,18]] },
+  's': { width: 14, strokes: [[0,18,2,15,3,13,3,15,5,18,6,20,6,22,4,23],[0,22,2,23,6,23,8,22,9,21,11,18]] },
+  't': { width: 12, strokes: [[0,18,2,15,4,11],[7,2,1,20,1,22,2,23,4,23,6,22,7,21,9,18],[1,10,8,10]] },
+  'u': { width: 18, strokes: [[0,18,2,14,0,20,0,22,1,23,3,23,5,22,7,20,9,17],[10,14,8,20,8,22,9,23,10,23,12,22,13,21,15,18]] },
+  'v': { width: 18, strokes: [[0,18,2,14,1,19,1,22,2,23,3,23,6,22,8,20,9,17,9,14],[9,14,10,18,11,19,13,19,15,18]] },
+  'w': { width: 24, strokes: [[3,14,1,16,0,19,0,21,1,23,3,23,5,22,7,20],[9,14,7,20,7,22,8,23,10,23,12,22,14,20,15,17,15,14],[15,14,16,18,17,19,19,19,21,18]] },
+  'x': { width: 16, strokes: [[0,18,2,15,4,14,6,14,7,15,7,22,8,23,11,23,14,21,16,18],[13,15,12,14,10,14,9,15,5,22,4,23,2,23,1,22]] },
+  'y': { width: 18, strokes: [[0,18,2,14,0,20,0,22,1,23,3,23,5,22,7,20,9,17],[10,14,4,32,3,34,1,35,0,34,0,32,1,29,4,26,7,24,9,23,12,21,15,18]] },
+  'z': { width: 16, strokes: [[0,18,2,15,4,14,6,14,8,16,8,18,7,20,5,22,2,23,4,24,5,26,5,29,4,32,3,34,1,35,0,34,0,32,1,29,4,26,7,24,11,21,14,18]] },
+  '{': { width: 14, strokes: [[9,-2,7,-1,6,0,5,2,5,4,6,6,7,7,8,9,8,11,6,13],[7,-1,6,1,6,3,7,5,8,6,9,8,9,10,8,12,4,14,8,16,9,18,9,20,8,22,7,23,6,25,6,27,7,29],[6,15,8,17,8,19,7,21,6,22,5,24,5,26,6,28,7,29,9,30]] },
+  '|': { width: 8, strokes: [[4,-2,4,30]] },
+  '}': { width: 14, strokes: [[5,-2,7,-1,8,0,9,2,9,4,8,6,7,7,6,9,6,11,8,13],[7,-1,8,1,8,3,7,5,6,6,5,8,5,10,6,12,10,14,6,16,5,18,5,20,6,22,7,23,8,25,8,27,7,29],[8,15,6,17,6,19,7,21,8,22,9,24,9,26,8,28,7,29,5,30]] },
+  '~': { width: 24, strokes: [[3,17,3,15,4,12,6,11,8,11,10,12,14,15,16,16,18,16,20,15,21,13],[3,15,4,13,6,12,8,12,10,13,14,16,16,17,18,17,20,16,21,13,21,11]] },
+};
+
+// Hershey Gothic English face, same grid as HERSHEY_FONT
+const HERSHEY_GOTHIC: { [char: string]: HersheyGlyph } = {
+  ' ': { width: 16, strokes: [] },
+  '!': { width: 12, strokes: [[6,2,5,3,3,4,5,5,6,16],[6,5,7,4,6,3,5,4,6,5,6,16],[6,2,7,3,9,4,7,5,6,16],[6,20,4,22,6,23,8,22,6,20],[6,21,5,22,7,22,6,21]] },
+  '"': { width: 18, strokes: [[5,2,4,3,4,9],[5,3,4,9],[5,2,6,3,4,9],[14,2,13,3,13,9],[14,3,13,9],[14,2,15,3,13,9]] },
+  '#': { width: 22, strokes: [[11,-2,4,30],[17,-2,10,30],[4,11,18,11],[3,17,17,17]] },
+  '$': { width: 20, strokes: [[8,-2,8,27],[12,-2,12,27],[12,2,14,3,15,5,15,7,17,6,16,4,15,3,12,2,8,2,5,3,3,5,3,8,4,10,7,12,13,14,15,15,16,17,16,20,15,22],[16,6,15,4],[4,8,5,10,7,11,13,13,15,14,16,16],[5,21,4,19],[5,3,4,5,4,7,5,9,7,10,13,12,16,14,17,16,17,19,16,21,15,22,12,23,8,23,5,22,4,21,3,19,5,18,5,20,6,22,8,23]] },
+  '%': { width: 24, strokes: [[21,2,3,23],[8,2,10,4,10,6,9,8,7,9,5,9,3,7,3,5,4,3,6,2,8,2,10,3,13,4,16,4,19,3,21,2],[17,16,15,17,14,19,14,21,16,23,18,23,20,22,21,20,21,18,19,16,17,16]] },
+  '&': { width: 26, strokes: [[20,10,21,11,22,11,23,10],[19,11,20,12,22,12],[19,12,20,13,21,13,22,12,23,10],[20,10,14,16],[13,17,7,23,3,18,9,12],[10,11,14,7,10,2,5,8,11,14,15,20,17,22,19,23,21,23,22,22,23,20],[7,22,4,18],[13,7,10,3],[6,8,11,13,15,19,17,21,19,22,22,22],[8,22,4,17],[13,8,9,3],[6,7,12,13,16,19,17,20,19,21,22,21,23,20]] },
+  '\'': { width: 10, strokes: [[5,2,4,3,4,9],[5,3,4,9],[5,2,6,3,4,9]] },
+  '(': { width: 14, strokes: [[10,-2,8,0,6,3,4,7,3,12,3,16,4,21,6,25,8,28,10,30],[6,4,5,7,4,11,4,17,5,21,6,24],[8,0,7,2,6,5,5,11,5,17,6,23,7,26,8,28]] },
+  ')': { width: 14, strokes: [[4,-2,6,0,8,3,10,7,11,12,11,16,10,21,8,25,6,28,4,30],[8,4,9,7,10,11,10,17,9,21,8,24],[6,0,7,2,8,5,9,11,9,17,8,23,7,26,6,28]] },
+  '*': { width: 16, strokes: [[8,2,7,3,9,13,8,14],[8,2,8,14],[8,2,9,3,7,13,8,14],[3,5,4,5,12,11,13,11],[3,5,13,11],[3,5,3,6,13,10,13,11],[13,5,12,5,4,11,3,11],[13,5,3,11],[13,5,13,6,3,10,3,11]] },
+  '+': { width: 26, strokes: [[12,5,12,22,13,22],[12,5,13,5,13,22],[4,13,21,13,21,14],[4,13,4,14,21,14]] },
+  ',': { width: 12, strokes: [[6,26,6,24,4,22,6,20,7,22,7,24,6,26,4,27],[6,21,5,22,6,23,6,21]] },
+  '-': { width: 26, strokes: [[4,14,22,14]] },
+  '.': { width: 12, strokes: [[6,20,4,22,6,23,8,22,6,20],[6,21,5,22,7,22,6,21]] },
+  '/': { width: 24, strokes: [[20,-2,2,30,3,30],[20,-2,21,-2,3,30]] },
+  '0': { width: 20, strokes: [[4,4,4,20,2,21],[5,5,5,20,8,22],[6,4,6,20,8,21,9,22],[4,4,6,4,11,3,13,2],[11,3,12,4,14,5,14,21],[12,3,15,5,15,20],[13,2,14,3,16,4,18,4,16,5,16,21],[2,21,4,21,6,22,7,23,9,22,14,21,16,21]] },
+  '1': { width: 20, strokes: [[7,4,8,5,9,7,9,20,7,21],[9,5,8,4,9,3,10,5,10,21,12,22],[7,4,10,2,11,4,11,20,13,21,14,21],[7,21,8,21,10,22,11,23,12,22,14,21]] },
+  '2': { width: 20, strokes: [[4,4,6,4,8,3,9,2,11,3,14,4,16,4],[8,4,10,3],[4,4,6,5,8,5,10,4,11,3],[14,4,14,12],[15,5,15,11],[16,4,16,12,9,12,6,13,4,15,3,18,3,23],[3,23,7,21,11,20,14,20,18,21],[6,22,9,21,14,21,17,22],[3,23,8,22,13,22,16,23,18,21]] },
+  '3': { width: 20, strokes: [[4,4,5,4,7,3,8,2,10,3,14,4,16,4],[7,4,9,3],[4,4,6,5,8,5,10,3],[14,4,14,11],[15,5,15,10],[16,4,16,11,14,11,11,12,9,13],[9,12,11,13,14,14,16,14,16,21],[15,15,15,20],[14,14,14,21],[3,21,5,20,7,20,9,21,10,22],[7,21,9,22],[3,21,5,21,7,22,8,23,10,22,14,21,16,21]] },
+  '4': { width: 20, strokes: [[13,2,3,12,3,17,12,17],[14,17,18,17,19,18,19,16,18,17],[4,12,4,16],[5,10,5,17],[12,3,12,20,10,21],[13,6,14,4,13,3,13,21,15,22],[13,2,15,4,14,6,14,20,16,21,17,21],[10,21,11,21,13,22,14,23,15,22,17,21]] },
+  '5': { width: 20, strokes: [[4,2,4,11],[4,2,16,2],[5,3,14,3],[4,4,13,4,15,3,16,2],[14,8,13,9,11,10,7,11,4,11],[11,10,12,10,14,11,14,21],[13,9,15,10,15,20],[14,8,15,9,17,10,18,10,16,11,16,21],[3,21,5,20,7,20,9,21,10,22],[7,21,9,22],[3,21,5,21,7,22,8,23,10,22,14,21,16,21]] },
+  '6': { width: 20, strokes: [[4,4,4,20,2,21],[5,5,5,20,8,22],[6,4,6,20,8,21,9,22],[4,4,6,4,10,3,12,2,13,3,15,4,16,4],[11,3,13,4],[10,3,12,5,14,5,16,4],[6,12,7,12,11,11,13,10,14,9],[11,11,12,11,14,12,14,21],[13,10,15,12,15,20],[14,9,15,10,17,11,18,11,16,12,16,21],[2,21,4,21,6,22,7,23,9,22,14,21,16,21]] },
+  '7': { width: 20, strokes: [[3,4,5,2,8,3,13,3,18,2],[4,3,7,4,12,4,15,3],[3,4,7,5,10,5,14,4,18,2],[18,2,17,4,15,7,11,11,9,14,8,17,8,20,9,23],[10,13,9,16,9,19,10,22],[13,9,11,12,10,15,10,18,11,21,9,23]] },
+  '8': { width: 20, strokes: [[4,5,4,11],[5,6,5,10],[6,5,6,11],[4,5,6,5,11,4,13,3,14,2],[11,4,12,4,14,5,14,11],[13,3,15,4,15,10],[14,2,15,3,17,4,18,4,16,5,16,11],[4,11,6,11,14,14,16,14],[16,11,14,11,6,14,4,14],[4,14,4,20,2,21],[5,15,5,20,8,22],[6,14,6,20,8,21,9,22],[14,14,14,21],[15,15,15,20],[16,14,16,21],[2,21,4,21,6,22,7,23,9,22,14,21,16,21]] },
+  '9': { width: 20, strokes: [[4,4,4,13,2,14],[5,5,5,14,7,15],[6,4,6,13,8,14,9,14],[4,4,6,4,11,3,13,2],[11,3,12,4,14,5,14,21],[12,3,15,5,15,20],[13,2,14,3,16,4,18,4,16,5,16,21],[2,14,3,14,5,15,6,16,7,15,9,14,13,13,14,13],[3,21,5,20,7,20,9,21,10,22],[7,21,9,22],[3,21,5,21,7,22,8,23,10,22,14,21,16,21]] },
+  ':': { width: 12, strokes: [[6,9,4,11,6,12,8,11,6,9],[6,10,5,11,7,11,6,10],[6,20,4,22,6,23,8,22,6,20],[6,21,5,22,7,22,6,21]] },
+  ';': { width: 12, strokes: [[6,9,4,11,6,12,8,11,6,9],[6,10,5,11,7,11,6,10],[6,26,6,24,4,22,6,20,7,22,7,24,6,26,4,27],[6,21,5,22,6,23,6,21]] },
+  '<': { width: 24, strokes: [[20,5,4,14,20,23]] },
+  '=': { width: 26, strokes: [[4,9,21,9,21,10],[4,9,4,10,21,10],[4,17,21,17,21,18],[4,17,4,18,21,18]] },
+  '>': { width: 24, strokes: [[4,5,20,14,4,23]] },
+  '?': { width: 18, strokes: [[3,6,4,4,5,3,8,2,10,2,13,3,14,4,15,6,15,8,14,10,12,12,10,13],[4,6,5,4],[13,4,14,5,14,9,13,10],[3,6,5,7,5,5,6,3,8,2],[10,2,12,3,13,5,13,9,12,11,10,13],[9,13,9,16,10,13,8,13,9,16],[9,20,7,22,9,23,11,22,9,20],[9,21,8,22,10,22,9,21]] },
+  '@': { width: 28, strokes: [[18,10,17,8,15,7,12,7,10,8,9,9,8,12,8,15,9,17,11,18,14,18,16,17,17,15],[12,7,10,9,9,12,9,15,10,17,11,18],[18,7,17,15,17,17,19,18,21,18,23,16,24,13,24,11,23,8,22,6,20,4,18,3,15,2,12,2,9,3,7,4,5,6,4,8,3,11,3,14,4,17,5,19,7,21,9,22,12,23,15,23,18,22,20,21,21,20],[19,7,18,15,18,17,19,18]] },
+  'A': { width: 22, strokes: [[5,5,7,3,9,2,11,2,12,3,19,19,20,20,22,20],[10,3,11,4,18,20,19,22,20,21,18,20],[7,3,9,3,10,4,17,20,18,22,19,23,20,23,22,20],[5,9,6,8,8,7,9,7,10,8],[9,8,9,9],[6,8,8,8,9,10],[0,23,2,21,4,20,7,20,9,21],[3,21,7,21,8,22],[0,23,3,22,6,22,7,23,9,21],[11,6,5,20],[7,15,15,15]] },
+  'B': { width: 24, strokes: [[2,4,4,2,7,2,9,3,11,2],[5,3,8,3],[2,4,4,3,6,4,9,4,11,2],[7,7,6,8,5,10,5,11,3,11,2,12,2,14,3,13,5,13,5,19],[6,9,6,17],[3,12,6,12],[7,7,7,16,6,18,5,19],[12,5,11,6,10,8,10,17],[11,7,11,15],[12,5,12,14,11,16,10,17],[12,5,18,2,20,3,21,5,21,7,19,9,15,11],[18,3,20,5,20,7],[16,3,18,4,19,5,19,8,17,10],[17,10,20,12,21,14,21,20],[19,12,20,14,20,19],[17,10,18,11,19,13,19,20],[4,23,7,21,10,20,14,20,17,21],[6,22,9,21,14,21,16,22],[4,23,8,22,13,22,15,23,17,21,19,20,21,20],[15,11,15,20],[15,14,19,14],[15,17,19,17]] },
+  'C': { width: 22, strokes: [[9,3,7,4,5,6,4,8,3,11,3,15,4,18,5,20,8,22,11,23,14,23,17,22,19,21,21,19,22,17],[5,7,4,10,4,15,6,19,9,21,12,22,15,22,18,21],[9,3,7,5,6,7,5,10,5,14,6,17,9,20,12,21,15,21,18,20,20,19,22,17],[11,6,11,18],[12,6,12,16],[13,5,13,15,12,17,11,18],[11,6,13,5,16,2,18,3,20,3,21,2],[15,3,17,4,19,4],[14,4,16,5,18,5,20,4,21,2],[18,5,18,20]] },
+  'D': { width: 24, strokes: [[2,2,16,2,18,3,19,5,19,20],[4,3,16,3,18,5,18,19],[2,2,3,3,5,4,16,4,17,5,17,20],[8,7,7,8,6,10,6,11,4,11,3,12,3,14,4,13,6,13,6,18],[7,9,7,16],[4,12,7,12],[8,7,8,15,7,17,6,18],[2,23,5,21,8,20,12,20,15,21],[4,22,7,21,12,21,14,22],[2,23,6,22,11,22,13,23,15,21,17,20,19,20],[11,4,11,20],[11,9,13,10,15,10,17,9],[11,15,13,14,15,14,17,15]] },
+  'E': { width: 22, strokes: [[2,4,4,2,6,2,8,3,10,2],[5,3,7,3],[2,4,4,3,6,4,8,4,10,2],[7,7,6,8,5,10,5,11,3,11,2,12,2,14,3,13,5,13,5,19],[6,9,6,17],[3,12,6,12],[7,7,7,16,6,18,5,19],[10,9,11,6,12,4,13,3,15,2,17,2,20,3],[13,4,15,3,17,3,19,4],[11,6,12,5,14,4,16,4,18,5,20,3],[10,17,11,14,12,12,13,11,15,11,17,12],[13,12,15,12,16,13],[11,14,12,13,14,13,15,14,17,12],[4,23,7,21,11,20,16,20,20,21],[6,22,9,21,16,21,19,22],[4,23,8,22,15,22,18,23,20,21],[10,9,10,20]] },
+  'F': { width: 22, strokes: [[4,4,6,2,9,2,11,3,13,2],[7,3,10,3],[4,4,6,3,8,4,11,4,13,2],[10,7,9,8,8,10,8,11,6,11,5,12,5,14,6,13,8,13,8,18],[9,9,9,16],[6,12,9,12],[10,7,10,15,9,17,8,18],[13,6,13,21,12,22,11,22,7,20,5,20,3,21,1,23],[14,6,14,20],[14,12,18,12],[10,22,9,22,7,21,4,21],[15,5,15,11,18,11],[18,13,15,13,15,19,14,21,10,23,8,23,6,22,4,22,1,23],[13,6,15,5,18,2,20,3,22,3,23,2],[17,3,19,4,21,4],[16,4,18,5,20,5,22,4,23,2],[18,5,18,19]] },
+  'G': { width: 24, strokes: [[9,3,7,4,5,6,4,8,3,11,3,14,4,17,5,19,7,21,9,22,12,23,16,23,19,22,21,20,22,18,22,15,21,13,20,12,18,11,16,11],[5,7,4,10,4,15,5,18],[9,3,7,5,6,7,5,10,5,15,6,18,7,20,9,22],[20,20,21,19,21,15,20,13],[16,23,18,22,19,21,20,19,20,15,19,13,18,12,16,11],[11,6,11,19],[12,6,12,17],[13,5,13,16,12,18,11,19],[11,6,13,5,16,2,18,3,20,3,21,2],[15,3,17,4,19,4],[14,4,16,5,18,5,20,4,21,2],[20,4,16,11,16,23],[16,15,20,15],[16,18,20,18]] },
+  'H': { width: 24, strokes: [[2,4,4,2,7,2,9,3,11,2],[5,3,8,3],[2,4,4,3,6,4,9,4,11,2],[7,7,6,8,5,10,5,11,3,11,2,12,2,14,3,13,5,13,5,19],[6,9,6,17],[3,12,6,12],[7,7,7,16,6,18,5,19],[4,23,7,21,10,20,13,20,15,21],[6,22,9,21,12,21,14,22],[4,23,8,22,11,22,13,23,15,21],[12,5,11,6,10,8,10,17],[11,7,11,15],[12,5,12,14,11,16,10,17],[12,5,14,3,16,2,18,2,20,3],[17,3,18,3,19,4],[14,3,16,3,18,5,20,3],[15,11,17,10,19,8,20,9,21,12,21,16,20,20,18,23],[18,9,19,10,20,12,20,17,19,20],[17,10,18,10,19,12,19,17,18,23],[15,11,15,21],[15,14,19,14],[15,17,19,17]] },
+  'I': { width: 20, strokes: [[3,4,5,2,8,2,11,3,13,2],[6,3,10,3],[3,4,5,3,8,4,11,4,13,2],[10,7,9,8,8,10,8,11,6,11,5,12,5,14,6,13,8,13,8,18],[9,9,9,16],[6,12,9,12],[10,7,10,15,9,17,8,18],[16,4,14,6,13,9,13,20,12,22,10,22,6,20,4,20,2,21,0,23],[14,7,14,19],[9,22,8,22,6,21,3,21],[16,4,15,6,15,18,14,20,12,22,10,23,7,23,5,22,2,22,0,23]] },
+  'J': { width: 20, strokes: [[4,4,6,2,9,2,12,3,14,2],[7,3,11,3],[4,4,6,3,9,4,12,4,14,2],[11,7,10,8,9,10,9,11,7,11,6,12,6,14,7,13,9,13,9,18],[10,9,10,16],[7,12,10,12],[11,7,11,15,10,17,9,18],[17,4,15,6,14,9,14,20,13,22],[15,7,15,19],[17,4,16,6,16,18,15,20,13,22,10,23,7,23,4,22,2,20,2,18,3,17,4,17,5,18,4,19,3,19],[2,18,5,18]] },
+  'K': { width: 24, strokes: [[2,4,4,2,7,2,9,3,11,2],[5,3,8,3],[2,4,4,3,6,4,9,4,11,2],[7,7,6,8,5,10,5,11,3,11,2,12,2,14,3,13,5,13,5,19],[6,9,6,17],[3,12,6,12],[7,7,7,16,6,18,5,19],[4,23,7,21,10,20,13,20,15,21],[6,22,8,21,12,21,14,22],[4,23,8,22,11,22,13,23,15,21],[12,5,11,6,10,8,10,17],[11,7,11,15],[12,5,12,14,11,16,10,17],[12,5,14,3,16,2,18,2,20,3],[17,3,18,3,19,4],[14,3,16,3,18,5,20,3],[15,11,18,8,19,9,21,10],[17,9,19,10,21,10],[21,10,19,13,17,15,15,17],[17,15,19,16,20,20,21,22,22,22],[19,18,20,22],[17,15,18,16,19,22,20,23,21,23,22,22],[15,11,15,21]] },
+  'L': { width: 22, strokes: [[2,4,4,2,7,2,9,3,11,2],[5,3,8,3],[2,4,4,3,6,4,9,4,11,2],[7,7,6,8,5,10,5,11,3,11,2,12,2,14,3,13,5,13,5,19],[6,9,6,17],[3,12,6,12],[7,7,7,16,6,18,5,19],[4,23,7,21,11,20,16,20,20,21],[6,22,9,21,16,21,19,22],[4,23,8,22,15,22,18,23,20,21],[12,5,11,6,10,8,10,17],[11,7,11,15],[12,5,12,14,11,16,10,17],[12,5,14,3,16,2,18,2,20,3],[17,3,18,3,19,4],[14,3,16,3,18,5,20,3],[16,3,16,20]] },
+  'M': { width: 28, strokes: [[8,6,7,7,6,9,6,11,4,11,3,12,3,14,4,13,6,13,6,17],[7,8,7,15],[4,12,7,12],[8,6,8,14,7,16,6,17],[1,23,3,21,5,20,7,20,9,21,10,21,11,20],[4,21,7,21,9,22],[1,23,3,22,6,22,8,23,9,23,10,22,11,20],[8,6,12,2,16,6,16,19,17,21,18,21],[12,3,15,6,15,20,14,21,15,22,16,21,15,20],[12,12,15,12],[10,4,11,4,14,7,14,11,11,11],[11,13,14,13,14,20,13,21,15,23,18,21,19,20],[16,6,20,2,24,6,24,19,25,21,26,21],[20,3,23,6,23,20,25,22],[20,12,23,12],[18,4,19,4,22,7,22,11,19,11],[19,13,22,13,22,21,24,23,26,21],[11,4,11,20],[19,4,19,20]] },
+  'N': { width: 24, strokes: [[2,5,4,3,6,2,8,2,10,3,12,6,17,17,19,20,20,21],[8,3,10,5,11,7,17,19,20,22],[4,3,6,3,8,4,10,7,15,18,17,21,18,22,20,23],[17,4,19,5,21,5,23,4,24,2],[18,3,20,4,22,4],[17,4,19,2,21,3,23,3,24,2],[6,11,4,11,3,12,3,14,4,13,6,13],[4,12,6,12],[2,23,4,21,6,20,9,20,11,21],[5,21,8,21,10,22],[2,23,5,22,8,22,9,23,11,21],[6,3,6,20],[20,5,20,23],[13,8,14,9,16,10,18,10,20,9],[6,16,8,15,12,15,14,16]] },
+  'O': { width: 26, strokes: [[9,2,7,3,5,5,4,7,3,10,3,14,4,17,5,19,7,21,9,22,12,23,14,23,17,22,19,21,21,19,22,17,23,14,23,10,22,7,21,5,19,3,17,2,16,3,13,5,10,6],[5,6,4,9,4,15,5,18],[9,2,7,4,6,6,5,9,5,15,6,18,7,20,9,22],[21,18,22,15,22,9,20,5,19,4],[17,22,19,20,20,18,21,15,21,9,20,7,18,4,16,3],[10,6,10,19],[11,6,11,17],[12,6,12,16,11,18,10,19],[16,3,16,22],[16,9,18,10,19,10,21,9],[16,15,18,14,19,14,21,15]] },
+  'P': { width: 24, strokes: [[3,2,4,3,5,5,5,11,3,11,2,12,2,14,3,13,5,13,5,21,2,23,5,22,5,30,7,28],[5,4,6,6,6,28],[3,12,6,12],[3,2,5,3,6,4,7,6,7,28],[7,7,10,5,14,2,18,6,18,20],[14,3,17,6,17,20],[12,4,13,4,16,7,16,21],[10,20,13,20,16,21],[11,21,13,21,15,22],[10,22,12,22,14,23,16,21,18,20],[10,5,10,27],[10,9,12,10,14,10,16,9],[10,15,12,14,14,14,16,15]] },
+  'Q': { width: 26, strokes: [[9,2,7,3,5,5,4,7,3,10,3,14,4,17,5,19,7,21,9,22,11,23,15,23,17,22,19,21,21,19,22,17,23,14,23,10,22,7,21,5,19,3,17,2,16,3,13,5,10,6],[5,6,4,9,4,15,5,18],[9,2,7,4,6,6,5,9,5,15,6,18,7,20,9,22],[21,18,22,15,22,9,20,5,19,4],[17,22,19,20,20,18,21,15,21,9,20,7,18,4,16,3],[10,6,10,19],[11,6,11,17],[12,6,12,16,11,18,10,19],[16,3,16,22],[16,9,18,10,19,10,21,9],[16,15,18,14,19,14,21,15],[11,23,12,22,13,22,15,23,19,28,21,29,22,29],[15,24,17,27,19,29,20,29],[13,22,14,23,17,29,19,30,21,30,22,29]] },
+  'R': { width: 24, strokes: [[2,4,4,2,7,2,9,3,11,2],[5,3,8,3],[2,4,4,3,6,4,9,4,11,2],[7,7,6,8,5,10,5,11,3,11,2,12,2,14,3,13,5,13,5,19],[6,9,6,17],[3,12,6,12],[7,7,7,16,6,18,5,19],[4,23,7,21,10,20,12,20,15,21],[6,22,8,21,12,21,14,22],[4,23,8,22,11,22,13,23,15,21],[12,5,11,6,10,8,10,17],[11,7,11,15],[12,5,12,14,11,16,10,17],[12,5,15,3,17,2,19,3,20,5,20,8,19,10,18,11,14,13,12,14],[17,3,18,3,19,5,19,9,18,10],[15,3,17,4,18,6,18,9,17,11,14,13],[14,13,16,14,17,15,20,20,21,21,22,21],[17,16,19,20,21,22],[14,13,16,15,18,21,20,23,22,21]] },
+  'S': { width: 24, strokes: [[14,5,13,4,11,3,8,2],[15,4,13,3],[16,3,12,2,8,2,5,3,4,4,3,6,4,8,5,9,8,10,16,10,18,11,19,12,19,14,18,17],[4,7,5,8,8,9,17,9,19,10,20,11,20,13,19,15],[4,4,4,6,5,7,8,8,18,8,20,9,21,11,21,13,18,17,14,23],[2,11,3,12,5,13,14,13,15,14,15,15,14,17],[3,13,5,14,13,14,14,15],[2,11,2,12,3,14,5,15,12,15,14,16,14,17],[2,23,5,21,9,20,12,20,15,21],[4,22,7,21,11,21,14,22],[2,23,6,22,11,22,14,23],[16,3,14,5,12,8],[11,10,9,13],[8,15,6,17,4,18,3,18,3,17,4,18]] },
+  'T': { width: 22, strokes: [[5,6,4,8,3,11,3,15,4,18,6,21,8,22,11,23,14,23,17,22,19,21,21,19,22,17],[4,15,5,18,7,20,9,21,12,22,15,22,18,21],[5,6,4,9,4,13,5,16,7,19,9,20,12,21,15,21,18,20,20,19,22,17],[3,5,4,3,6,2,10,2,16,3,20,3,22,2],[11,3,15,4,19,4],[3,5,4,4,6,3,9,3,15,5,18,5,20,4,22,2],[14,5,13,6,11,7,11,18],[12,7,12,16],[13,6,13,15,12,17,11,18],[18,5,18,20]] },
+  'U': { width: 24, strokes: [[2,4,4,2,6,2,9,3,11,2],[5,3,8,3],[2,4,4,3,7,4,9,4,11,2],[5,6,4,8,3,11,3,15,4,18,5,20,7,22,10,23,13,23,16,22,18,21,20,23,22,21],[4,15,5,18,8,21,11,22,14,22],[5,6,4,10,4,13,5,16,6,18,8,20,11,21,15,21,18,20],[15,5,11,6,10,8,10,18],[11,7,11,16],[12,6,12,15,11,17,10,18],[15,5,17,4,19,2,20,3,22,4,20,5,20,19,21,21,22,21],[19,5,20,4,19,3,18,4,19,5,19,20,21,22],[17,4,18,5,18,20],[15,5,15,21],[15,10,18,10],[15,14,18,14]] },
+  'V': { width: 24, strokes: [[3,2,4,3,5,5,5,11,3,11,2,12,2,14,3,13,5,13,5,20,3,21],[5,4,6,6,6,20],[3,12,6,12],[7,21,10,21,12,22],[3,2,5,3,6,4,7,6,7,20,11,20,14,21],[3,21,6,21,9,22,11,23,14,21,17,20,19,20],[11,6,14,5,16,4,18,2,19,3,21,4,19,5,19,20],[18,5,19,4,18,3,17,4,18,5,18,19],[16,4,17,5,17,20],[11,6,11,20],[11,9,13,10,15,10,17,9],[11,15,13,14,15,14,17,15]] },
+  'W': { width: 28, strokes: [[3,2,4,3,5,5,5,11,3,11,2,12,2,14,3,13,5,13,5,20,3,21],[5,4,6,6,6,20],[3,12,6,12],[7,21,9,21,11,22],[3,2,5,3,6,4,7,6,7,20,10,20,12,21],[3,21,6,21,9,22,10,23,12,21,15,20,17,21,18,23,20,21,23,20],[10,4,13,2,15,4,15,20,18,20,20,21],[13,3,14,4,14,20],[10,4,12,4,13,5,13,20,12,21],[18,21,19,22],[18,4,21,2,23,4,23,20],[21,3,22,4,22,20],[18,4,20,4,21,5,21,20,20,21],[10,4,10,20],[18,4,18,20],[10,10,13,10],[10,14,13,14],[18,10,21,10],[18,14,21,14]] },
+  'X': { width: 22, strokes: [[1,5,3,3,5,2,7,2,8,3,16,21,17,22,19,22],[6,3,7,4,15,21,16,22],[3,3,5,3,6,4,14,22,15,23,17,23,19,22,21,20],[16,2,18,3,20,3,21,2],[16,3,17,4,19,4],[15,4,16,5,18,5,20,4,21,2],[1,23,2,21,4,20,6,20,7,21],[3,21,5,21,6,22],[1,23,2,22,4,22,6,23],[16,2,12,11],[10,14,6,23],[5,12,9,12],[12,12,17,12]] },
+  'Y': { width: 24, strokes: [[3,2,4,3,5,5,5,11,3,11,2,12,2,14,3,13,5,13,5,20,3,21],[5,4,6,6,6,20],[3,12,6,12],[7,21,10,21,12,22],[3,2,5,3,6,4,7,6,7,20,11,20,14,21],[3,21,6,21,9,22,11,23,14,21,17,20],[11,6,14,5,16,4,18,2,19,3,21,4,19,5,19,26,18,28,16,30,14,29,10,28,5,28],[18,5,19,4,18,3,17,4,18,5,18,21],[16,4,17,5,17,20,19,23],[17,29,15,28,12,28],[18,28,15,27,9,27,5,28],[11,6,11,20],[11,9,13,10,15,10,17,9],[11,15,13,14,15,14,17,15]] },
+  'Z': { width: 20, strokes: [[16,3,15,5,10,11,7,15,5,19,2,23],[14,7,6,18],[18,2,15,6,13,10,10,14,5,20,4,22],[2,4,4,2,7,3,13,3,18,2],[3,3,7,4,11,4,15,3],[2,4,6,5,10,5,14,4,16,3],[4,22,6,21,10,20,14,20,18,21],[5,22,9,21,13,21,17,22],[2,23,7,22,13,22,16,23,18,21],[5,12,9,12],[12,12,16,12]] },
+  '[': { width: 14, strokes: [[4,-2,4,30],[5,-2,5,30],[4,-2,11,-2],[4,30,11,30]] },
+  '\\': { width: 14, strokes: [[0,2,14,26]] },
+  ']': { width: 14, strokes: [[9,-2,9,30],[10,-2,10,30],[3,-2,10,-2],[3,30,10,30]] },
+  '^': { width: 22, strokes: [[3,16,11,11,19,16],[3,16,11,12,19,16]] },
+  '_': { width: 22, strokes: [[0,30,22,30]] },
+  '`': { width: 12, strokes: [[4,2,9,8],[4,2,3,3,9,8]] },
+  'a': { width: 18, strokes: [[6,14,4,16,3,18,3,20,4,22,6,23,8,21,11,20],[3,18,4,20,5,21,7,22],[4,16,4,18,5,20,7,21,8,21],[4,12,6,12,9,11,11,10,12,9,14,11,13,12,13,20,14,21,15,21],[5,10,4,11,7,11],[10,11,13,11,12,10,12,21,13,22],[3,11,5,9,6,10,8,11,11,12,11,21,13,23,15,21],[3,11,8,16]] },
+  'b': { width: 18, strokes: [[3,4,4,6,4,20,2,21],[5,6,4,4,5,3,5,20,8,22],[3,4,6,2,6,20,8,21,9,22],[2,21,4,21,6,22,7,23,9,22,12,21,14,21],[6,12,9,11,11,10,12,9,13,10,15,11,16,11,14,12,14,21],[11,10,13,11,13,20],[9,11,10,11,12,12,12,21]] },
+  'c': { width: 12, strokes: [[4,11,4,20,2,21,3,21,5,22,6,23],[5,11,5,21,7,22],[6,11,6,20,8,21,9,21,7,22,6,23],[4,11,8,10,10,9,11,10,13,11,14,11],[9,10,10,11,12,11],[6,11,8,10,10,12,12,12,14,11]] },
+  'd': { width: 16, strokes: [[9,9,7,10,4,11,4,20,2,21],[5,11,5,20,8,22],[9,9,6,11,6,20,8,21,9,22],[2,21,4,21,6,22,7,23,9,22,12,21,14,21],[4,4,7,2,8,5,14,11,14,21],[7,5,5,4,6,3,7,5,13,11,13,20],[4,4,12,12,12,21]] },
+  'e': { width: 12, strokes: [[4,11,4,20,2,21,3,21,5,22,6,23],[5,11,5,21,7,22],[6,11,6,20,8,21,9,21,7,22,6,23],[4,11,8,10,10,9,13,13,11,14,6,17],[9,10,12,13],[6,11,8,10,11,14]] },
+  'f': { width: 10, strokes: [[4,4,4,20,2,21,3,21,5,22,6,23],[5,4,5,21,7,22],[6,4,6,20,8,21,9,21,7,22,6,23],[4,4,7,3,9,2,10,3,12,4,13,4],[8,3,9,4,11,4],[6,4,7,3,9,5,11,5,13,4],[1,9,4,9],[6,9,10,9]] },
+  'g': { width: 18, strokes: [[4,11,4,20,2,21,3,21,5,22,6,23,7,22,9,21,12,20],[5,12,5,21,7,22],[6,11,6,20,8,21,9,21],[4,11,6,11,9,10,11,9,12,10,14,11,16,11,14,12,14,24,13,27,11,29,9,30,8,29,6,28,4,28],[10,10,13,12,13,24],[10,29,8,28,7,28],[9,10,10,11,12,12,12,22,13,25,13,27],[11,29,10,28,8,27,6,27,4,28]] },
+  'h': { width: 18, strokes: [[3,4,4,6,4,20,2,21,3,21,5,22,6,23],[5,6,4,4,5,3,5,21,7,22],[3,4,6,2,6,20,8,21,6,23],[6,12,9,11,11,10,12,9,13,10,15,11,16,11,14,12,14,21,12,23,11,25],[11,10,13,11,13,21,12,23],[9,11,10,11,12,12,12,21,11,25,11,28,12,30,13,30,11,28]] },
+  'i': { width: 10, strokes: [[5,2,3,4,5,5,7,4,5,2],[5,3,4,4,6,4,5,3],[5,9,4,10,2,11,4,12,4,21,6,23,8,21],[5,12,6,11,5,10,4,11,5,12,5,21,6,22],[5,9,6,10,8,11,6,12,6,20,7,21,8,21]] },
+  'j': { width: 10, strokes: [[5,2,3,4,5,5,7,4,5,2],[5,3,4,4,6,4,5,3],[5,9,4,10,2,11,4,12,4,21,6,23,7,25],[5,12,6,11,5,10,4,11,5,12,5,21,6,23],[5,9,6,10,8,11,6,12,6,21,7,25,7,28,5,30,3,30,3,29,5,30]] },
+  'k': { width: 16, strokes: [[3,4,4,6,4,20,2,21,3,21,5,22,6,23],[5,6,4,4,5,3,5,21,7,22],[3,4,6,2,6,20,8,21,6,23],[6,12,9,10,11,9,13,12,10,14,6,17],[10,10,12,12],[9,10,11,13],[10,14,11,15,13,20,14,21,15,21],[10,15,11,16,12,21,13,22],[9,15,10,16,11,21,13,23,15,21]] },
+  'l': { width: 10, strokes: [[3,4,4,6,4,20,2,21,3,21,5,22,6,23],[5,6,4,4,5,3,5,21,7,22],[3,4,6,2,6,20,8,21,9,21,7,22,6,23]] },
+  'm': { width: 26, strokes: [[2,11,3,11,4,12,4,20,2,21,3,21,5,22,6,23],[4,10,5,11,5,21,7,22],[2,11,4,9,6,11,6,20,8,21,6,23],[6,12,9,11,11,10,12,9,14,11,14,20,16,21,14,23],[11,10,13,11,13,21,15,22],[9,11,10,11,12,12,12,20,11,21,13,22,14,23],[14,12,17,11,19,10,20,9,21,10,23,11,24,11,22,12,22,20,23,21,24,21],[19,10,21,11,21,21,22,22],[17,11,18,11,20,12,20,21,22,23,24,21]] },
+  'n': { width: 18, strokes: [[2,11,3,11,4,12,4,20,2,21,3,21,5,22,6,23],[4,10,5,11,5,21,7,22],[2,11,4,9,6,11,6,20,8,21,6,23],[6,12,9,11,11,10,12,9,13,10,15,11,16,11,14,12,14,20,15,21,16,21],[11,10,13,11,13,21,14,22],[9,11,10,11,12,12,12,21,14,23,16,21]] },
+  'o': { width: 18, strokes: [[4,11,4,20,2,21],[5,12,5,20,8,22],[6,11,6,20,8,21,9,22],[2,21,4,21,6,22,7,23,9,22,12,21,14,21],[4,11,6,11,9,10,11,9,12,10,14,11,16,11,14,12,14,21],[10,10,13,12,13,20],[9,10,10,11,12,12,12,21]] },
+  'p': { width: 18, strokes: [[3,9,4,11,4,20,2,21,4,21,4,30],[4,10,5,11,5,29,6,28,5,26],[5,21,6,21,8,22],[3,9,5,10,6,11,6,20,8,21,9,22],[6,22,7,23,9,22,12,21,14,21],[6,22,6,26,7,28,4,30],[6,12,9,11,11,10,12,9,13,10,15,11,16,11,14,12,14,21],[11,10,13,11,13,20],[9,11,10,11,12,12,12,21]] },
+  'q': { width: 18, strokes: [[4,11,4,20,2,21],[5,12,5,21,7,22],[6,11,6,20,8,21,9,21],[2,21,3,21,5,22,6,23,7,22,9,21,12,20],[4,11,6,11,9,10,11,9,12,10,14,11,16,11,14,12,14,30],[10,10,13,12,13,29,12,28,13,26],[9,10,10,11,12,12,12,26,11,28,14,30]] },
+  'r': { width: 12, strokes: [[2,11,3,11,4,12,4,20,2,21,3,21,5,22,6,23],[3,10,5,11,5,21,7,22],[2,11,4,9,6,11,6,20,8,21,9,21,7,22,6,23],[6,11,10,9,11,10,13,11,14,11],[9,10,10,11,12,11],[8,10,10,12,12,12,14,11]] },
+  's': { width: 16, strokes: [[3,11,3,15,5,16,11,16,13,17,13,21],[4,11,4,15],[12,17,12,21],[6,10,5,11,5,15,7,16],[9,16,11,17,11,21,10,22],[3,11,6,10,8,9,10,10,12,10,13,9],[7,10,9,10],[6,10,8,11,10,11,12,10],[13,21,10,22,8,23,6,22,4,22,2,23],[9,22,7,22],[10,22,8,21,5,21,2,23],[13,9,12,11,10,14,5,19,2,23]] },
+  't': { width: 10, strokes: [[3,4,4,6,4,20,2,21,3,21,5,22,6,23],[5,6,4,4,5,3,5,21,7,22],[3,4,6,2,6,20,8,21,9,21,7,22,6,23],[1,9,4,9],[6,9,9,9]] },
+  'u': { width: 18, strokes: [[2,11,3,11,4,12,4,20,2,21],[3,10,5,11,5,21,7,22],[2,11,4,9,6,11,6,20,8,21,9,21],[2,21,3,21,5,22,6,23,7,22,9,21,12,20],[12,9,13,10,15,11,16,11,14,12,14,20,15,21,16,21],[11,10,13,11,13,21,14,22],[12,9,10,11,12,12,12,21,14,23,16,21]] },
+  'v': { width: 18, strokes: [[3,9,4,11,4,20,7,23,9,21,12,20,14,20],[4,10,5,11,5,20,8,22],[3,9,5,10,6,11,6,19,7,20,9,21],[12,9,13,10,15,11,16,11,14,12,14,20],[11,10,13,11,13,19],[12,9,10,11,12,12,12,20]] },
+  'w': { width: 26, strokes: [[3,9,4,11,4,20,7,23,9,21,12,20],[4,10,5,11,5,20,8,22],[3,9,5,10,6,11,6,19,7,20,9,21],[12,9,10,11,12,12,12,20,15,23,17,21,20,20,22,20],[11,10,13,11,13,20,16,22],[12,9,13,10,15,11,14,12,14,19,15,20,17,21],[20,9,21,10,23,11,24,11,22,12,22,20],[19,10,21,11,21,19],[20,9,18,11,20,12,20,20]] },
+  'x': { width: 18, strokes: [[3,11,4,11,6,12,7,13,11,21,12,22,14,23,16,21],[5,10,7,11,12,21,14,22],[3,11,5,9,7,10,8,11,12,19,13,20,15,21,16,21],[10,15,13,9,14,10,16,10,17,9],[13,10,14,11,15,11],[12,11,14,12,16,11,17,9],[9,17,6,23,5,22,3,22,2,23],[6,22,5,21,4,21],[7,21,5,20,3,21,2,23],[5,16,8,16],[11,16,14,16]] },
+  'y': { width: 18, strokes: [[2,11,3,11,4,12,4,20,2,21],[3,10,5,11,5,21,7,22],[2,11,4,9,6,11,6,20,8,21,9,21],[2,21,3,21,5,22,6,23,7,22,9,21,12,20],[12,9,13,10,15,11,16,11,14,12,14,24,13,27,11,29,9,30,8,29,6,28,4,28],[11,10,13,11,13,24],[10,29,8,28,7,28],[12,9,10,11,12,12,12,22,13,25,13,27],[11,29,10,28,8,27,6,27,4,28]] },
+  'z': { width: 18, strokes: [[15,9,3,23],[3,11,5,12,8,12,11,11,15,9],[4,10,6,11,10,11],[3,11,5,9,7,10,11,10,15,9],[3,23,7,21,10,20,13,20,15,21],[8,21,12,21,14,22],[3,23,7,22,11,22,13,23,15,21],[5,16,13,16]] },
+  '{': { width: 14, strokes: [[9,-2,7,-1,6,0,5,2,5,4,6,6,7,7,8,9,8,11,6,13],[7,-1,6,1,6,3,7,5,8,6,9,8,9,10,8,12,4,14,8,16,9,18,9,20,8,22,7,23,6,25,6,27,7,29],[6,15,8,17,8,19,7,21,6,22,5,24,5,26,6,28,7,29,9,30]] },
+  '|': { width: 8, strokes: [[4,-2,4,30]] },
+  '}': { width: 14, strokes: [[5,-2,7,-1,8,0,9,2,9,4,8,6,7,7,6,9,6,11,8,13],[7,-1,8,1,8,3,7,5,6,6,5,8,5,10,6,12,10,14,6,16,5,18,5,20,6,22,7,23,8,25,8,27,7,29],[8,15,6,17,6,19,7,21,8,22,9,24,9,26,8,28,7,29,5,30]] },
+  '~': { width: 24, strokes: [[3,17,3,15,4,12,6,11,8,11,10,12,14,15,16,16,18,16,20,15,21,13],[3,15,4,13,6,12,8,12,10,13,14,16,16,17,18,17,20,16,21,13,21,11]] },
+};
+
+// Hershey Greek face, same grid as HERSHEY_FONT
+const HERSHEY_GREEK: { [char: string]: HersheyGlyph } = {
+  ' ': { width: 16, strokes: [] },
+  '!': { width: 10, strokes: [[5,2,5,16],[5,21,4,22,5,23,6,22,5,21]] },
+  '"': { width: 16, strokes: [[4,2,4,9],[12,2,12,9]] },
+  '#': { width: 22, strokes: [[11,-2,4,30],[17,-2,10,30],[4,11,18,11],[3,17,17,17]] },
+  '$': { width: 20, strokes: [[8,-2,8,27],[12,-2,12,27],[17,5,15,3,12,2,8,2,5,3,3,5,3,7,4,9,5,10,7,11,13,13,15,14,16,15,17,17,17,20,15,22,12,23,8,23,5,22,3,20]] },
+  '%': { width: 24, strokes: [[21,2,3,23],[8,2,10,4,10,6,9,8,7,9,5,9,3,7,3,5,4,3,6,2,8,2,10,3,13,4,16,4,19,3,21,2],[17,16,15,17,14,19,14,21,16,23,18,23,20,22,21,20,21,18,19,16,17,16]] },
+  '&': { width: 26, strokes: [[23,11,23,10,22,9,21,9,20,10,19,12,17,17,15,20,13,22,11,23,7,23,5,22,4,21,3,19,3,17,4,15,5,14,12,10,13,9,14,7,14,5,13,3,11,2,9,3,8,5,8,7,9,10,11,13,16,20,18,22,20,23,22,23,23,22,23,21]] },
+  '\'': { width: 10, strokes: [[5,4,4,3,5,2,6,3,6,5,5,7,4,8]] },
+  '(': { width: 14, strokes: [[11,-2,9,0,7,3,5,7,4,12,4,16,5,21,7,25,9,28,11,30]] },
+  ')': { width: 14, strokes: [[3,-2,5,0,7,3,9,7,10,12,10,16,9,21,7,25,5,28,3,30]] },
+  '*': { width: 16, strokes: [[8,8,8,20],[3,11,13,17],[13,11,3,17]] },
+  '+': { width: 26, strokes: [[13,5,13,23],[4,14,22,14]] },
+  ',': { width: 8, strokes: [[5,19,4,20,3,19,4,18,5,19,5,21,3,23]] },
+  '-': { width: 26, strokes: [[4,14,22,14]] },
+  '.': { width: 8, strokes: [[4,18,3,19,4,20,5,19,4,18]] },
+  '/': { width: 22, strokes: [[20,-2,2,30]] },
+  '0': { width: 20, strokes: [[9,2,6,3,4,6,3,11,3,14,4,19,6,22,9,23,11,23,14,22,16,19,17,14,17,11,16,6,14,3,11,2,9,2]] },
+  '1': { width: 20, strokes: [[6,6,8,5,11,2,11,23]] },
+  '2': { width: 20, strokes: [[4,7,4,6,5,4,6,3,8,2,12,2,14,3,15,4,16,6,16,8,15,10,13,13,3,23,17,23]] },
+  '3': { width: 20, strokes: [[5,2,16,2,10,10,13,10,15,11,16,12,17,15,17,17,16,20,14,22,11,23,8,23,5,22,4,21,3,19]] },
+  '4': { width: 20, strokes: [[13,2,3,16,18,16],[13,2,13,23]] },
+  '5': { width: 20, strokes: [[15,2,5,2,4,11,5,10,8,9,11,9,14,10,16,12,17,15,17,17,16,20,14,22,11,23,8,23,5,22,4,21,3,19]] },
+  '6': { width: 20, strokes: [[16,5,15,3,12,2,10,2,7,3,5,6,4,11,4,16,5,20,7,22,10,23,11,23,14,22,16,20,17,17,17,16,16,13,14,11,11,10,10,10,7,11,5,13,4,16]] },
+  '7': { width: 20, strokes: [[17,2,7,23],[3,2,17,2]] },
+  '8': { width: 20, strokes: [[8,2,5,3,4,5,4,7,5,9,7,10,11,11,14,12,16,14,17,16,17,19,16,21,15,22,12,23,8,23,5,22,4,21,3,19,3,16,4,14,6,12,9,11,13,10,15,9,16,7,16,5,15,3,12,2,8,2]] },
+  '9': { width: 20, strokes: [[16,9,15,12,13,14,10,15,9,15,6,14,4,12,3,9,3,8,4,5,6,3,9,2,10,2,13,3,15,5,16,9,16,14,15,19,13,22,10,23,8,23,5,22,4,20]] },
+  ':': { width: 8, strokes: [[4,11,3,12,4,13,5,12,4,11],[4,18,3,19,4,20,5,19,4,18]] },
+  ';': { width: 8, strokes: [[4,11,3,12,4,13,5,12,4,11],[5,19,4,20,3,19,4,18,5,19,5,21,3,23]] },
+  '<': { width: 24, strokes: [[20,5,4,14,20,23]] },
+  '=': { width: 26, strokes: [[4,11,22,11],[4,17,22,17]] },
+  '>': { width: 24, strokes: [[4,5,20,14,4,23]] },
+  '?': { width: 18, strokes: [[3,7,3,6,4,4,5,3,7,2,11,2,13,3,14,4,15,6,15,8,14,10,13,11,9,13,9,16],[9,21,8,22,9,23,10,22,9,21]] },
+  '@': { width: 28, strokes: [[18,10,17,8,15,7,12,7,10,8,9,9,8,12,8,15,9,17,11,18,14,18,16,17,17,15],[12,7,10,9,9,12,9,15,10,17,11,18],[18,7,17,15,17,17,19,18,21,18,23,16,24,13,24,11,23,8,22,6,20,4,18,3,15,2,12,2,9,3,7,4,5,6,4,8,3,11,3,14,4,17,5,19,7,21,9,22,12,23,15,23,18,22,20,21,21,20],[19,7,18,15,18,17,19,18]] },
+  'A': { width: 18, strokes: [[9,2,1,23],[9,2,17,23],[4,16,14,16]] },
+  'B': { width: 20, strokes: [[4,2,4,23],[4,2,13,2,16,3,17,4,18,6,18,8,17,10,16,11,13,12],[4,12,13,12,16,13,17,14,18,16,18,19,17,21,16,22,13,23,4,23]] },
+  'C': { width: 20, strokes: [[3,2,17,23],[3,23,17,2]] },
+  'D': { width: 18, strokes: [[9,2,1,23],[9,2,17,23],[1,23,17,23]] },
+  'E': { width: 18, strokes: [[4,2,4,23],[4,2,17,2],[4,12,12,12],[4,23,17,23]] },
+  'F': { width: 20, strokes: [[10,2,10,23],[8,7,5,8,4,9,3,11,3,14,4,16,5,17,8,18,12,18,15,17,16,16,17,14,17,11,16,9,15,8,12,7,8,7]] },
+  'G': { width: 14, strokes: [[4,2,4,23],[4,2,16,2]] },
+  'H': { width: 22, strokes: [[4,2,4,23],[18,2,18,23],[4,12,18,12]] },
+  'I': { width: 8, strokes: [[4,2,4,23]] },
+  'K': { width: 20, strokes: [[4,2,4,23],[18,2,4,16],[9,11,18,23]] },
+  'L': { width: 18, strokes: [[9,2,1,23],[9,2,17,23]] },
+  'M': { width: 24, strokes: [[4,2,4,23],[4,2,12,23],[20,2,12,23],[20,2,20,23]] },
+  'N': { width: 22, strokes: [[4,2,4,23],[4,2,18,23],[18,2,18,23]] },
+  'O': { width: 22, strokes: [[9,2,7,3,5,5,4,7,3,10,3,15,4,18,5,20,7,22,9,23,13,23,15,22,17,20,18,18,19,15,19,10,18,7,17,5,15,3,13,2,9,2]] },
+  'P': { width: 22, strokes: [[4,2,4,23],[18,2,18,23],[4,2,18,2]] },
+  'Q': { width: 22, strokes: [[9,2,7,3,5,5,4,7,3,10,3,15,4,18,5,20,7,22,9,23,13,23,15,22,17,20,18,18,19,15,19,10,18,7,17,5,15,3,13,2,9,2],[8,12,14,12]] },
+  'R': { width: 20, strokes: [[4,2,4,23],[4,2,13,2,16,3,17,4,18,6,18,9,17,11,16,12,13,13,4,13]] },
+  'S': { width: 18, strokes: [[2,2,9,12,2,23],[2,2,16,2],[2,23,16,23]] },
+  'T': { width: 16, strokes: [[8,2,8,23],[1,2,15,2]] },
+  'U': { width: 18, strokes: [[2,7,2,5,3,3,4,2,6,2,7,3,8,5,9,9,9,23],[16,7,16,5,15,3,14,2,12,2,11,3,10,5,9,9]] },
+  'W': { width: 20, strokes: [[3,23,7,23,4,16,3,12,3,8,4,5,6,3,9,2,11,2,14,3,16,5,17,8,17,12,16,16,13,23,17,23]] },
+  'X': { width: 18, strokes: [[2,2,16,2],[6,12,12,12],[2,23,16,23]] },
+  'Y': { width: 22, strokes: [[11,2,11,23],[2,8,3,8,4,9,5,13,6,15,7,16,10,17,12,17,15,16,16,15,17,13,18,9,19,8,20,8]] },
+  'Z': { width: 20, strokes: [[17,2,3,23],[3,2,17,2],[3,23,17,23]] },
+  '[': { width: 14, strokes: [[4,-2,4,30],[5,-2,5,30],[4,-2,11,-2],[4,30,11,30]] },
+  '\\': { width: 14, strokes: [[0,2,14,26]] },
+  ']': { width: 14, strokes: [[9,-2,9,30],[10,-2,10,30],[3,-2,10,-2],[3,30,10,30]] },
+  '^': { width: 16, strokes: [[8,0,0,14],[8,0,16,14]] },
+  '_': { width: 18, strokes: [[0,30,18,30]] },
+  '`': { width: 8, strokes: [[5,7,3,9,3,11,4,12,5,11,4,10,3,11]] },
+  'a': { width: 22, strokes: [[9,9,7,10,5,12,4,14,3,17,3,20,4,22,6,23,8,23,10,22,13,19,15,16,17,12,18,9],[9,9,11,9,12,10,13,12,15,20,16,22,17,23,18,23]] },
+  'b': { width: 20, strokes: [[12,2,10,3,8,5,6,9,5,12,4,16,3,22,2,30],[12,2,14,2,16,4,16,7,15,9,14,10,12,11,9,11],[9,11,11,12,13,14,14,16,14,19,13,21,12,22,10,23,8,23,6,22,5,21,4,18]] },
+  'c': { width: 18, strokes: [[2,9,4,9,6,11,12,28,14,30,16,30],[17,9,16,11,14,14,4,25,2,28,1,30]] },
+  'd': { width: 18, strokes: [[11,9,8,9,6,10,4,12,3,15,3,18,4,21,5,22,7,23,9,23,11,22,13,20,14,17,14,14,13,11,11,9,9,7,8,5,8,3,9,2,11,2,13,3,15,5]] },
+  'e': { width: 16, strokes: [[13,11,12,10,10,9,7,9,5,10,5,12,6,14,9,15],[9,15,5,16,3,18,3,20,4,22,6,23,9,23,11,22,13,20]] },
+  'f': { width: 22, strokes: [[8,10,6,11,4,13,3,16,3,19,4,21,5,22,7,23,10,23,13,22,16,20,18,17,19,14,19,11,17,9,15,9,13,11,11,15,9,20,6,30]] },
+  'g': { width: 20, strokes: [[1,12,3,10,5,9,6,9,8,10,9,11,10,14,10,18,9,23],[17,9,16,12,15,14,9,23,7,27,6,30]] },
+  'h': { width: 20, strokes: [[1,13,2,11,4,9,6,9,7,10,7,12,6,16,4,23],[6,16,8,12,10,10,12,9,14,9,16,11,16,14,15,19,12,30]] },
+  'i': { width: 10, strokes: [[6,9,4,16,3,20,3,22,4,23,6,23,8,21,9,19]] },
+  'k': { width: 18, strokes: [[6,9,2,23],[16,10,15,9,14,9,12,10,8,14,6,15,5,15],[5,15,7,16,8,17,10,22,11,23,12,23,13,22]] },
+  'l': { width: 16, strokes: [[1,2,3,2,5,3,6,4,14,23],[8,9,2,23]] },
+  'm': { width: 22, strokes: [[7,9,1,30],[6,13,5,18,5,21,7,23,9,23,11,22,13,20,15,16],[17,9,15,16,14,20,14,22,15,23,17,23,19,21,20,19]] },
+  'n': { width: 18, strokes: [[3,9,6,9,5,15,4,20,3,23],[16,9,15,12,14,14,12,17,9,20,6,22,3,23]] },
+  'o': { width: 18, strokes: [[8,9,6,10,4,12,3,15,3,18,4,21,5,22,7,23,9,23,11,22,13,20,14,17,14,14,13,11,12,10,10,9,8,9]] },
+  'p': { width: 22, strokes: [[9,9,5,23],[14,9,15,15,16,20,17,23],[2,12,4,10,7,9,20,9]] },
+  'q': { width: 20, strokes: [[1,13,2,11,4,9,6,9,7,10,7,12,6,17,6,20,7,22,8,23,10,23,12,22,14,19,15,17,16,14,17,9,17,6,16,3,14,2,12,2,11,4,11,6,12,9,14,12,16,14,19,16]] },
+  'r': { width: 18, strokes: [[4,15,4,18,5,21,6,22,8,23,10,23,12,22,14,20,15,17,15,14,14,11,13,10,11,9,9,9,7,10,5,12,4,15,0,30]] },
+  's': { width: 22, strokes: [[18,9,8,9,6,10,4,12,3,15,3,18,4,21,5,22,7,23,9,23,11,22,13,20,14,17,14,14,13,11,12,10,10,9]] },
+  't': { width: 20, strokes: [[11,9,8,23],[2,12,4,10,7,9,18,9]] },
+  'u': { width: 20, strokes: [[1,13,2,11,4,9,6,9,7,10,7,12,5,18,5,21,7,23,9,23,12,22,14,20,16,16,17,12,17,9]] },
+  'w': { width: 22, strokes: [[8,9,6,10,4,13,3,16,3,19,4,22,5,23,7,23,9,22,11,19],[12,15,11,19,12,22,13,23,15,23,17,22,19,19,20,16,20,13,19,10,18,9]] },
+  'x': { width: 16, strokes: [[10,2,8,3,7,4,7,5,8,6,11,7,14,7],[11,7,8,8,6,9,5,11,5,13,7,15,10,16,12,16],[10,16,6,17,4,18,3,20,3,22,5,24,9,26,10,27,10,29,8,30,6,30]] },
+  'y': { width: 22, strokes: [[16,2,8,30],[1,13,2,11,4,9,6,9,7,10,7,12,6,17,6,20,7,22,9,23,11,23,14,22,16,20,18,17,20,12,21,9]] },
+  'z': { width: 14, strokes: [[10,2,8,3,7,4,7,5,8,6,11,7,14,7],[14,7,10,9,7,11,4,14,3,17,3,19,4,21,6,23,9,25,10,27,10,29,9,30,7,30,6,28]] },
+  '{': { width: 14, strokes: [[9,-2,7,-1,6,0,5,2,5,4,6,6,7,7,8,9,8,11,6,13],[7,-1,6,1,6,3,7,5,8,6,9,8,9,10,8,12,4,14,8,16,9,18,9,20,8,22,7,23,6,25,6,27,7,29],[6,15,8,17,8,19,7,21,6,22,5,24,5,26,6,28,7,29,9,30]] },
+  '|': { width: 8, strokes: [[4,-2,4,30]] },
+  '}': { width: 14, strokes: [[5,-2,7,-1,8,0,9,2,9,4,8,6,7,7,6,9,6,11,8,13],[7,-1,8,1,8,3,7,5,6,6,5,8,5,10,6,12,10,14,6,16,5,18,5,20,6,22,7,23,8,25,8,27,7,29],[8,15,6,17,6,19,7,21,8,22,9,24,9,26,8,28,7,29,5,30]] },
+  '~': { width: 24, strokes: [[3,17,3,15,4,12,6,11,8,11,10,12,14,15,16,16,18,16,20,15,21,13],[3,15,4,13,6,12,8,12,10,13,14,16,16,17,18,17,20,16,21,13,21,11]] },
+};
+
+// Hershey faces available for text, keyed by the names used in font mappings
+const HERSHEY_FACES: { [face: string]: { [char: string]: HersheyGlyph } } = {
+  simplex: HERSHEY_FONT,
+  duplex: HERSHEY_DUPLEX,
+  complex: HERSHEY_COMPLEX,
+  triplex: HERSHEY_TRIPLEX,
+  italic: HERSHEY_COMPLEX_ITALIC,
+  script: HERSHEY_SCRIPT,
+  gothic: HERSHEY_GOTHIC,
+  greek: HERSHEY_GREEK,
+};
+
+// The Hershey Greek face stores its letters under Latin keys:
+// GREEK_LETTERS[i] is drawn with HERSHEY_GREEK[GREEK_KEYS[i]]
+const GREEK_LETTERS = 'ΑΒΓΔΕΖΗΘΙΚΛΜΝΞΟΠΡΣΤΥΦΧΨΩαβγδεζηθικλμνξοπρςστυφχψω';
+const GREEK_KEYS = 'ABGDEZHQIKLMNXOPRSTUFCYWabgdezhqiklmnxoprsstufcyw';
+
+// Accented letters, drawn as a base letter plus a diacritic mark
+// Each string lists pairs of accented letter and base letter
+const ACCENTED_LETTERS: { [diacritic: string]: string } = {
+  grave: 'ÀAÈEÌIÒOÙUàaèeìiòoùu',
+  acute: 'ÁAÉEÍIÓOÚUÝYáaéeíióoúuýyΆΑΈΕΉΗΊΙΌΟΎΥΏΩάαέεήηίιόούυώω',
+  circumflex: 'ÂAÊEÎIÔOÛUâaêeîiôoûu',
+  tilde: 'ÃAÑNÕOãañnõo',
+  diaeresis: 'ÄAËEÏIÖOÜUäaëeïiöoüuÿyΪΙΫΥϊιϋυ',
+  ring: 'ÅAåa',
+  cedilla: 'ÇCçc',
+  slash: 'ØOøo',
+  macron: 'ĀAĒEĪIŌOŪUāaēeīiōoūu',
+  dialytikaTonos: 'ΐιΰυ',
+};
+
+// Spacing diacritics, drawn as the mark alone
+const SPACING_DIACRITICS: { [char: string]: string } = {
+  '¨': 'diaeresis',
+  '´': 'acute',
+  '¸': 'cedilla',
+  '¯': 'macron',
+};
+
+// Characters drawn with one or more existing glyphs
+const CHARACTER_ALIASES: { [char: string]: string } = {
+  '\t': '    ',
+  '\u00A0': ' ',
+  '\u00AD': '', // Soft hyphen, only shown at a line break
+  '‘': '\'',
+  '’': '\'',
+  '‚': ',',
+  '“': '"',
+  '”': '"',
+  '′': '\'',
+  '″': '"',
+  '–': '-',
+  '—': '-',
+  '…': '...',
+  'ß': 'β',
+  'µ': 'μ',
+};
+
+// Symbols drawn the same in every face, in simplex proportions
+const HERSHEY_SYMBOLS: { [char: string]: HersheyGlyph } = {
+  '¢': { width: 20, strokes: [[11,4,11,27],[17,11,15,9,13,8,10,8,7,9,5,11,4,14,4,17,5,20,7,22,10,23,13,23,15,22,17,20]] },
+  '£': { width: 20, strokes: [[15,5,14,3,12,2,10,2,8,3,7,5,7,19,6,21,4,23,16,23],[3,12,12,12]] },
+  '¤': { width: 20, strokes: [[10,10,7,11,6,14,7,17,10,18,13,17,14,14,13,11,10,10],[4,8,7,11],[16,8,13,11],[4,20,7,17],[16,20,13,17]] },
+  '¥': { width: 20, strokes: [[3,2,10,12,17,2],[10,12,10,23],[5,14,15,14],[5,18,15,18]] },
+  '¦': { width: 8, strokes: [[4,-2,4,11],[4,17,4,30]] },
+  '§': { width: 18, strokes: [[12,4,10,2,7,2,5,3,5,6,7,8,12,10,14,12,14,15,12,17],[6,8,4,10,4,13,6,15,11,17,13,19,13,22,11,23,8,23,6,21]] },
+  '«': { width: 16, strokes: [[8,9,3,14,8,19],[13,9,8,14,13,19]] },
+  '»': { width: 16, strokes: [[3,9,8,14,3,19],[8,9,13,14,8,19]] },
+  '¬': { width: 22, strokes: [[3,12,19,12,19,17]] },
+  '°': { width: 14, strokes: [[7,2,5,3,4,5,5,7,7,8,9,7,10,5,9,3,7,2]] },
+  '±': { width: 26, strokes: [[13,5,13,19],[4,12,22,12],[4,22,22,22]] },
+  '¶': { width: 20, strokes: [[9,2,9,23],[14,2,14,23],[17,2,8,2,5,3,4,4,3,6,3,8,4,10,5,11,8,12,9,12]] },
+  '·': { width: 10, strokes: [[5,12,4,13,5,14,6,13,5,12]] },
+  '×': { width: 22, strokes: [[5,7,17,19],[17,7,5,19]] },
+  '÷': { width: 26, strokes: [[4,13,22,13],[13,6,12,7,13,8,14,7,13,6],[13,18,12,19,13,20,14,19,13,18]] },
+  'Þ': { width: 21, strokes: [[4,2,4,23],[4,7,13,7,16,8,17,9,18,11,18,14,17,16,16,17,13,18,4,18]] },
+  'þ': { width: 19, strokes: [[4,2,4,30],[4,11,6,9,8,8,11,8,14,9,16,11,17,14,17,17,16,20,14,22,11,23,8,23,6,22,4,20]] },
+  'ð': { width: 19, strokes: [[11,8,8,8,6,9,4,11,3,14,3,17,4,20,6,22,8,23,11,23,13,22,15,20,16,17,16,13,15,9,13,6,10,3,7,2],[6,7,14,3]] },
+};
+
+// Scale applied to superscripts and the figures of fractions
+const SMALL_FIGURE_SCALE = 0.6;
+
 // Get stroke color from a node
+// Gradients give the average of their stops, marked approximate so they snap to a pen
 function getNodeStrokeColor(node: SceneNode): StrokeColor | undefined {
   if ('strokes' in node && node.strokes && node.strokes.length > 0) {
     const stroke = node.strokes[0];
@@ -158,10 +1148,64 @@ function getNodeStrokeColor(node: SceneNode): StrokeColor | undefined {
         a: stroke.opacity !== undefined ? stroke.opacity : 1
       };
     }
+    if ('gradientStops' in stroke && stroke.gradientStops.length > 0) {
+      const stops = stroke.gradientStops;
+      const average = (channel: 'r' | 'g' | 'b' | 'a') =>
+        stops.reduce((sum, stop) => sum + stop.color[channel], 0) / stops.length;
+      return {
+        r: average('r'),
+        g: average('g'),
+        b: average('b'),
+        a: average('a') * (stroke.opacity !== undefined ? stroke.opacity : 1),
+        approximate: true
+      };
+    }
+  }
+  return undefined;
+}
+
+// Get fill color from a node (first visible solid fill)
+function getNodeFillColor(node: SceneNode): StrokeColor | undefined {
+  if ('fills' in node && node.fills !== figma.mixed && node.fills.length > 0) {
+    for (const fill of node.fills) {
+      if (fill.type === 'SOLID' && fill.visible !== false) {
+        return {
+          r: fill.color.r,
+          g: fill.color.g,
+          b: fill.color.b,
+          a: fill.opacity !== undefined ? fill.opacity : 1
+        };
+      }
+    }
   }
   return undefined;
 }
 
+// Effective opacity of a node, including the opacity of its ancestors
+function getNodeOpacity(node: SceneNode): number {
+  let opacity = 1;
+  let current: BaseNode | null = node;
+  while (current && 'opacity' in current) {
+    opacity *= (current as SceneNode & MinimalBlendMixin).opacity;
+    current = current.parent;
+  }
+  return opacity;
+}
+
+// Split a paint color into a saturated ink color and its coverage on white paper
+// e.g. 30% grey = black ink at 0.7 coverage, pink = red ink at partial coverage
+function colorToInk(color: StrokeColor): { ink: StrokeColor; coverage: number } {
+  const darkness = 1 - Math.min(color.r, color.g, color.b);
+  if (darkness <= 0) {
+    return { ink: { r: 1, g: 1, b: 1, a: 1 }, coverage: 0 };
+  }
+  const toInk = (c: number) => 1 - (1 - c) / darkness;
+  return {
+    ink: { r: toInk(color.r), g: toInk(color.g), b: toInk(color.b), a: 1 },
+    coverage: darkness * color.a
+  };
+}
+
 // Convert StrokeColor to hex string for grouping
 function colorToHex(color: StrokeColor): string {
   const toHex = (n: number) => {
@@ -186,33 +1230,329 @@ function groupPathsByColor(paths: Path[]): Map<string, Path[]> {
   return groups;
 }
 
+// Parse a color key back into RGB; 'DEFAULT' (no stroke color) counts as black
+function hexToColor(key: string): StrokeColor {
+  const value = /^#[0-9A-F]{6}$/i.test(key) ? parseInt(key.slice(1), 16) : 0;
+  return { r: (value >> 16 & 255) / 255, g: (value >> 8 & 255) / 255, b: (value & 255) / 255, a: 1 };
+}
+
+// Perceptually weighted RGB distance ("redmean" approximation)
+function colorDistance(a: StrokeColor, b: StrokeColor): number {
+  const meanR = (a.r + b.r) / 2;
+  const dr = a.r - b.r;
+  const dg = a.g - b.g;
+  const db = a.b - b.b;
+  return Math.sqrt((2 + meanR) * dr * dr + 4 * dg * dg + (3 - meanR) * db * db);
+}
+
+// Tip offset of a pen number (zero for pens without one)
+function penOffset(offsets: { [pen: string]: Point }, pen: number): Point {
+  const offset = offsets && offsets[pen];
+  return { x: (offset && offset.x) || 0, y: (offset && offset.y) || 0 };
+}
+
+// Assign paths to pens using the pen table
+// Colors missing from the table, gradients and paths without a color snap to the nearest
+// color in the table. Without a table every color gets its own pen, in the order found.
+function groupPathsByPen(paths: Path[], pens: PenAssignment[]): { groups: PenGroup[]; skipped: number } {
+  const colorGroups = groupPathsByColor(paths);
+  if (!pens || pens.length === 0) {
+    const groups: PenGroup[] = [];
+    colorGroups.forEach((groupPaths, color) => {
+      groups.push({ pen: groups.length + 1, colors: [color], paths: groupPaths });
+    });
+    return { groups, skipped: 0 };
+  }
+
+  const nearestPen = (color: StrokeColor): PenAssignment => {
+    let best = pens[0];
+    let bestDistance = Infinity;
+    for (const entry of pens) {
+      const d = colorDistance(color, hexToColor(entry.color));
+      if (d < bestDistance) {
+        best = entry;
+        bestDistance = d;
+      }
+    }
+    return best;
+  };
+
+  // Groups follow the table order of each pen's first row
+  const groups: PenGroup[] = [];
+  const groupForPen = (pen: number): PenGroup => {
+    let group = groups.find(g => g.pen === pen);
+    if (!group) {
+      group = { pen, colors: [], paths: [] };
+      groups.push(group);
+    }
+    return group;
+  };
+  for (const entry of pens) {
+    if (!entry.skip) groupForPen(entry.pen).colors.push(entry.color);
+  }
+
+  let skipped = 0;
+  colorGroups.forEach((groupPaths, key) => {
+    for (const path of groupPaths) {
+      const exact = path.color && path.color.approximate ? undefined : pens.find(p => p.color === key);
+      const entry = exact || nearestPen(path.color || hexToColor(key));
+      if (entry.skip) {
+        skipped++;
+      } else {
+        groupForPen(entry.pen).paths.push(path);
+      }
+    }
+  });
+
+  return { groups: groups.filter(g => g.paths.length > 0), skipped };
+}
+
 // Show UI with larger size for the output textarea
-figma.showUI(__html__, { width: 300, height: 520 });
+figma.showUI(__html__, { width: 300, height: 640 });
 
-// Load saved settings on startup
+// Load machine profiles and saved settings on startup
 (async () => {
+  const profiles = await loadProfiles();
+  figma.ui.postMessage({ type: 'loadProfiles', presets: MACHINE_PRESETS, profiles });
   const saved = await figma.clientStorage.getAsync('settings');
   if (saved) {
     figma.ui.postMessage({ type: 'loadSettings', settings: saved });
   }
 })();
 
-figma.ui.onmessage = async (msg: { type: string; settings?: Settings }) => {
+figma.ui.onmessage = async (msg: {
+  type: string; settings?: Settings; textMode?: string; profile?: unknown; name?: string; profiles?: unknown
+}) => {
   if (msg.type === 'generate') {
     // Save settings for next time
     await figma.clientStorage.setAsync('settings', msg.settings);
     generateGCode(msg.settings!);
+  } else if (msg.type === 'calibrate') {
+    generateCalibration(msg.settings!);
+  } else if (msg.type === 'detectPens') {
+    detectPenColors(msg.settings!);
+  } else if (msg.type === 'setTextMode') {
+    setTextMode(msg.textMode || '');
+  } else if (msg.type === 'saveProfile') {
+    await importProfiles([msg.profile], 'Saved profile');
+  } else if (msg.type === 'importProfiles') {
+    await importProfiles(msg.profiles, 'Imported');
+  } else if (msg.type === 'deleteProfile') {
+    await deleteProfile(msg.name || '');
   } else if (msg.type === 'cancel') {
     figma.closePlugin();
   }
 };
 
+// Read the saved machine profiles, dropping any that are malformed
+async function loadProfiles(): Promise<MachineProfile[]> {
+  const saved = await figma.clientStorage.getAsync('profiles');
+  const profiles: MachineProfile[] = [];
+  if (Array.isArray(saved)) {
+    for (const entry of saved) {
+      const profile = normalizeProfile(entry);
+      if (profile) profiles.push(profile);
+    }
+  }
+  return profiles;
+}
+
+// Save profiles (a single profile, a list, or an exported { profiles: [...] } file),
+// replacing saved profiles with the same name
+async function importProfiles(data: unknown, verb: string): Promise<void> {
+  let entries: unknown[] = [];
+  if (Array.isArray(data)) {
+    entries = data;
+  } else if (data && typeof data === 'object') {
+    const list = (data as { profiles?: unknown }).profiles;
+    entries = Array.isArray(list) ? list : [data];
+  }
+
+  const profiles = await loadProfiles();
+  const names: string[] = [];
+  let rejected = 0;
+  for (const entry of entries) {
+    const profile = normalizeProfile(entry);
+    if (!profile) {
+      rejected++;
+      continue;
+    }
+    const existing = profiles.findIndex(p => p.name === profile.name);
+    if (existing >= 0) {
+      profiles[existing] = profile;
+    } else {
+      profiles.push(profile);
+    }
+    names.push(profile.name);
+  }
+
+  if (names.length === 0) {
+    figma.ui.postMessage({ type: 'error', message: 'No valid machine profiles found (each needs a name)' });
+    return;
+  }
+
+  await figma.clientStorage.setAsync('profiles', profiles);
+  let message = `${verb} ${names.length === 1 ? `"${names[0]}"` : `${names.length} profiles`}`;
+  if (rejected > 0) message += `, ${rejected} invalid skipped`;
+  figma.ui.postMessage({ type: 'loadProfiles', presets: MACHINE_PRESETS, profiles, selected: names[0], message });
+}
+
+async function deleteProfile(name: string): Promise<void> {
+  const profiles = (await loadProfiles()).filter(p => p.name !== name);
+  await figma.clientStorage.setAsync('profiles', profiles);
+  figma.ui.postMessage({ type: 'loadProfiles', presets: MACHINE_PRESETS, profiles, message: `Deleted "${name}"` });
+}
+
+// Validate a profile from storage or an imported file; missing or invalid fields
+// fall back to the first preset, but a profile without a name is rejected
+function normalizeProfile(data: unknown): MachineProfile | null {
+  if (!data || typeof data !== 'object') return null;
+  const raw = data as { [key: string]: unknown };
+  if (typeof raw.name !== 'string' || raw.name.trim() === '') return null;
+
+  const defaults = MACHINE_PRESETS[0];
+  const number = (key: keyof MachineProfile, min: number): number => {
+    const value = raw[key];
+    return typeof value === 'number' && isFinite(value) && value >= min ? value : defaults[key] as number;
+  };
+  const text = (key: keyof MachineProfile): string => {
+    const value = raw[key];
+    return typeof value === 'string' ? value : defaults[key] as string;
+  };
+
+  return {
+    name: raw.name.trim(),
+    firmware: raw.firmware === 'marlin' ? 'marlin' : 'grbl',
+    toolMode: raw.toolMode === 'laser' || raw.toolMode === 'knife' ? raw.toolMode : 'pen',
+    units: raw.units === 'inch' ? 'inch' : 'mm',
+    bedWidth: number('bedWidth', 0),
+    bedHeight: number('bedHeight', 0),
+    feedRate: number('feedRate', 0),
+    travelFeed: number('travelFeed', 0),
+    travelG1: typeof raw.travelG1 === 'boolean' ? raw.travelG1 : defaults.travelG1,
+    rapidFeed: number('rapidFeed', 0),
+    acceleration: number('acceleration', 0),
+    junctionDeviation: number('junctionDeviation', 0),
+    penUpCmd: text('penUpCmd'),
+    penDownCmd: text('penDownCmd'),
+    penUpFeed: number('penUpFeed', 0),
+    penDownFeed: number('penDownFeed', 0),
+    penUpDwell: number('penUpDwell', 0),
+    penDownDwell: number('penDownDwell', 0),
+    laserDynamic: typeof raw.laserDynamic === 'boolean' ? raw.laserDynamic : defaults.laserDynamic,
+    laserMinPower: number('laserMinPower', 0),
+    laserMaxPower: number('laserMaxPower', 0),
+    knifeOffset: number('knifeOffset', 0),
+    startGCode: text('startGCode'),
+    endGCode: text('endGCode'),
+    arcFitting: typeof raw.arcFitting === 'boolean' ? raw.arcFitting : defaults.arcFitting,
+    precision: Math.min(6, Math.round(number('precision', 0)))
+  };
+}
+
+// Output a pen offset calibration pattern in the chosen format
+function generateCalibration(settings: Settings): void {
+  const toolpath = calibrationToolpath(settings);
+  if (!toolpath) {
+    figma.ui.postMessage({ type: 'error', message: 'Add pens to the pen table to draw a calibration pattern' });
+    return;
+  }
+
+  const center = `X${formatCoord(settings.bedWidth / 2)} Y${formatCoord(settings.bedHeight / 2)}`;
+  const reference = toolpath.groups[0].pen;
+  const headerNotes = [
+    `Calibration pattern: each pen draws a cross and circle at ${center}; pen ${reference} also draws a 1 mm scale`,
+    `Measure how far each cross lies from pen ${reference}'s and add that to the pen's offset`
+  ];
+  if (settings.checkBounds) {
+    const outside = findOutOfBounds(toolpath, settings);
+    if (outside.length > 0) {
+      figma.ui.postMessage({ type: 'error', message: outOfBoundsMessage(outside, settings) });
+      return;
+    }
+  }
+  const limitation = formatLimitation(toolpath, settings);
+  if (limitation) {
+    figma.ui.postMessage({ type: 'error', message: limitation });
+    return;
+  }
+  const stats = analyzeToolpath(toolpath, settings);
+  const gcode = serializeToolpath(toolpath, settings, stats, null, headerNotes);
+  const lineCount = gcode.split('\n').filter(line =>
+    line.trim() && !line.startsWith(';')
+  ).length;
+
+  figma.ui.postMessage({
+    type: 'gcode',
+    gcode,
+    format: settings.outputFormat || 'gcode',
+    extension: OUTPUT_EXTENSIONS[settings.outputFormat] || 'gcode',
+    pathCount: toolpath.pathCount,
+    lineCount,
+    stats,
+    toolpath: toolpathPreview(toolpath, settings)
+  });
+}
+
+// List the stroke colors in the selection, with path counts, for the pen table
+// Gradient strokes are left out since they snap to the nearest listed color
+function detectPenColors(settings: Settings): void {
+  const selection = figma.currentPage.selection;
+  if (selection.length === 0) {
+    figma.ui.postMessage({ type: 'error', message: 'Select the layers to plot to detect their colors' });
+    return;
+  }
+
+  const paths: Path[] = [];
+  const textColors: (StrokeColor | undefined)[] = [];
+  for (const node of selection) {
+    paths.push(...extractPaths(node, settings, [], {}));
+    for (const textNode of collectTextNodes(node)) {
+      textColors.push(getNodeStrokeColor(textNode));
+    }
+  }
+
+  const counts = new Map<string, number>();
+  groupPathsByColor(paths.filter(p => !(p.color && p.color.approximate))).forEach((group, color) => {
+    counts.set(color, group.length);
+  });
+  for (const color of textColors) {
+    if (color && color.approximate) continue;
+    const key = color ? colorToHex(color) : 'DEFAULT';
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+
+  const colors: { color: string; count: number }[] = [];
+  counts.forEach((count, color) => colors.push({ color, count }));
+  figma.ui.postMessage({ type: 'penColors', colors });
+}
+
+// Store a per-layer text mode ('hershey', 'outline', or '' for the default) on the selected text
+function setTextMode(textMode: string): void {
+  const textNodes: TextNode[] = [];
+  for (const node of figma.currentPage.selection) {
+    textNodes.push(...collectTextNodes(node));
+  }
+
+  if (textNodes.length === 0) {
+    figma.ui.postMessage({ type: 'error', message: 'Select text layers to set their text mode' });
+    return;
+  }
+
+  for (const textNode of textNodes) {
+    textNode.setPluginData('textMode', textMode);
+  }
+  figma.ui.postMessage({ type: 'textModeSet', textMode, count: textNodes.length });
+}
+
 // Collect all TextNodes from a node tree
+// Hidden layers, masks and operands of boolean operations are never drawn as text
 function collectTextNodes(node: SceneNode): TextNode[] {
   const textNodes: TextNode[] = [];
+  if (!node.visible || ('isMask' in node && node.isMask)) return textNodes;
   if (node.type === 'TEXT') {
     textNodes.push(node as TextNode);
-  } else if ('children' in node) {
+  } else if ('children' in node && node.type !== 'BOOLEAN_OPERATION') {
     for (const child of (node as FrameNode | GroupNode).children) {
       textNodes.push(...collectTextNodes(child));
     }
@@ -228,55 +1568,142 @@ async function generateGCode(settings: Settings): Promise<void> {
     return;
   }
 
-  // Determine origin: use containing frame or create one
-  const origin = determineOrigin(selection, settings);
+  // Determine origin: fit the selection to the paper, or use the containing frame or create one
+  let origin: Origin;
+  let fittedScale: number | null = null;
+  if (settings.fitToPaper) {
+    const fit = fitToPaper(selection, settings);
+    if (!fit) {
+      figma.ui.postMessage({ type: 'error', message: 'The selection cannot be fitted: the paper margins leave no room, or the selection has no size' });
+      return;
+    }
+    origin = fit.origin;
+    fittedScale = fit.scale;
+    settings = { ...settings, scale: fit.scale };
+  } else {
+    origin = determineOrigin(selection, settings);
+  }
 
   // Extract paths from all selected nodes (non-text)
-  const allPaths: Path[] = [];
+  let allPaths: Path[] = [];
+  const occluders: Occluder[] = [];
+  const skipped: { [type: string]: number } = {};
 
   for (const node of selection) {
-    const paths = extractPaths(node);
+    const paths = extractPaths(node, settings, occluders, skipped);
     allPaths.push(...paths);
   }
 
-  // Collect and process text nodes (requires async font loading)
+  // Collect text nodes
   const textNodes: TextNode[] = [];
   for (const node of selection) {
     textNodes.push(...collectTextNodes(node));
   }
 
-  // Load fonts and convert text nodes
+  const headerNotes: string[] = [];
+  if (settings.toolMode === 'laser') {
+    const power = settings.laserPower === 'fixed' ? `S${settings.laserMaxPower}`
+      : `S${settings.laserMinPower}-${settings.laserMaxPower} from stroke ${settings.laserPower}`;
+    headerNotes.push(`Tool: laser, ${settings.laserDynamic ? 'M4' : 'M3'} ${power}, ${settings.laserPasses} pass${settings.laserPasses !== 1 ? 'es' : ''}`);
+  } else if (settings.toolMode === 'knife') {
+    headerNotes.push(`Tool: drag knife, blade offset ${settings.knifeOffset} ${settings.units}, inner contours first`);
+  }
+  if (fittedScale !== null) {
+    const paper = paperDimensions(settings);
+    const size = (value: number) => String(Number(value.toFixed(2)));
+    const name = settings.paperSize === 'bed' ? 'bed' : `${PAPER_NAMES[settings.paperSize]} ${settings.paperOrientation}`;
+    headerNotes.push(`Fit to paper: ${name} (${size(paper.width)} x ${size(paper.height)} ${settings.units}), margin ${size(settings.paperMargin || 0)}, scale ${fittedScale.toFixed(4)} px per ${settings.units}`);
+  }
+
+  // Convert text nodes to Hershey strokes or font outlines (each TextNode gets a unique group ID)
+  // Text styles are only read, so fonts don't need to be loaded
+  const fontMappings = parseFontMappings(settings.fontMapping);
+  const missingGlyphs = new Set<string>();
+  const failedText: string[] = [];
   let textGroupId = 0;
   for (const textNode of textNodes) {
+    // A text layer that can't be converted is reported and left out; the rest still plot
     try {
-      // Load all fonts used in the text node
-      const fontName = textNode.fontName;
-      if (fontName !== figma.mixed) {
-        await figma.loadFontAsync(fontName);
-      } else {
-        // Mixed fonts - load each segment's font
-        const len = textNode.characters.length;
-        for (let i = 0; i < len; i++) {
-          const font = textNode.getRangeFontName(i, i + 1) as FontName;
-          await figma.loadFontAsync(font);
-        }
+      const textMode = textNode.getPluginData('textMode') || settings.textMode;
+      const textPaths = textMode === 'outline'
+        ? textNodeToOutlines(textNode, textGroupId++, settings)
+        : textNodeToPaths(textNode, textGroupId++, fontMappings.mappings, missingGlyphs);
+      for (const path of textPaths) path.source = textNode.name;
+      if (settings.hiddenLineRemoval) {
+        const paintOrder = getPaintOrder(textNode);
+        for (const path of textPaths) path.paintOrder = paintOrder;
       }
-
-      // Now convert to Hershey paths (each TextNode gets a unique group ID)
-      const textPaths = textNodeToPaths(textNode, textGroupId++);
-      allPaths.push(...textPaths);
+      allPaths.push(...clipToAncestors(textNode, textPaths));
     } catch (e) {
-      console.error('Failed to load font for text node:', e);
+      console.error(`Failed to convert text layer "${textNode.name}":`, e);
+      failedText.push(textNode.name);
     }
   }
 
+  // Report text that could not be drawn faithfully
+  if (textNodes.length > 0 && fontMappings.invalid.length > 0) {
+    headerNotes.push(`Font mapping: ignored ${fontMappings.invalid.map(rule => `"${rule}"`).join(', ')}`);
+  }
+  const missingChars = Array.from(missingGlyphs);
+  if (missingChars.length > 0) {
+    const codes = missingChars.map(char =>
+      'U+' + ('000' + (char.codePointAt(0) as number).toString(16).toUpperCase()).slice(-4)
+    );
+    headerNotes.push(`Missing glyphs (drawn as spaces): ${codes.join(', ')}`);
+  }
+
+  if (failedText.length > 0) {
+    headerNotes.push(`Failed text layers (not drawn): ${failedText.map(name => `"${name}"`).join(', ')}`);
+  }
+
+  // Report layers that have no drawable geometry
+  const skippedTypes = Object.keys(skipped).map(type => `${skipped[type]} ${type}`).join(', ');
+  if (skippedTypes) {
+    headerNotes.push(`Skipped unsupported layers: ${skippedTypes}`);
+  }
+
+  // Remove lines hidden behind opaque shapes higher in the layer stack
+  if (settings.hiddenLineRemoval) {
+    allPaths = removeHiddenLines(allPaths, occluders);
+  }
+
+  // Keep everything inside the machine's drawable area
+  if (settings.clipToBed) {
+    allPaths = clipPaths(allPaths, bedRegion(origin, settings), true);
+  }
+
+  // Simplify dense or tiny geometry that the machine can't resolve anyway
+  if (settings.simplify) {
+    const result = simplifyPaths(allPaths, settings);
+    allPaths = result.paths;
+    headerNotes.push(`Simplification: removed ${result.pointsRemoved} point${result.pointsRemoved !== 1 ? 's' : ''}, ${result.pathsRemoved} path${result.pathsRemoved !== 1 ? 's' : ''}`);
+  }
+
   if (allPaths.length === 0) {
     figma.ui.postMessage({ type: 'error', message: 'No vector paths found in selection' });
     return;
   }
 
-  // Generate G-code with origin offset
-  const gcode = pathsToGCode(allPaths, settings, origin);
+  // Order the paths once, then write them in the chosen output format
+  const toolpath = buildToolpath(allPaths, settings, origin);
+
+  // Never send the machine outside its drawable area
+  if (settings.checkBounds) {
+    const outside = findOutOfBounds(toolpath, settings);
+    if (outside.length > 0) {
+      figma.ui.postMessage({ type: 'error', message: outOfBoundsMessage(outside, settings) });
+      return;
+    }
+  }
+
+  const limitation = formatLimitation(toolpath, settings);
+  if (limitation) {
+    figma.ui.postMessage({ type: 'error', message: limitation });
+    return;
+  }
+
+  const stats = analyzeToolpath(toolpath, settings);
+  const gcode = serializeToolpath(toolpath, settings, stats, origin, headerNotes);
 
   // Count total lines (excluding comments and empty lines)
   const lineCount = gcode.split('\n').filter(line =>
@@ -286,8 +1713,16 @@ async function generateGCode(settings: Settings): Promise<void> {
   figma.ui.postMessage({
     type: 'gcode',
     gcode: gcode,
+    format: settings.outputFormat || 'gcode',
+    extension: OUTPUT_EXTENSIONS[settings.outputFormat] || 'gcode',
     pathCount: allPaths.length,
-    lineCount: lineCount
+    lineCount: lineCount,
+    missingGlyphs: missingChars,
+    skippedTypes,
+    failedText,
+    fittedScale,
+    stats,
+    toolpath: toolpathPreview(toolpath, settings)
   });
 }
 
@@ -298,8 +1733,10 @@ function determineOrigin(selection: readonly SceneNode[], settings: Settings): O
     return {
       x: frame.absoluteTransform[0][2],
       y: frame.absoluteTransform[1][2],
+      width: frame.width,
       height: frame.height,
-      frame: frame
+      frame: frame,
+      source: 'frame'
     };
   }
 
@@ -316,28 +1753,32 @@ function determineOrigin(selection: readonly SceneNode[], settings: Settings): O
       return {
         x: frame.absoluteTransform[0][2],
         y: frame.absoluteTransform[1][2],
+        width: frame.width,
         height: frame.height,
-        frame: frame
+        frame: frame,
+        source: 'frame'
       };
     }
   }
 
-  // No common frame - calculate bounds and create a new frame with 5mm margin
-  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
-
-  for (const node of selection) {
-    if ('absoluteBoundingBox' in node && node.absoluteBoundingBox) {
-      const bounds = node.absoluteBoundingBox;
-      minX = Math.min(minX, bounds.x);
-      minY = Math.min(minY, bounds.y);
-      maxX = Math.max(maxX, bounds.x + bounds.width);
-      maxY = Math.max(maxY, bounds.y + bounds.height);
-    }
-  }
+  // No common frame - calculate bounds with a 5mm margin
+  const { minX, minY, maxX, maxY } = selectionBounds(selection);
 
   // Convert 5mm margin to pixels (using scale setting)
   const marginPx = 5 * settings.scale;
 
+  // Non-destructive: use the bounds directly without touching the document
+  if (!settings.boundsFrame) {
+    return {
+      x: minX - marginPx,
+      y: minY - marginPx,
+      width: maxX - minX + marginPx * 2,
+      height: maxY - minY + marginPx * 2,
+      frame: null,
+      source: 'bounds'
+    };
+  }
+
   // Create a new frame around the selection with margin
   const frame = figma.createFrame();
   frame.name = 'G-Code Bounds';
@@ -367,636 +1808,3852 @@ function determineOrigin(selection: readonly SceneNode[], settings: Settings): O
   return {
     x: frame.absoluteTransform[0][2],
     y: frame.absoluteTransform[1][2],
+    width: frame.width,
     height: frame.height,
-    frame: null  // null indicates we created a new frame
+    frame: null,  // null indicates we created a new frame
+    source: 'generated'
   };
 }
 
-function extractPaths(node: SceneNode): Path[] {
-  const paths: Path[] = [];
-  const color = getNodeStrokeColor(node);
+// Combined bounding box of the selected layers in canvas pixels
+function selectionBounds(selection: readonly SceneNode[]): { minX: number; minY: number; maxX: number; maxY: number } {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
 
-  // Handle different node types
-  if ('vectorPaths' in node && node.vectorPaths) {
-    // VectorNode or similar with vectorPaths property
-    const vectorNode = node as VectorNode;
-    for (const vectorPath of vectorNode.vectorPaths) {
-      const path = parsePathData(vectorPath.data, node);
-      if (path.points.length > 0) {
-        path.color = color;
-        paths.push(path);
-      }
+  for (const node of selection) {
+    if ('absoluteBoundingBox' in node && node.absoluteBoundingBox) {
+      const bounds = node.absoluteBoundingBox;
+      minX = Math.min(minX, bounds.x);
+      minY = Math.min(minY, bounds.y);
+      maxX = Math.max(maxX, bounds.x + bounds.width);
+      maxY = Math.max(maxY, bounds.y + bounds.height);
     }
-  } else if (node.type === 'RECTANGLE') {
-    // Convert rectangle to path
-    const rect = node as RectangleNode;
-    const path = rectangleToPath(rect);
-    path.color = color;
-    paths.push(path);
-  } else if (node.type === 'ELLIPSE') {
-    // Convert ellipse to path (approximate with line segments)
-    const ellipse = node as EllipseNode;
-    const path = ellipseToPath(ellipse);
-    path.color = color;
-    paths.push(path);
-  } else if (node.type === 'POLYGON' || node.type === 'STAR') {
-    // These have vectorPaths, handled above
-  } else if (node.type === 'LINE') {
-    const line = node as LineNode;
+  }
+
+  return { minX, minY, maxX, maxY };
+}
+
+// Paper sizes in millimeters, portrait
+const PAPER_SIZES: { [size: string]: { width: number; height: number } } = {
+  a4: { width: 210, height: 297 },
+  a3: { width: 297, height: 420 },
+  letter: { width: 215.9, height: 279.4 }
+};
+
+const PAPER_NAMES: { [size: string]: string } = {
+  a4: 'A4',
+  a3: 'A3',
+  letter: 'Letter',
+  custom: 'Custom'
+};
+
+// Width and height of the paper in machine units, in the chosen orientation
+// 'bed' is the whole drawable area, as it is.
+function paperDimensions(settings: Settings): { width: number; height: number } {
+  if (settings.paperSize === 'bed') {
+    return { width: settings.bedWidth, height: settings.bedHeight };
+  }
+
+  let width = settings.paperWidth;
+  let height = settings.paperHeight;
+  const preset = PAPER_SIZES[settings.paperSize];
+  if (preset) {
+    const perMm = settings.units === 'inch' ? 1 / 25.4 : 1;
+    width = preset.width * perMm;
+    height = preset.height * perMm;
+  }
+
+  const landscape = settings.paperOrientation === 'landscape';
+  return (width > height) === landscape || width === height
+    ? { width, height }
+    : { width: height, height: width };
+}
+
+// Bounds that put the paper at X0 Y0 and the selection on it, scaled to fit within the margins
+// The paper is sized as the selection appears in Figma, so a rotated output lands on it the
+// right way round. Returns null if nothing fits.
+function fitToPaper(selection: readonly SceneNode[], settings: Settings): { origin: Origin; scale: number } | null {
+  const { minX, minY, maxX, maxY } = selectionBounds(selection);
+  if (minX > maxX || minY > maxY) return null;
+
+  const paper = paperDimensions(settings);
+  const rotated = (((Math.round((settings.rotation || 0) / 90) % 4) + 4) % 4) % 2 === 1;
+  const pageWidth = rotated ? paper.height : paper.width;
+  const pageHeight = rotated ? paper.width : paper.height;
+  const margin = settings.paperMargin || 0;
+  if (pageWidth - margin * 2 <= 0 || pageHeight - margin * 2 <= 0) return null;
+
+  // Pixels per unit at which the larger side just fits
+  const scale = Math.max((maxX - minX) / (pageWidth - margin * 2), (maxY - minY) / (pageHeight - margin * 2));
+  if (!(scale > 0) || !isFinite(scale)) return null;
+
+  const center = settings.fitCenter || 'both';
+  const centerX = center === 'both' || center === 'horizontal';
+  const centerY = center === 'both' || center === 'vertical';
+  const width = pageWidth * scale;
+  const height = pageHeight * scale;
+  return {
+    origin: {
+      x: centerX ? (minX + maxX - width) / 2 : minX - margin * scale,
+      y: centerY ? (minY + maxY - height) / 2 : minY - margin * scale,
+      width,
+      height,
+      frame: null,
+      source: 'paper'
+    },
+    scale
+  };
+}
+
+// Build the affine transform from canvas pixels to machine coordinates
+// Starts with the bottom-left of the bounds at 0,0 and Y pointing up, then applies
+// mirroring, rotation (within the bounds), the chosen origin corner and offsets.
+function machineTransform(origin: Origin, settings: Settings): Transform {
+  const { scale } = settings;
+  let width = origin.width / scale;
+  let height = origin.height / scale;
+
+  // Canvas pixels -> units, Y flipped so the bottom of the bounds is Y=0
+  let transform: Transform = [
+    [1 / scale, 0, -origin.x / scale],
+    [0, -1 / scale, (origin.y + origin.height) / scale]
+  ];
+
+  if (settings.mirrorX) {
+    transform = multiplyTransforms([[-1, 0, width], [0, 1, 0]], transform);
+  }
+  if (settings.mirrorY) {
+    transform = multiplyTransforms([[1, 0, 0], [0, -1, height]], transform);
+  }
+
+  // Counterclockwise rotation that keeps the bounds in the positive quadrant
+  const rotation = ((Math.round((settings.rotation || 0) / 90) % 4) + 4) % 4;
+  if (rotation === 1) {
+    transform = multiplyTransforms([[0, -1, height], [1, 0, 0]], transform);
+  } else if (rotation === 2) {
+    transform = multiplyTransforms([[-1, 0, width], [0, -1, height]], transform);
+  } else if (rotation === 3) {
+    transform = multiplyTransforms([[0, 1, 0], [-1, 0, width]], transform);
+  }
+  if (rotation % 2 === 1) {
+    [width, height] = [height, width];
+  }
+
+  // Move the chosen corner to 0,0, then apply the user offsets
+  const corner = settings.originCorner || 'bottom-left';
+  const shiftX = corner === 'top-right' || corner === 'bottom-right' ? -width
+    : corner === 'center' ? -width / 2 : 0;
+  const shiftY = corner === 'top-left' || corner === 'top-right' ? -height
+    : corner === 'center' ? -height / 2 : 0;
+
+  return multiplyTransforms(
+    [[1, 0, shiftX + (settings.offsetX || 0)], [0, 1, shiftY + (settings.offsetY || 0)]],
+    transform
+  );
+}
+
+// Combine two affine transforms: the result applies b first, then a
+function multiplyTransforms(a: Transform, b: Transform): Transform {
+  return [
+    [
+      a[0][0] * b[0][0] + a[0][1] * b[1][0],
+      a[0][0] * b[0][1] + a[0][1] * b[1][1],
+      a[0][0] * b[0][2] + a[0][1] * b[1][2] + a[0][2]
+    ],
+    [
+      a[1][0] * b[0][0] + a[1][1] * b[1][0],
+      a[1][0] * b[0][1] + a[1][1] * b[1][1],
+      a[1][0] * b[0][2] + a[1][1] * b[1][2] + a[1][2]
+    ]
+  ];
+}
+
+// Invert an affine transform
+function invertTransform(t: Transform): Transform {
+  const det = t[0][0] * t[1][1] - t[0][1] * t[1][0];
+  return [
+    [t[1][1] / det, -t[0][1] / det, (t[0][1] * t[1][2] - t[1][1] * t[0][2]) / det],
+    [-t[1][0] / det, t[0][0] / det, (t[1][0] * t[0][2] - t[0][0] * t[1][2]) / det]
+  ];
+}
+
+// Extract drawable paths from a node and its children
+// Opaque filled shapes are also collected as occluders for hidden-line removal.
+// Layers of types without drawable geometry are counted in `skipped`
+function extractPaths(
+  node: SceneNode, settings: Settings, occluders: Occluder[], skipped: { [type: string]: number }
+): Path[] {
+  const paths: Path[] = [];
+  const outlines: Path[] = []; // Geometry of this node itself (not its children)
+  const color = getNodeStrokeColor(node);
+  const regions: Region[] = []; // Closed areas of this node, used for hatch fills
+
+  // Hidden layers aren't drawn; masks only clip the layers above them (see clipToAncestors)
+  if (!node.visible || ('isMask' in node && node.isMask)) return paths;
+
+  // Handle different node types
+  if ('vectorPaths' in node && node.vectorPaths) {
+    // VectorNode or similar with vectorPaths property
+    const vectorNode = node as VectorNode;
+    for (const vectorPath of vectorNode.vectorPaths) {
+      for (const path of parsePathData(vectorPath.data, node)) {
+        path.color = color;
+        outlines.push(path);
+      }
+
+      // Paths with a winding rule describe a fillable area
+      if (vectorPath.windingRule !== 'NONE') {
+        regions.push({
+          rings: subpathRings(vectorPath.data, node),
+          windingRule: vectorPath.windingRule
+        });
+      }
+    }
+  } else if (node.type === 'RECTANGLE') {
+    const rect = node as RectangleNode;
+    if (rect.cornerSmoothing > 0 && rect.fillGeometry.length > 0) {
+      // Smoothed corners are taken from Figma's own geometry
+      addFillGeometry(rect, color, outlines, regions);
+    } else {
+      const path = rectangleToPath(rect);
+      path.color = color;
+      outlines.push(path);
+      regions.push({ rings: [path.points], windingRule: 'NONZERO' });
+    }
+  } else if (node.type === 'ELLIPSE') {
+    // Convert ellipse to paths (approximate with line segments)
+    const ellipsePaths = ellipseToPaths(node as EllipseNode);
+    for (const path of ellipsePaths) {
+      path.color = color;
+      outlines.push(path);
+    }
+    regions.push({ rings: ellipsePaths.map(path => path.points), windingRule: 'EVENODD' });
+  } else if (node.type === 'POLYGON' || node.type === 'STAR') {
+    // No vectorPaths here: use the fill geometry, which includes rounded corners
+    const shape = node as PolygonNode | StarNode;
+    if (shape.fillGeometry.length > 0) {
+      addFillGeometry(shape, color, outlines, regions);
+    } else {
+      const path = polygonToPath(shape);
+      path.color = color;
+      outlines.push(path);
+      regions.push({ rings: [path.points], windingRule: 'NONZERO' });
+    }
+  } else if (node.type === 'BOOLEAN_OPERATION') {
+    // Draw the combined result rather than the operands
+    addFillGeometry(node as BooleanOperationNode, color, outlines, regions);
+  } else if (node.type === 'LINE') {
+    const line = node as LineNode;
     const path = lineToPath(line);
     path.color = color;
-    paths.push(path);
+    outlines.push(path);
   } else if (node.type === 'TEXT') {
     // Text nodes are handled separately in extractPathsAsync
     // Skip here - they'll be processed with font loading
-  } else if (node.type === 'FRAME' || node.type === 'GROUP') {
-    // Recurse into children
-    const container = node as FrameNode | GroupNode;
-    for (const child of container.children) {
-      paths.push(...extractPaths(child));
+  } else if ('children' in node) {
+    // Recurse into frames, groups, components, instances and sections
+    for (const child of node.children) {
+      paths.push(...extractPaths(child, settings, occluders, skipped));
+    }
+  } else {
+    skipped[node.type] = (skipped[node.type] || 0) + 1;
+  }
+
+  // Dashed strokes are drawn as separate pen-down dashes, and outlines become one or more
+  // passes depending on stroke weight
+  const split = (outline: Path): Path[] => settings.dashes ? dashStrokes(node, [outline]) : [outline];
+  let ownPaths = strokeOutlines(node, outlines, settings, split);
+
+  // Hatch the closed areas of nodes that have a solid fill
+  if (settings.hatchFill && regions.length > 0) {
+    ownPaths.push(...hatchNodeFill(node, regions, settings));
+  }
+
+  for (const path of ownPaths) path.source = node.name;
+  const clips = ancestorClipRegions(node);
+
+  // Remember layer order for hidden-line removal
+  if (settings.hiddenLineRemoval) {
+    const paintOrder = getPaintOrder(node);
+    for (const path of ownPaths) path.paintOrder = paintOrder;
+    if (regions.length > 0 && hasOpaqueFill(node)) {
+      occluders.push({ paintOrder, regions, clips });
     }
   }
 
+  // Clip this node's geometry to masks and to any frames above it that clip their content
+  for (const clip of clips) {
+    ownPaths = clipPaths(ownPaths, clip, true);
+  }
+  paths.push(...ownPaths);
+
   return paths;
 }
 
-function parsePathData(data: string, node: SceneNode): Path {
-  const points: Point[] = [];
-  let closed = false;
+// Clip paths to the masks and clipping frames that apply to a node
+function clipToAncestors(node: SceneNode, paths: Path[]): Path[] {
+  let result = paths;
+  for (const clip of ancestorClipRegions(node)) {
+    result = clipPaths(result, clip, true);
+  }
+  return result;
+}
 
-  // Get the node's absolute transform to convert local coords to absolute
-  const transform = node.absoluteTransform;
+// Regions of every clipping frame that contains the node, and of the masks that
+// apply to it or its ancestors (the nearest mask below each of them in its parent)
+function ancestorClipRegions(node: SceneNode): Region[] {
+  const clips: Region[] = [];
+  let current: BaseNode = node;
+  while (current.parent && current.parent.type !== 'PAGE' && current.parent.type !== 'DOCUMENT') {
+    const parent = current.parent as BaseNode & ChildrenMixin;
+
+    const siblings = parent.children;
+    for (let i = siblings.indexOf(current as SceneNode) - 1; i >= 0; i--) {
+      const sibling = siblings[i];
+      if ('isMask' in sibling && sibling.isMask && sibling.visible) {
+        const region = maskRegion(sibling);
+        if (region) clips.push(region);
+        break;
+      }
+    }
+
+    if ('clipsContent' in parent && parent.clipsContent) {
+      clips.push(frameRegion(parent as FrameNode));
+    }
+    current = parent;
+  }
+  return clips;
+}
 
-  // Parse SVG-like path commands: M, L, C, Z
-  // Split by command letters while keeping them
-  const commands = data.match(/[MLCQZ][^MLCQZ]*/gi) || [];
+// The area a mask layer reveals, from its fill geometry (null if it has none)
+// All of the mask's paths are combined using the winding rule of the first.
+function maskRegion(mask: SceneNode): Region | null {
+  if (!('fillGeometry' in mask) || mask.fillGeometry.length === 0) return null;
 
-  let currentX = 0;
-  let currentY = 0;
+  const region: Region = {
+    rings: [],
+    windingRule: mask.fillGeometry[0].windingRule === 'EVENODD' ? 'EVENODD' : 'NONZERO'
+  };
+  for (const geometry of mask.fillGeometry) {
+    region.rings.push(...subpathRings(geometry.data, mask));
+  }
+  return region.rings.length > 0 ? region : null;
+}
 
-  for (const cmd of commands) {
-    const type = cmd[0].toUpperCase();
-    const args = cmd.slice(1).trim().split(/[\s,]+/).filter(s => s).map(parseFloat);
+// The (possibly rotated) rectangle covered by a frame
+function frameRegion(frame: FrameNode): Region {
+  const transform = frame.absoluteTransform;
+  const ring = [
+    transformPoint(0, 0, transform),
+    transformPoint(frame.width, 0, transform),
+    transformPoint(frame.width, frame.height, transform),
+    transformPoint(0, frame.height, transform)
+  ];
+  return { rings: [ring], windingRule: 'NONZERO' };
+}
 
-    switch (type) {
-      case 'M': // Move to
-        if (args.length >= 2) {
-          currentX = args[0];
-          currentY = args[1];
-          const abs = transformPoint(currentX, currentY, transform);
-          points.push(abs);
-        }
-        break;
+// The machine bed rectangle (0,0 to bed size in machine units) in canvas pixels
+function bedRegion(origin: Origin, settings: Settings): Region {
+  const toCanvas = invertTransform(machineTransform(origin, settings));
+  const { bedWidth, bedHeight } = settings;
+  const ring = [
+    transformPoint(0, 0, toCanvas),
+    transformPoint(bedWidth, 0, toCanvas),
+    transformPoint(bedWidth, bedHeight, toCanvas),
+    transformPoint(0, bedHeight, toCanvas)
+  ];
+  return { rings: [ring], windingRule: 'NONZERO' };
+}
 
-      case 'L': // Line to
-        if (args.length >= 2) {
-          currentX = args[0];
-          currentY = args[1];
-          const abs = transformPoint(currentX, currentY, transform);
-          points.push(abs);
-        }
-        break;
+// Position of a node in the layer stack: child indices from the page down
+// Compared lexicographically, a larger value is painted later (on top).
+function getPaintOrder(node: SceneNode): number[] {
+  const order: number[] = [];
+  let current: BaseNode = node;
+  while (current.parent && current.parent.type !== 'DOCUMENT') {
+    const parent = current.parent as BaseNode & ChildrenMixin;
+    order.unshift(parent.children.indexOf(current as SceneNode));
+    current = parent;
+  }
+  return order;
+}
 
-      case 'C': // Cubic bezier - linearize with adaptive subdivision
-        if (args.length >= 6) {
-          // args: x1, y1, x2, y2, x, y (control points then endpoint)
-          const p0 = transformPoint(currentX, currentY, transform);
-          const p1 = transformPoint(args[0], args[1], transform);
-          const p2 = transformPoint(args[2], args[3], transform);
-          const p3 = transformPoint(args[4], args[5], transform);
+// Compare two paint orders: negative if a is painted before b
+function comparePaintOrder(a: number[], b: number[]): number {
+  const len = Math.min(a.length, b.length);
+  for (let i = 0; i < len; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  // An ancestor is painted before its descendants
+  return a.length - b.length;
+}
+
+// True if a node's fill completely hides what is behind it
+function hasOpaqueFill(node: SceneNode): boolean {
+  if (!('fills' in node) || node.fills === figma.mixed) return false;
+  if (getNodeOpacity(node) < 1) return false;
+  if ('blendMode' in node && node.blendMode !== 'NORMAL' && node.blendMode !== 'PASS_THROUGH') {
+    return false;
+  }
+  return node.fills.some(fill =>
+    fill.visible !== false &&
+    (fill.opacity === undefined || fill.opacity >= 1) &&
+    (fill.type === 'SOLID' || fill.type === 'IMAGE')
+  );
+}
 
-          // Linearize and add all points
-          const bezierPoints = linearizeCubicBezier(p0, p1, p2, p3);
-          points.push(...bezierPoints);
+// Subtract the area of every occluder above a path from that path
+// Removing the union of the occluders is done one region at a time, each limited to
+// the occluder's clip regions.
+function removeHiddenLines(paths: Path[], occluders: Occluder[]): Path[] {
+  if (occluders.length === 0) return paths;
 
-          currentX = args[4];
-          currentY = args[5];
+  const result: Path[] = [];
+  for (const path of paths) {
+    let pieces = [path];
+    if (path.paintOrder) {
+      for (const occluder of occluders) {
+        if (comparePaintOrder(occluder.paintOrder, path.paintOrder) <= 0) continue;
+        for (const region of occluder.regions) {
+          pieces = removeOverlap(pieces, [region].concat(occluder.clips));
         }
-        break;
+        if (pieces.length === 0) break;
+      }
+    }
+    result.push(...pieces);
+  }
+  return result;
+}
+
+// Remove the parts of paths that lie inside every one of the regions
+function removeOverlap(paths: Path[], regions: Region[]): Path[] {
+  const outside = clipPaths(paths, regions[0], false);
+  if (regions.length === 1) return outside;
+  const inside = clipPaths(paths, regions[0], true);
+  return outside.concat(removeOverlap(inside, regions.slice(1)));
+}
+
+// Expand a node's outlines into parallel passes that fill in its stroke weight
+// The passes cover the stroke band given by strokeAlign, spaced one pen width apart.
+// Each outline is split (into its dashes) first, and every piece gets all the passes.
+function strokeOutlines(
+  node: SceneNode, outlines: Path[], settings: Settings, split: (outline: Path) => Path[]
+): Path[] {
+  const result: Path[] = [];
+  const weight = getNodeStrokeWeight(node);
+  const penWidth = settings.penWidth * settings.scale;
+  if (!settings.thickStrokes || !('strokes' in node) || node.strokes.length === 0 ||
+    !(penWidth > 0) || weight <= penWidth) {
+    for (const outline of outlines) result.push(...split(outline));
+    return result;
+  }
+
+  const geometry = node as SceneNode & GeometryMixin;
+  const join = geometry.strokeJoin === figma.mixed ? 'MITER' : geometry.strokeJoin;
+  const miterLimit = geometry.strokeMiterLimit || DEFAULT_MITER_LIMIT;
+  const passCount = Math.ceil(weight / penWidth);
 
-      case 'Q': // Quadratic bezier - linearize with adaptive subdivision
-        if (args.length >= 4) {
-          const p0 = transformPoint(currentX, currentY, transform);
-          const p1 = transformPoint(args[0], args[1], transform);
-          const p2 = transformPoint(args[2], args[3], transform);
+  for (const outline of outlines) {
+    // Inside/outside alignment only applies to closed shapes
+    const align = outline.closed ? geometry.strokeAlign : 'CENTER';
+    const bandStart = align === 'INSIDE' ? -weight : align === 'OUTSIDE' ? 0 : -weight / 2;
+    const bandEnd = bandStart + weight;
 
-          // Linearize and add all points
-          const bezierPoints = linearizeQuadraticBezier(p0, p1, p2);
-          points.push(...bezierPoints);
+    // Offsets measured outward from the outline (negative = inward)
+    const inwardIsLeft = outline.closed && signedArea(outline.points) > 0;
 
-          currentX = args[2];
-          currentY = args[3];
+    // Pieces (dashes) are cut from the outline before offsetting, so every pass breaks at the same place
+    const pieces = split(outline);
+
+    for (let i = 0; i < passCount; i++) {
+      const offset = passCount === 1
+        ? (bandStart + bandEnd) / 2
+        : bandStart + penWidth / 2 + i * (weight - penWidth) / (passCount - 1);
+
+      for (const piece of pieces) {
+        if (Math.abs(offset) < 1e-9) {
+          result.push(piece);
+          continue;
         }
-        break;
 
-      case 'Z': // Close path
-        closed = true;
-        // Add first point again if needed for closed path
-        if (points.length > 0 &&
-            (points[points.length - 1].x !== points[0].x ||
-             points[points.length - 1].y !== points[0].y)) {
-          points.push({ ...points[0] });
+        const points = offsetPolyline(
+          piece.points, piece.closed, inwardIsLeft ? -offset : offset, join, miterLimit
+        );
+
+        // Insets of small shapes collapse and turn inside out - drop them
+        if (piece.closed && signedArea(points) * signedArea(piece.points) <= 0) continue;
+
+        if (points.length >= 2) {
+          result.push({ points, closed: piece.closed, color: piece.color });
         }
-        break;
+      }
     }
   }
+  return result;
+}
+
+// Apply a node's dash pattern to its stroke paths
+function dashStrokes(node: SceneNode, paths: Path[]): Path[] {
+  if (!('dashPattern' in node) || node.dashPattern.length === 0) return paths;
 
-  return { points, closed };
+  const result: Path[] = [];
+  for (const path of paths) {
+    result.push(...dashPath(path, node.dashPattern));
+  }
+  return result;
 }
 
-function transformPoint(x: number, y: number, transform: Transform): Point {
-  // Apply 2D affine transform
-  // transform is [[a, c, e], [b, d, f]] representing:
-  // newX = a*x + c*y + e
-  // newY = b*x + d*y + f
-  return {
-    x: transform[0][0] * x + transform[0][1] * y + transform[0][2],
-    y: transform[1][0] * x + transform[1][1] * y + transform[1][2]
-  };
+// Split a path into dashes following a pattern of alternating dash and gap lengths (in pixels)
+// The pattern runs on around corners; on closed paths a dash crossing the start point stays one piece.
+// Odd-length patterns are repeated, as in SVG.
+function dashPath(path: Path, pattern: readonly number[]): Path[] {
+  const lengths = pattern.length % 2 === 0 ? pattern : pattern.concat(pattern);
+  let total = 0;
+  for (const length of lengths) {
+    if (!(length >= 0)) return [path];
+    total += length;
+  }
+  if (!(total > 0) || path.points.length < 2) return [path];
+
+  const dashes: Point[][] = [];
+  let current: Point[] = [path.points[0]];
+  let index = 0;
+  let remaining = lengths[0];
+  let on = true;
+
+  for (let i = 1; i < path.points.length; i++) {
+    const a = path.points[i - 1];
+    const b = path.points[i];
+    const length = distance(a, b);
+    let travelled = 0;
+
+    // Pattern boundaries that fall on this segment
+    while (length - travelled > remaining) {
+      travelled += remaining;
+      const p = lerpPoint(a, b, travelled / length);
+      if (on) {
+        // Zero-length dashes are kept as dots
+        if (current.length < 2 || distance(current[current.length - 1], p) > 0) current.push(p);
+        dashes.push(current);
+        current = [];
+      } else {
+        current = [p];
+      }
+      on = !on;
+      index = (index + 1) % lengths.length;
+      remaining = lengths[index];
+    }
+
+    remaining -= length - travelled;
+    if (on) current.push(b);
+  }
+  const endsInDash = on && current.length >= 2;
+  if (endsInDash) dashes.push(current);
+
+  // The first dash starts at the start point, so one that runs through the end continues into it
+  if (path.closed && endsInDash && dashes.length > 1) {
+    const last = dashes.pop()!;
+    dashes[0] = last.concat(dashes[0].slice(1));
+  }
+
+  return dashes.map(points => ({ ...path, points, closed: false }));
 }
 
-// Linearize a cubic bezier curve using adaptive subdivision
-// p0 = start, p1 = control1, p2 = control2, p3 = end
-// Returns array of points (excluding p0, which is already in the path)
-function linearizeCubicBezier(
-  p0: Point, p1: Point, p2: Point, p3: Point,
-  tolerance: number = BEZIER_TOLERANCE
+// Get a node's stroke weight, using the widest side when sides differ
+function getNodeStrokeWeight(node: SceneNode): number {
+  if (!('strokeWeight' in node)) return 0;
+  if (node.strokeWeight !== figma.mixed) return node.strokeWeight;
+  if ('strokeTopWeight' in node) {
+    return Math.max(node.strokeTopWeight, node.strokeRightWeight,
+      node.strokeBottomWeight, node.strokeLeftWeight);
+  }
+  return 0;
+}
+
+// Signed area of a polygon (shoelace formula)
+// Positive when the left-hand normal of each edge points into the polygon
+function signedArea(points: Point[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area / 2;
+}
+
+// Offset a polyline sideways by a distance along its left-hand normal
+// Outer corners are joined according to the stroke join; inner corners use the miter point.
+function offsetPolyline(
+  input: Point[], closed: boolean, offset: number,
+  join: StrokeJoin, miterLimit: number
 ): Point[] {
+  // Drop zero-length segments (and the duplicated closing point)
   const points: Point[] = [];
+  for (const p of input) {
+    const last = points[points.length - 1];
+    if (!last || distance(last, p) > 1e-9) points.push(p);
+  }
+  if (closed && points.length > 1 && distance(points[0], points[points.length - 1]) <= 1e-9) {
+    points.pop();
+  }
+  if (points.length < 2) return [];
+
+  const n = points.length;
+  const segmentCount = closed ? n : n - 1;
+
+  // Unit left-hand normal of each segment
+  const normals: Point[] = [];
+  for (let i = 0; i < segmentCount; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % n];
+    const len = distance(a, b);
+    normals.push({ x: -(b.y - a.y) / len, y: (b.x - a.x) / len });
+  }
 
-  // Check if curve is flat enough using distance from control points to chord
-  const flatness = cubicBezierFlatness(p0, p1, p2, p3);
-
-  if (flatness <= tolerance) {
-    // Flat enough - just add the endpoint
-    points.push(p3);
-  } else {
-    // Subdivide using de Casteljau's algorithm at t=0.5
-    const mid01 = midpoint(p0, p1);
-    const mid12 = midpoint(p1, p2);
-    const mid23 = midpoint(p2, p3);
-    const mid012 = midpoint(mid01, mid12);
-    const mid123 = midpoint(mid12, mid23);
-    const mid0123 = midpoint(mid012, mid123);
+  const result: Point[] = [];
+  for (let i = 0; i < n; i++) {
+    const p = points[i];
+    const hasPrev = closed || i > 0;
+    const hasNext = closed || i < n - 1;
+
+    if (!hasPrev || !hasNext) {
+      // Open path end: offset straight out from the single segment
+      const normal = hasNext ? normals[i] : normals[i - 1];
+      result.push({ x: p.x + normal.x * offset, y: p.y + normal.y * offset });
+      continue;
+    }
 
-    // Recurse on both halves
-    points.push(...linearizeCubicBezier(p0, mid01, mid012, mid0123, tolerance));
-    points.push(...linearizeCubicBezier(mid0123, mid123, mid23, p3, tolerance));
+    const n1 = normals[(i - 1 + segmentCount) % segmentCount];
+    const n2 = normals[i % segmentCount];
+    result.push(...offsetCorner(p, n1, n2, offset, join, miterLimit));
   }
 
-  return points;
+  if (closed) {
+    result.push({ ...result[0] });
+  }
+  return result;
 }
 
-// Linearize a quadratic bezier by converting to cubic
-// p0 = start, p1 = control, p2 = end
-function linearizeQuadraticBezier(
-  p0: Point, p1: Point, p2: Point,
-  tolerance: number = BEZIER_TOLERANCE
+// Offset points for the corner at p between segments with normals n1 and n2
+function offsetCorner(
+  p: Point, n1: Point, n2: Point, offset: number,
+  join: StrokeJoin, miterLimit: number
 ): Point[] {
-  // Convert quadratic to cubic: cubic control points are at 2/3 along quad control
-  const cp1: Point = {
-    x: p0.x + (2/3) * (p1.x - p0.x),
-    y: p0.y + (2/3) * (p1.y - p0.y)
-  };
-  const cp2: Point = {
-    x: p2.x + (2/3) * (p1.x - p2.x),
-    y: p2.y + (2/3) * (p1.y - p2.y)
-  };
-  return linearizeCubicBezier(p0, cp1, cp2, p2, tolerance);
-}
+  const dot = n1.x * n2.x + n1.y * n2.y;
+  const cross = n1.x * n2.y - n1.y * n2.x;
 
-// Calculate flatness of cubic bezier (max distance from control points to chord)
-function cubicBezierFlatness(p0: Point, p1: Point, p2: Point, p3: Point): number {
-  // Use simplified flatness test: max perpendicular distance of control points to chord
-  const d1 = pointToLineDistance(p1, p0, p3);
-  const d2 = pointToLineDistance(p2, p0, p3);
-  return Math.max(d1, d2);
-}
+  // Nearly straight: a single offset point is enough
+  if (dot > 0.9999) {
+    return [{ x: p.x + n1.x * offset, y: p.y + n1.y * offset }];
+  }
 
-// Distance from point p to line defined by points a and b
-function pointToLineDistance(p: Point, a: Point, b: Point): number {
-  const dx = b.x - a.x;
-  const dy = b.y - a.y;
-  const lengthSq = dx * dx + dy * dy;
+  // Miter point: where the two offset segments intersect
+  const miterScale = offset / (1 + dot);
+  const miter = { x: p.x + (n1.x + n2.x) * miterScale, y: p.y + (n1.y + n2.y) * miterScale };
+  const miterRatio = Math.sqrt(2 / (1 + dot)); // miter length / offset
 
-  if (lengthSq === 0) {
-    // a and b are the same point
-    return Math.sqrt((p.x - a.x) ** 2 + (p.y - a.y) ** 2);
+  // Inner corner (offset towards the turn) - always use the miter point
+  const isOuter = cross * offset < 0;
+  if (!isOuter) {
+    return dot > -0.9999 ? [miter] : [{ x: p.x + n1.x * offset, y: p.y + n1.y * offset }];
   }
 
-  // Perpendicular distance using cross product
-  const cross = Math.abs((p.x - a.x) * dy - (p.y - a.y) * dx);
-  return cross / Math.sqrt(lengthSq);
-}
+  const start = { x: p.x + n1.x * offset, y: p.y + n1.y * offset };
+  const end = { x: p.x + n2.x * offset, y: p.y + n2.y * offset };
 
-function midpoint(a: Point, b: Point): Point {
-  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+  if (join === 'MITER' && miterRatio <= miterLimit) {
+    return [miter];
+  }
+
+  if (join === 'ROUND') {
+    // Arc around p from the first offset point to the second
+    const radius = Math.abs(offset);
+    const a1 = Math.atan2(start.y - p.y, start.x - p.x);
+    let sweep = Math.atan2(end.y - p.y, end.x - p.x) - a1;
+    if (sweep > Math.PI) sweep -= Math.PI * 2;
+    if (sweep < -Math.PI) sweep += Math.PI * 2;
+
+    const steps = Math.max(2, arcSegmentCount(radius, Math.abs(sweep)));
+    const arc: Point[] = [];
+    for (let i = 0; i <= steps; i++) {
+      const angle = a1 + sweep * i / steps;
+      arc.push({ x: p.x + Math.cos(angle) * radius, y: p.y + Math.sin(angle) * radius });
+    }
+    return arc;
+  }
+
+  // Bevel (or miter exceeding the limit)
+  return [start, end];
 }
 
-// Calculate Hershey text dimensions without creating paths
-function measureHersheyText(text: string): { width: number; height: number } {
-  const lines = text.split('\n');
-  let maxWidth = 0;
+// Parse each subpath of SVG path data as a separate closed ring
+function subpathRings(data: string, node: SceneNode): Point[][] {
+  return parsePathData(data, node)
+    .map(path => path.points)
+    .filter(ring => ring.length >= 3);
+}
 
-  for (const line of lines) {
-    let lineWidth = 0;
-    for (const char of line) {
-      const glyph = HERSHEY_FONT[char];
-      lineWidth += glyph ? glyph.width : (HERSHEY_FONT[' ']?.width || 16);
+// Add the closed outlines and fillable regions of a node's fill geometry: the exact shape
+// Figma renders, including rounded and smoothed corners and the result of boolean operations
+function addFillGeometry(
+  node: SceneNode & GeometryMixin, color: StrokeColor | undefined, outlines: Path[], regions: Region[]
+): void {
+  for (const geometry of node.fillGeometry) {
+    for (const path of parsePathData(geometry.data, node)) {
+      path.color = color;
+      outlines.push(path);
     }
-    maxWidth = Math.max(maxWidth, lineWidth);
+    regions.push({
+      rings: subpathRings(geometry.data, node),
+      windingRule: geometry.windingRule === 'EVENODD' ? 'EVENODD' : 'NONZERO'
+    });
   }
+}
 
-  // Hershey font: characters are roughly 21 units tall, line spacing ~25 units
-  const lineHeight = 25;
-  const height = lines.length * lineHeight;
+// Generate hatch paths for a node's fill
+// Flat mode hatches in the fill color; tone mode maps lightness/opacity to density
+function hatchNodeFill(node: SceneNode, regions: Region[], settings: Settings): Path[] {
+  const fillColor = getNodeFillColor(node);
+  if (!fillColor) return [];
 
-  return { width: maxWidth, height };
-}
+  const baseSpacing = settings.hatchSpacing * settings.scale;
+  if (!(baseSpacing > 0)) return [];
+
+  let color = fillColor;
+  let layers: { angle: number; spacing: number }[];
+
+  if (settings.toneHatching) {
+    // Darker and more opaque fills get denser hatching and more layers
+    const { ink, coverage: paintCoverage } = colorToInk(fillColor);
+    const coverage = paintCoverage * getNodeOpacity(node);
+    if (coverage < MIN_TONE_COVERAGE) return [];
+
+    const maxLayers = Math.max(1, Math.floor(settings.toneLayers) || 1);
+    const layerCount = Math.min(maxLayers, Math.max(1, Math.ceil(coverage * maxLayers)));
+
+    // Spread total line density over the layers so it stays proportional to coverage
+    const spacing = baseSpacing * layerCount / coverage;
+    layers = [];
+    for (let i = 0; i < layerCount; i++) {
+      layers.push({ angle: settings.hatchAngle + i * 180 / layerCount, spacing });
+    }
+    color = ink;
+  } else {
+    layers = [{ angle: settings.hatchAngle, spacing: baseSpacing }];
+    if (settings.crossHatch) {
+      layers.push({ angle: settings.hatchAngle + 90, spacing: baseSpacing });
+    }
+  }
 
-// Convert a TextNode to single-stroke paths using Hershey font
-// Scales output to match the TextNode's actual dimensions
-function textNodeToPaths(node: TextNode, textGroupId: number): Path[] {
   const paths: Path[] = [];
-  const text = node.characters;
+  for (const layer of layers) {
+    for (const points of hatchRegions(regions, layer.angle, layer.spacing)) {
+      paths.push({ points, closed: false, color });
+    }
+  }
+  return paths;
+}
 
-  if (!text) return paths;
+// Fill regions with parallel hatch lines using a scanline algorithm
+// Lines are laid out on a global grid so neighbouring shapes line up.
+// Returns one 2-point polyline per hatch segment, alternating direction per scanline.
+function hatchRegions(regions: Region[], angleDeg: number, spacing: number): Point[][] {
+  const angle = angleDeg * Math.PI / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+
+  // Rotate so hatch lines become horizontal scanlines
+  const rotated = regions.map(region => ({
+    windingRule: region.windingRule,
+    rings: region.rings.map(ring => ring.map(p => ({
+      x: p.x * cos + p.y * sin,
+      y: -p.x * sin + p.y * cos
+    })))
+  }));
+
+  let minY = Infinity, maxY = -Infinity;
+  for (const region of rotated) {
+    for (const ring of region.rings) {
+      for (const p of ring) {
+        minY = Math.min(minY, p.y);
+        maxY = Math.max(maxY, p.y);
+      }
+    }
+  }
+  if (minY > maxY) return [];
 
-  // Get stroke color from the text node
-  const color = getNodeStrokeColor(node);
+  const segments: Point[][] = [];
+  const firstLine = Math.ceil(minY / spacing);
+  const lastLine = Math.floor(maxY / spacing);
+
+  for (let k = firstLine; k <= lastLine; k++) {
+    const y = k * spacing;
+
+    // Union of the inside intervals of every region on this scanline
+    const intervals: [number, number][] = [];
+    for (const region of rotated) {
+      intervals.push(...scanlineIntervals(region.rings, region.windingRule, y));
+    }
+    const merged = mergeIntervals(intervals);
+
+    const lineSegments = merged.map(([x0, x1]) => [
+      { x: x0 * cos - y * sin, y: x0 * sin + y * cos },
+      { x: x1 * cos - y * sin, y: x1 * sin + y * cos }
+    ]);
+
+    // Serpentine order: every other scanline runs backwards
+    if (k % 2 !== 0) {
+      lineSegments.reverse();
+      for (const segment of lineSegments) segment.reverse();
+    }
+    segments.push(...lineSegments);
+  }
+
+  return segments;
+}
+
+// Find the x-intervals of a horizontal line at y that lie inside the rings
+function scanlineIntervals(
+  rings: Point[][], windingRule: 'NONZERO' | 'EVENODD', y: number
+): [number, number][] {
+  // Collect edge crossings with their direction (+1 downward, -1 upward)
+  const crossings: { x: number; dir: number }[] = [];
+  for (const ring of rings) {
+    const n = ring.length;
+    for (let i = 0; i < n; i++) {
+      const a = ring[i];
+      const b = ring[(i + 1) % n];
+      // Half-open test so vertices on the scanline are only counted once
+      if ((a.y <= y && b.y > y) || (b.y <= y && a.y > y)) {
+        const t = (y - a.y) / (b.y - a.y);
+        crossings.push({ x: a.x + t * (b.x - a.x), dir: b.y > a.y ? 1 : -1 });
+      }
+    }
+  }
+  crossings.sort((c1, c2) => c1.x - c2.x);
+
+  const intervals: [number, number][] = [];
+  let winding = 0;
+  for (let i = 0; i < crossings.length - 1; i++) {
+    winding += crossings[i].dir;
+    const inside = windingRule === 'EVENODD' ? (i + 1) % 2 === 1 : winding !== 0;
+    if (inside && crossings[i + 1].x > crossings[i].x) {
+      intervals.push([crossings[i].x, crossings[i + 1].x]);
+    }
+  }
+  return intervals;
+}
+
+// Merge overlapping or touching intervals
+function mergeIntervals(intervals: [number, number][]): [number, number][] {
+  const sorted = [...intervals].sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval[0] <= last[1]) {
+      last[1] = Math.max(last[1], interval[1]);
+    } else {
+      merged.push([interval[0], interval[1]]);
+    }
+  }
+  return merged;
+}
+
+// Clip paths against a region, keeping the parts inside (or outside) it
+// Cut paths are split into separate open paths - nothing is drawn along the region's edge.
+function clipPaths(paths: Path[], region: Region, keepInside: boolean): Path[] {
+  const bounds = pointsBounds(region.rings.reduce<Point[]>((all, ring) => all.concat(ring), []));
+  const result: Path[] = [];
+
+  for (const path of paths) {
+    // Quick reject: paths entirely outside the region's bounding box
+    const pb = pointsBounds(path.points);
+    const disjoint = pb.maxX < bounds.minX || pb.minX > bounds.maxX ||
+      pb.maxY < bounds.minY || pb.minY > bounds.maxY;
+    if (disjoint) {
+      if (!keepInside) result.push(path);
+      continue;
+    }
+    result.push(...clipPath(path, region, keepInside));
+  }
+  return result;
+}
+
+// Clip a single path against a region
+function clipPath(path: Path, region: Region, keepInside: boolean): Path[] {
+  const pieces: Point[][] = [];
+  let current: Point[] | null = null;
+  let droppedAny = false;
+
+  for (let i = 0; i < path.points.length - 1; i++) {
+    const a = path.points[i];
+    const b = path.points[i + 1];
+
+    // Split the segment wherever it crosses a region edge
+    const ts = [0, 1];
+    for (const ring of region.rings) {
+      for (let j = 0; j < ring.length; j++) {
+        const t = segmentIntersection(a, b, ring[j], ring[(j + 1) % ring.length]);
+        if (t !== null && t > 0 && t < 1) ts.push(t);
+      }
+    }
+    ts.sort((t1, t2) => t1 - t2);
+
+    for (let k = 0; k < ts.length - 1; k++) {
+      if (ts[k + 1] - ts[k] < 1e-9) continue;
+      const mid = lerpPoint(a, b, (ts[k] + ts[k + 1]) / 2);
+      if (pointInRegion(mid, region) === keepInside) {
+        const start = lerpPoint(a, b, ts[k]);
+        const end = lerpPoint(a, b, ts[k + 1]);
+        if (!current) {
+          current = [start];
+          pieces.push(current);
+        }
+        current.push(end);
+      } else {
+        current = null;
+        droppedAny = true;
+      }
+    }
+  }
+
+  if (!droppedAny) return [path];
+
+  // A closed path cut open: join the piece crossing its seam back together
+  if (path.closed && pieces.length > 1) {
+    const first = pieces[0];
+    const last = pieces[pieces.length - 1];
+    if (distance(first[0], path.points[0]) < 1e-9 &&
+        distance(last[last.length - 1], path.points[path.points.length - 1]) < 1e-9) {
+      pieces.pop();
+      pieces[0] = last.concat(first.slice(1));
+    }
+  }
+
+  return pieces
+    .filter(points => points.length >= 2)
+    .map(points => ({ ...path, points, closed: false }));
+}
+
+// Parameter t along segment a-b where it crosses segment c-d, or null
+function segmentIntersection(a: Point, b: Point, c: Point, d: Point): number | null {
+  const rx = b.x - a.x, ry = b.y - a.y;
+  const sx = d.x - c.x, sy = d.y - c.y;
+  const denom = rx * sy - ry * sx;
+  if (Math.abs(denom) < 1e-12) return null; // Parallel
+
+  const qx = c.x - a.x, qy = c.y - a.y;
+  const t = (qx * sy - qy * sx) / denom;
+  const u = (qx * ry - qy * rx) / denom;
+  return t >= 0 && t <= 1 && u >= 0 && u <= 1 ? t : null;
+}
+
+// Test whether a point lies inside a region using its winding rule
+function pointInRegion(p: Point, region: Region): boolean {
+  let winding = 0;
+  let crossings = 0;
+  for (const ring of region.rings) {
+    const n = ring.length;
+    for (let i = 0; i < n; i++) {
+      const a = ring[i];
+      const b = ring[(i + 1) % n];
+      if ((a.y <= p.y && b.y > p.y) || (b.y <= p.y && a.y > p.y)) {
+        const x = a.x + (p.y - a.y) / (b.y - a.y) * (b.x - a.x);
+        if (x > p.x) {
+          winding += b.y > a.y ? 1 : -1;
+          crossings++;
+        }
+      }
+    }
+  }
+  return region.windingRule === 'EVENODD' ? crossings % 2 === 1 : winding !== 0;
+}
+
+// Bounding box of a set of points
+function pointsBounds(points: Point[]): { minX: number; minY: number; maxX: number; maxY: number } {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const p of points) {
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x);
+    maxY = Math.max(maxY, p.y);
+  }
+  return { minX, minY, maxX, maxY };
+}
+
+function lerpPoint(a: Point, b: Point, t: number): Point {
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+}
+
+// Number of arguments taken by each SVG path command
+const SVG_COMMAND_ARGS: { [command: string]: number } = {
+  M: 2, L: 2, H: 1, V: 1, C: 6, S: 4, Q: 4, T: 2, A: 7, Z: 0
+};
+
+// A number in SVG path data ("1.5.5" is two numbers, "1e-3" is one)
+const SVG_NUMBER = /[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/y;
+
+// Parse SVG path data into one path per subpath, following the SVG 1.1 grammar:
+// absolute and relative commands, H/V, smooth curves (S/T), elliptical arcs (A),
+// implicit command repetition, and subpaths that continue after Z.
+// Points are passed through `mapPoint` before curves are linearized, so the bezier
+// tolerance applies in output space. Parsing stops at the first error, as browsers do.
+function parseSvgPath(
+  data: string,
+  mapPoint: (x: number, y: number) => Point = (x, y) => ({ x, y })
+): Path[] {
+  const paths: Path[] = [];
+  let points: Point[] = [];
+  let closed = false;
+
+  let pos = 0;
+  const skipSeparators = () => {
+    while (pos < data.length && /[\s,]/.test(data[pos])) pos++;
+  };
+  const readNumber = (): number | null => {
+    skipSeparators();
+    SVG_NUMBER.lastIndex = pos;
+    const match = SVG_NUMBER.exec(data);
+    if (!match) return null;
+    pos += match[0].length;
+    return parseFloat(match[0]);
+  };
+  const readFlag = (): number | null => {
+    skipSeparators();
+    const flag = data[pos];
+    if (flag !== '0' && flag !== '1') return null;
+    pos++;
+    return flag === '1' ? 1 : 0;
+  };
+
+  // Finish the current subpath (single points draw nothing)
+  const endSubpath = () => {
+    if (points.length >= 2) paths.push({ points, closed });
+    points = [];
+    closed = false;
+  };
+
+  let currentX = 0, currentY = 0;     // Current point, in path coordinates
+  let startX = 0, startY = 0;         // Start of the current subpath
+  let controlX = 0, controlY = 0;     // Last control point, for S and T
+  let previous = '';                  // Previous command (uppercase), for S and T
+  let command = '';
+
+  // Start a new subpath at the current point if the last one was closed or never started
+  const ensureSubpath = () => {
+    if (points.length === 0 || closed) {
+      endSubpath();
+      points.push(mapPoint(currentX, currentY));
+    }
+  };
+
+  skipSeparators();
+  while (pos < data.length) {
+    const char = data[pos];
+    if (/[a-zA-Z]/.test(char)) {
+      if (!(char.toUpperCase() in SVG_COMMAND_ARGS)) break;
+      command = char;
+      pos++;
+    } else if (!command || command === 'Z' || command === 'z') {
+      break; // Numbers without a command
+    }
+
+    const type = command.toUpperCase();
+    if (!previous && type !== 'M') break; // Path data must start with a move-to
+    const relative = command !== type;
+    const dx = relative ? currentX : 0;
+    const dy = relative ? currentY : 0;
+
+    // Read this command's arguments (arc flags are single characters)
+    const args: number[] = [];
+    for (let i = 0; i < SVG_COMMAND_ARGS[type]; i++) {
+      const value = type === 'A' && (i === 3 || i === 4) ? readFlag() : readNumber();
+      if (value === null) break;
+      args.push(value);
+    }
+    if (args.length < SVG_COMMAND_ARGS[type]) break;
+
+    switch (type) {
+      case 'M': // Move to; further coordinate pairs are implicit line-tos
+        endSubpath();
+        currentX = startX = args[0] + dx;
+        currentY = startY = args[1] + dy;
+        points.push(mapPoint(currentX, currentY));
+        command = relative ? 'l' : 'L';
+        break;
+
+      case 'L':
+      case 'H':
+      case 'V':
+        ensureSubpath();
+        if (type !== 'V') currentX = args[0] + dx;
+        if (type === 'L') currentY = args[1] + dy;
+        if (type === 'V') currentY = args[0] + dy;
+        points.push(mapPoint(currentX, currentY));
+        break;
+
+      case 'C':
+      case 'S': {
+        ensureSubpath();
+        // S reflects the previous curve's second control point
+        const [x1, y1] = type === 'C'
+          ? [args[0] + dx, args[1] + dy]
+          : previous === 'C' || previous === 'S'
+            ? [2 * currentX - controlX, 2 * currentY - controlY]
+            : [currentX, currentY];
+        const rest = type === 'C' ? args.slice(2) : args;
+        controlX = rest[0] + dx;
+        controlY = rest[1] + dy;
+        const x = rest[2] + dx;
+        const y = rest[3] + dy;
+        points.push(...linearizeCubicBezier(
+          mapPoint(currentX, currentY), mapPoint(x1, y1), mapPoint(controlX, controlY), mapPoint(x, y)
+        ));
+        currentX = x;
+        currentY = y;
+        break;
+      }
+
+      case 'Q':
+      case 'T': {
+        ensureSubpath();
+        // T reflects the previous curve's control point
+        if (type === 'Q') {
+          controlX = args[0] + dx;
+          controlY = args[1] + dy;
+        } else if (previous === 'Q' || previous === 'T') {
+          controlX = 2 * currentX - controlX;
+          controlY = 2 * currentY - controlY;
+        } else {
+          controlX = currentX;
+          controlY = currentY;
+        }
+        const x = (type === 'Q' ? args[2] : args[0]) + dx;
+        const y = (type === 'Q' ? args[3] : args[1]) + dy;
+        points.push(...linearizeQuadraticBezier(
+          mapPoint(currentX, currentY), mapPoint(controlX, controlY), mapPoint(x, y)
+        ));
+        currentX = x;
+        currentY = y;
+        break;
+      }
+
+      case 'A': {
+        ensureSubpath();
+        const x = args[5] + dx;
+        const y = args[6] + dy;
+        for (const p of arcToPoints(currentX, currentY, args[0], args[1], args[2], args[3] === 1, args[4] === 1, x, y)) {
+          points.push(mapPoint(p.x, p.y));
+        }
+        currentX = x;
+        currentY = y;
+        break;
+      }
+
+      case 'Z': // Close path; drawing continues from the subpath's start
+        if (points.length > 0 && !closed) {
+          closed = true;
+          const first = points[0];
+          const last = points[points.length - 1];
+          // Add first point again if needed for closed path
+          if (last.x !== first.x || last.y !== first.y) {
+            points.push({ ...first });
+          }
+        }
+        currentX = startX;
+        currentY = startY;
+        break;
+    }
+    previous = type;
+    skipSeparators();
+  }
+
+  endSubpath();
+  return paths;
+}
+
+// Points along an SVG elliptical arc from (x1, y1) to (x2, y2), excluding the start
+// Converts the endpoint form to center form as in SVG 1.1 appendix F.6
+function arcToPoints(
+  x1: number, y1: number, rx: number, ry: number, rotationDeg: number,
+  largeArc: boolean, sweep: boolean, x2: number, y2: number
+): Point[] {
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  if (rx === 0 || ry === 0) return [{ x: x2, y: y2 }]; // Degenerate arcs are straight lines
+  if (x1 === x2 && y1 === y2) return [];
+
+  const phi = rotationDeg * Math.PI / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+
+  // Midpoint in the ellipse's rotated frame
+  const mx = cos * (x1 - x2) / 2 + sin * (y1 - y2) / 2;
+  const my = -sin * (x1 - x2) / 2 + cos * (y1 - y2) / 2;
+
+  // Scale up radii that are too small to reach the endpoint
+  const lambda = (mx * mx) / (rx * rx) + (my * my) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * my * my - ry * ry * mx * mx;
+  const denominator = rx * rx * my * my + ry * ry * mx * mx;
+  let factor = Math.sqrt(Math.max(0, numerator / denominator));
+  if (largeArc === sweep) factor = -factor;
+  const cxPrime = factor * rx * my / ry;
+  const cyPrime = -factor * ry * mx / rx;
+
+  const cx = cos * cxPrime - sin * cyPrime + (x1 + x2) / 2;
+  const cy = sin * cxPrime + cos * cyPrime + (y1 + y2) / 2;
+
+  const angleOf = (ux: number, uy: number) => Math.atan2(uy, ux);
+  const startAngle = angleOf((mx - cxPrime) / rx, (my - cyPrime) / ry);
+  let delta = angleOf((-mx - cxPrime) / rx, (-my - cyPrime) / ry) - startAngle;
+  if (sweep && delta < 0) delta += Math.PI * 2;
+  if (!sweep && delta > 0) delta -= Math.PI * 2;
+
+  const count = Math.max(1, arcSegmentCount(Math.max(rx, ry), Math.abs(delta)));
+  const points: Point[] = [];
+  for (let i = 1; i <= count; i++) {
+    const angle = startAngle + delta * i / count;
+    const ex = rx * Math.cos(angle);
+    const ey = ry * Math.sin(angle);
+    points.push({ x: cos * ex - sin * ey + cx, y: sin * ex + cos * ey + cy });
+  }
+  // Land exactly on the endpoint
+  points[points.length - 1] = { x: x2, y: y2 };
+  return points;
+}
+
+// Parse a Figma vector path (node-local SVG path data) into absolute paths, one per subpath
+function parsePathData(data: string, node: SceneNode): Path[] {
+  // Get the node's absolute transform to convert local coords to absolute
+  const transform = node.absoluteTransform;
+  return parseSvgPath(data, (x, y) => transformPoint(x, y, transform));
+}
+
+function transformPoint(x: number, y: number, transform: Transform): Point {
+  // Apply 2D affine transform
+  // transform is [[a, c, e], [b, d, f]] representing:
+  // newX = a*x + c*y + e
+  // newY = b*x + d*y + f
+  return {
+    x: transform[0][0] * x + transform[0][1] * y + transform[0][2],
+    y: transform[1][0] * x + transform[1][1] * y + transform[1][2]
+  };
+}
+
+// Linearize a cubic bezier curve using adaptive subdivision
+// p0 = start, p1 = control1, p2 = control2, p3 = end
+// Returns array of points (excluding p0, which is already in the path)
+function linearizeCubicBezier(
+  p0: Point, p1: Point, p2: Point, p3: Point,
+  tolerance: number = BEZIER_TOLERANCE
+): Point[] {
+  const points: Point[] = [];
+
+  // Check if curve is flat enough using distance from control points to chord
+  const flatness = cubicBezierFlatness(p0, p1, p2, p3);
+
+  if (flatness <= tolerance) {
+    // Flat enough - just add the endpoint
+    points.push(p3);
+  } else {
+    // Subdivide using de Casteljau's algorithm at t=0.5
+    const mid01 = midpoint(p0, p1);
+    const mid12 = midpoint(p1, p2);
+    const mid23 = midpoint(p2, p3);
+    const mid012 = midpoint(mid01, mid12);
+    const mid123 = midpoint(mid12, mid23);
+    const mid0123 = midpoint(mid012, mid123);
+
+    // Recurse on both halves
+    points.push(...linearizeCubicBezier(p0, mid01, mid012, mid0123, tolerance));
+    points.push(...linearizeCubicBezier(mid0123, mid123, mid23, p3, tolerance));
+  }
+
+  return points;
+}
+
+// Linearize a quadratic bezier by converting to cubic
+// p0 = start, p1 = control, p2 = end
+function linearizeQuadraticBezier(
+  p0: Point, p1: Point, p2: Point,
+  tolerance: number = BEZIER_TOLERANCE
+): Point[] {
+  // Convert quadratic to cubic: cubic control points are at 2/3 along quad control
+  const cp1: Point = {
+    x: p0.x + (2/3) * (p1.x - p0.x),
+    y: p0.y + (2/3) * (p1.y - p0.y)
+  };
+  const cp2: Point = {
+    x: p2.x + (2/3) * (p1.x - p2.x),
+    y: p2.y + (2/3) * (p1.y - p2.y)
+  };
+  return linearizeCubicBezier(p0, cp1, cp2, p2, tolerance);
+}
+
+// Calculate flatness of cubic bezier (max distance from control points to chord)
+function cubicBezierFlatness(p0: Point, p1: Point, p2: Point, p3: Point): number {
+  // Use simplified flatness test: max perpendicular distance of control points to chord
+  const d1 = pointToLineDistance(p1, p0, p3);
+  const d2 = pointToLineDistance(p2, p0, p3);
+  return Math.max(d1, d2);
+}
+
+// Distance from point p to line defined by points a and b
+function pointToLineDistance(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+
+  if (lengthSq === 0) {
+    // a and b are the same point
+    return Math.sqrt((p.x - a.x) ** 2 + (p.y - a.y) ** 2);
+  }
+
+  // Perpendicular distance using cross product
+  const cross = Math.abs((p.x - a.x) * dy - (p.y - a.y) * dx);
+  return cross / Math.sqrt(lengthSq);
+}
+
+function midpoint(a: Point, b: Point): Point {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+// A user rule choosing the Hershey face for matching Figma fonts
+interface FontMapping {
+  pattern: RegExp; // Matched against "Family" and "Family Style"
+  face: string;
+}
+
+// Parse "Family Style = face" rules, one per line or separated by ';'
+// '*' in a pattern matches anything; rules naming an unknown face are returned as invalid
+function parseFontMappings(text: string): { mappings: FontMapping[]; invalid: string[] } {
+  const mappings: FontMapping[] = [];
+  const invalid: string[] = [];
+
+  for (const entry of (text || '').split(/[\n;]/)) {
+    const rule = entry.trim();
+    if (!rule) continue;
+
+    const eq = rule.lastIndexOf('=');
+    const pattern = eq > 0 ? rule.slice(0, eq).trim() : '';
+    const face = eq > 0 ? rule.slice(eq + 1).trim().toLowerCase() : '';
+    if (!pattern || !Object.prototype.hasOwnProperty.call(HERSHEY_FACES, face)) {
+      invalid.push(rule);
+      continue;
+    }
+
+    const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    mappings.push({ pattern: new RegExp(`^${source}$`, 'i'), face });
+  }
+
+  return { mappings, invalid };
+}
+
+// Pick the Hershey face for a Figma font: the first matching user rule,
+// otherwise a guess from the family name and style
+function hersheyFaceForFont(font: FontName, mappings: FontMapping[]): string {
+  const fullName = `${font.family} ${font.style}`;
+  for (const mapping of mappings) {
+    if (mapping.pattern.test(font.family) || mapping.pattern.test(fullName)) {
+      return mapping.face;
+    }
+  }
+
+  const family = font.family.toLowerCase();
+  const style = font.style.toLowerCase();
+  const bold = /bold|black|heavy/.test(style);
+  const italic = /italic|oblique/.test(style);
+
+  if (family === 'symbol') return 'greek';
+  if (/script|hand|brush|cursive|callig/.test(family)) return 'script';
+  if (/blackletter|fraktur|textura|old english|gothic english/.test(family)) return 'gothic';
+
+  const serif = (family.indexOf('serif') >= 0 && family.indexOf('sans') < 0) ||
+    /times|georgia|garamond|baskerville|caslon|bodoni|didot|palatino|cambria|merriweather|playfair|lora/.test(family);
+  if (serif) return italic ? 'italic' : bold ? 'triplex' : 'complex';
+
+  return bold ? 'duplex' : 'simplex';
+}
+
+// Glyphs built from other glyphs, cached by face and character
+const composedGlyphs: { [key: string]: HersheyGlyph | null } = {};
+
+// Find the glyph for a character in a Hershey face, building accented letters,
+// Greek letters, symbols and typographic punctuation from existing glyphs when needed
+function getHersheyGlyph(char: string, face: string): HersheyGlyph | undefined {
+  const glyph = HERSHEY_FACES[face][char];
+  if (glyph) return glyph;
+
+  const key = `${face}:${char}`;
+  if (!(key in composedGlyphs)) {
+    composedGlyphs[key] = composeHersheyGlyph(char, face);
+  }
+  return composedGlyphs[key] || undefined;
+}
+
+function composeHersheyGlyph(char: string, face: string): HersheyGlyph | null {
+  const greekIndex = GREEK_LETTERS.indexOf(char);
+  if (greekIndex >= 0) return HERSHEY_GREEK[GREEK_KEYS[greekIndex]];
+
+  const alias = CHARACTER_ALIASES[char];
+  if (alias !== undefined) {
+    const parts: HersheyGlyph[] = [];
+    for (const part of alias) {
+      const glyph = getHersheyGlyph(part, face);
+      if (!glyph) return null;
+      parts.push(glyph);
+    }
+    return joinGlyphs(parts);
+  }
+
+  for (const diacritic in ACCENTED_LETTERS) {
+    const letters = ACCENTED_LETTERS[diacritic];
+    for (let i = 0; i < letters.length; i += 2) {
+      if (letters[i] !== char) continue;
+      const base = getHersheyGlyph(letters[i + 1], face);
+      return base ? addDiacritic(base, diacritic, face) : null;
+    }
+  }
+
+  if (char === '¡' || char === '¿') {
+    const base = getHersheyGlyph(char === '¡' ? '!' : '?', face);
+    return base ? invertGlyph(base, face) : null;
+  }
+
+  const symbol = HERSHEY_SYMBOLS[char];
+  if (symbol) return symbol;
+
+  const spacingDiacritic = SPACING_DIACRITICS[char];
+  if (spacingDiacritic) {
+    // Place the mark as on a lowercase letter, then drop the letter
+    const base = getHersheyGlyph(spacingDiacritic === 'cedilla' ? 'c' : 'o', face);
+    if (!base) return null;
+    const accented = addDiacritic(base, spacingDiacritic, face);
+    return { width: base.width, strokes: accented.strokes.slice(base.strokes.length) };
+  }
+
+  // Letters and figures built from Latin glyphs; the Greek face stores Greek letters under those keys
+  const latinFace = face === 'greek' ? 'simplex' : face;
+  const capTop = HERSHEY_BASELINE - HERSHEY_CAP_HEIGHT;
+
+  const superscript = '¹²³ªº'.indexOf(char);
+  if (superscript >= 0) {
+    const base = getHersheyGlyph('123ao'[superscript], latinFace);
+    if (!base) return null;
+    const glyph = scaleGlyph(base, SMALL_FIGURE_SCALE, capTop);
+    // The ordinal indicators are underlined
+    if (superscript >= 3) {
+      const bounds = glyphBounds(glyph.strokes);
+      glyph.strokes.push([bounds.minX, bounds.maxY + 2, bounds.maxX, bounds.maxY + 2]);
+    }
+    return glyph;
+  }
+
+  const fraction = '¼½¾'.indexOf(char);
+  if (fraction >= 0) {
+    const digits = ['14', '12', '34'][fraction];
+    const numerator = getHersheyGlyph(digits[0], latinFace);
+    const slash = getHersheyGlyph('/', latinFace);
+    const denominator = getHersheyGlyph(digits[1], latinFace);
+    if (!numerator || !slash || !denominator) return null;
+    return joinGlyphs([
+      scaleGlyph(numerator, SMALL_FIGURE_SCALE, capTop),
+      scaleGlyph(slash, SMALL_FIGURE_SCALE, (capTop + HERSHEY_BASELINE) / 2),
+      scaleGlyph(denominator, SMALL_FIGURE_SCALE, HERSHEY_BASELINE),
+    ]);
+  }
+
+  if (char === 'Æ' || char === 'æ') {
+    const first = getHersheyGlyph(char === 'Æ' ? 'A' : 'a', latinFace);
+    const second = getHersheyGlyph(char === 'Æ' ? 'E' : 'e', latinFace);
+    if (!first || !second) return null;
+    // Butt the second letter against the first
+    const offset = glyphBounds(first.strokes).maxX - glyphBounds(second.strokes).minX;
+    const strokes = first.strokes.concat(second.strokes.map(stroke =>
+      stroke.map((v, i) => i % 2 === 0 ? v + offset : v)
+    ));
+    return { width: offset + second.width, strokes };
+  }
+
+  if (char === 'Ð') {
+    const base = getHersheyGlyph('D', latinFace);
+    if (!base) return null;
+    const bounds = glyphBounds(base.strokes);
+    const y = Math.round((bounds.minY + bounds.maxY) / 2);
+    return { width: base.width, strokes: base.strokes.concat([[bounds.minX - 2, y, bounds.minX + 5, y]]) };
+  }
+
+  if (char === '©' || char === '®') {
+    const letter = getHersheyGlyph(char === '©' ? 'C' : 'R', latinFace);
+    if (!letter) return null;
+    return encircleGlyph(letter);
+  }
+
+  // Faces without a character borrow it from simplex, e.g. Latin J and V in the Greek face
+  if (face !== 'simplex') return getHersheyGlyph(char, 'simplex') || null;
+
+  return null;
+}
+
+// Bounding box of glyph strokes in font units
+function glyphBounds(strokes: number[][]): { minX: number; minY: number; maxX: number; maxY: number } {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const stroke of strokes) {
+    for (let i = 0; i < stroke.length; i += 2) {
+      minX = Math.min(minX, stroke[i]);
+      maxX = Math.max(maxX, stroke[i]);
+      minY = Math.min(minY, stroke[i + 1]);
+      maxY = Math.max(maxY, stroke[i + 1]);
+    }
+  }
+  return { minX, minY, maxX, maxY };
+}
+
+// Place glyphs side by side as a single glyph
+function joinGlyphs(glyphs: HersheyGlyph[]): HersheyGlyph {
+  const strokes: number[][] = [];
+  let offset = 0;
+  for (const glyph of glyphs) {
+    for (const stroke of glyph.strokes) {
+      strokes.push(stroke.map((v, i) => i % 2 === 0 ? v + offset : v));
+    }
+    offset += glyph.width;
+  }
+  return { width: offset, strokes };
+}
+
+// Add a diacritic mark above (or, for a cedilla, below) a base letter
+function addDiacritic(base: HersheyGlyph, diacritic: string, face: string): HersheyGlyph {
+  const glyphs = HERSHEY_FACES[face];
+  let strokes = base.strokes;
+
+  // i and j lose their dot under an accent; the dot is whatever sits above the x-height
+  if (base === glyphs['i'] || base === glyphs['j']) {
+    const xHeight = glyphBounds(glyphs['x'].strokes).minY;
+    strokes = strokes.filter(stroke => glyphBounds([stroke]).maxY >= xHeight);
+  }
+
+  const bounds = glyphBounds(strokes);
+  const cx = Math.round((bounds.minX + bounds.maxX) / 2);
+  const b = bounds.minY - 2; // Bottom of a mark above the letter
+  let mark: number[][];
+
+  switch (diacritic) {
+    case 'grave':
+      mark = [[cx - 2, b - 3, cx + 1, b]];
+      break;
+    case 'acute':
+      mark = [[cx + 2, b - 3, cx - 1, b]];
+      break;
+    case 'circumflex':
+      mark = [[cx - 3, b, cx, b - 3, cx + 3, b]];
+      break;
+    case 'tilde':
+      mark = [[cx - 4, b - 1, cx - 3, b - 2, cx - 1, b - 2, cx + 1, b - 1, cx + 3, b - 1, cx + 4, b - 2]];
+      break;
+    case 'diaeresis':
+      mark = [cx - 3, cx + 3].map(x => [x, b - 2, x - 1, b - 1, x, b, x + 1, b - 1, x, b - 2]);
+      break;
+    case 'ring':
+      mark = [[cx, b - 4, cx - 2, b - 3, cx - 2, b - 1, cx, b, cx + 2, b - 1, cx + 2, b - 3, cx, b - 4]];
+      break;
+    case 'macron':
+      mark = [[cx - 3, b - 1, cx + 3, b - 1]];
+      break;
+    case 'dialytikaTonos':
+      mark = [cx - 3, cx + 3].map(x => [x, b - 2, x - 1, b - 1, x, b, x + 1, b - 1, x, b - 2]);
+      mark.push([cx + 1, b - 4, cx, b]);
+      break;
+    case 'cedilla':
+      mark = [[cx, bounds.maxY, cx, bounds.maxY + 2, cx + 2, bounds.maxY + 3, cx + 2, bounds.maxY + 4, cx, bounds.maxY + 5, cx - 2, bounds.maxY + 5]];
+      break;
+    default: // slash
+      mark = [[bounds.maxX + 1, bounds.minY - 1, bounds.minX - 1, bounds.maxY + 1]];
+  }
+
+  return { width: base.width, strokes: strokes.concat(mark) };
+}
+
+// Shrink a glyph towards a horizontal line, for superscripts and fractions
+function scaleGlyph(glyph: HersheyGlyph, factor: number, anchorY: number): HersheyGlyph {
+  const strokes = glyph.strokes.map(stroke =>
+    stroke.map((v, i) => i % 2 === 0 ? v * factor : anchorY + (v - anchorY) * factor)
+  );
+  return { width: glyph.width * factor, strokes };
+}
+
+// Draw a half-size letter inside a cap-height circle, for © and ®
+function encircleGlyph(letter: HersheyGlyph): HersheyGlyph {
+  const radius = HERSHEY_CAP_HEIGHT / 2;
+  const cx = radius + 2;
+  const cy = HERSHEY_BASELINE - radius;
+
+  const circle: number[] = [];
+  for (let i = 0; i <= 24; i++) {
+    const angle = i / 24 * Math.PI * 2;
+    circle.push(cx + Math.cos(angle) * radius, cy + Math.sin(angle) * radius);
+  }
+
+  const scaled = scaleGlyph(letter, 0.5, cy);
+  const bounds = glyphBounds(scaled.strokes);
+  const dx = cx - (bounds.minX + bounds.maxX) / 2;
+  const strokes = scaled.strokes.map(stroke => stroke.map((v, i) => i % 2 === 0 ? v + dx : v));
+  return { width: cx * 2, strokes: [circle].concat(strokes) };
+}
+
+// Turn a glyph upside down and hang it from the x-height, for ¡ and ¿
+function invertGlyph(glyph: HersheyGlyph, face: string): HersheyGlyph {
+  const bounds = glyphBounds(glyph.strokes);
+  const xHeight = glyphBounds(HERSHEY_FACES[face]['x'].strokes).minY;
+  const flipY = bounds.maxY + xHeight;
+
+  const strokes = glyph.strokes.map(stroke =>
+    stroke.map((v, i) => i % 2 === 0 ? glyph.width - v : flipY - v)
+  );
+  return { width: glyph.width, strokes };
+}
+
+// A character of a text node with the glyph and metrics of its text style
+interface TextChar {
+  char: string;
+  glyph: HersheyGlyph;
+  scale: number;      // Pixels per Hershey unit
+  advance: number;    // Horizontal advance including letter spacing (px)
+  fontSize: number;
+  lineHeight: number; // Line box height (px)
+}
+
+// A laid-out line of text, positioned in the text node's local coordinates
+interface TextLine {
+  chars: TextChar[];
+  x: number;          // Left edge of the first character
+  baseline: number;
+  wordGap: number;    // Extra space after each space character (justified text)
+}
+
+// Read the characters of a text node with the glyph and metrics of their style,
+// using the Hershey face mapped from each run's font.
+// Characters without a glyph are added to `missing` and drawn as spaces.
+function textNodeChars(node: TextNode, fontMappings: FontMapping[], missing: Set<string>): TextChar[] {
+  const chars: TextChar[] = [];
+  const segments = node.getStyledTextSegments(['fontName', 'fontSize', 'letterSpacing', 'lineHeight']);
+
+  for (const segment of segments) {
+    const face = hersheyFaceForFont(segment.fontName, fontMappings);
+    const fontSize = segment.fontSize;
+    const scale = fontSize / HERSHEY_EM;
+    const letterSpacing = segment.letterSpacing.unit === 'PIXELS'
+      ? segment.letterSpacing.value
+      : segment.letterSpacing.value / 100 * fontSize;
+    const lineHeight = segment.lineHeight.unit === 'AUTO'
+      ? (TEXT_ASCENT + TEXT_DESCENT) * fontSize
+      : segment.lineHeight.unit === 'PIXELS'
+        ? segment.lineHeight.value
+        : segment.lineHeight.value / 100 * fontSize;
+
+    for (const char of segment.characters) {
+      let glyph = getHersheyGlyph(char, face);
+      if (!glyph) {
+        if (char !== '\n' && char !== '\u2028') missing.add(char);
+        glyph = HERSHEY_FACES[face][' '];
+      }
+      chars.push({ char, glyph, scale, advance: glyph.width * scale + letterSpacing, fontSize, lineHeight });
+    }
+  }
+
+  return chars;
+}
+
+// Width of a run of characters, ignoring trailing spaces
+function textRunWidth(chars: TextChar[]): number {
+  let end = chars.length;
+  while (end > 0 && chars[end - 1].char === ' ') end--;
+  let width = 0;
+  for (let i = 0; i < end; i++) width += chars[i].advance;
+  return width;
+}
+
+// Break a paragraph into lines no wider than maxWidth, at spaces where possible
+// Words longer than a whole line are broken between characters
+function wrapParagraph(chars: TextChar[], maxWidth: number, indent: number): TextChar[][] {
+  const lines: TextChar[][] = [];
+  let start = 0;
+
+  while (start < chars.length) {
+    let width = lines.length === 0 ? indent : 0;
+    let lastSpace = -1;
+    let end = chars.length;
+
+    for (let i = start; i < chars.length; i++) {
+      if (chars[i].char === ' ') {
+        lastSpace = i;
+      } else if (i > start && width + chars[i].advance > maxWidth) {
+        end = lastSpace >= start ? lastSpace + 1 : i;
+        break;
+      }
+      width += chars[i].advance;
+    }
+
+    lines.push(chars.slice(start, end));
+    start = end;
+  }
+
+  return lines;
+}
+
+// Lay out a text node like Figma does: per-run font size, letter spacing and line height,
+// paragraph spacing and indent, wrapping for fixed-width boxes, and both alignments.
+// Font metrics are approximated, since only the Hershey glyphs are known.
+function layoutText(node: TextNode, chars: TextChar[]): TextLine[] {
+  const wrap = node.textAutoResize !== 'WIDTH_AND_HEIGHT';
+  const maxWidth = wrap ? node.width : Infinity;
+
+  // Split into paragraphs (\n) and forced line breaks (\u2028), then wrap
+  const rows: { chars: TextChar[]; style: TextChar; paragraphEnd: boolean; paragraphStart: boolean }[] = [];
+  let paragraph: TextChar[] = [];
+  let paragraphStart = true;
+  for (let i = 0; i <= chars.length; i++) {
+    const char = i < chars.length ? chars[i] : null;
+    if (char && char.char !== '\n' && char.char !== '\u2028') {
+      paragraph.push(char);
+      continue;
+    }
+
+    // Empty lines take their height from the line break (or the last character)
+    const style = char || chars[chars.length - 1];
+    const indent = paragraphStart ? node.paragraphIndent : 0;
+    const wrapped = paragraph.length > 0 ? wrapParagraph(paragraph, maxWidth, indent) : [[]];
+    const paragraphEnd = !char || char.char === '\n';
+    wrapped.forEach((line, index) => rows.push({
+      chars: line,
+      style,
+      paragraphStart: paragraphStart && index === 0,
+      paragraphEnd: paragraphEnd && index === wrapped.length - 1,
+    }));
+
+    paragraph = [];
+    paragraphStart = paragraphEnd;
+  }
+
+  // Stack line boxes; glyphs sit centered in each box, like Figma's line height
+  const lines: TextLine[] = [];
+  let y = 0;
+  let top = 0;
+  let bottom = 0;
+  rows.forEach((row, index) => {
+    let lineHeight = 0;
+    let fontSize = 0;
+    for (const char of row.chars.length > 0 ? row.chars : [row.style]) {
+      lineHeight = Math.max(lineHeight, char.lineHeight);
+      fontSize = Math.max(fontSize, char.fontSize);
+    }
+    const baseline = y + (lineHeight - (TEXT_ASCENT + TEXT_DESCENT) * fontSize) / 2 + TEXT_ASCENT * fontSize;
+
+    // Leading trim cuts the first line down to its cap height and the last to its baseline
+    const trim = node.leadingTrim === 'CAP_HEIGHT';
+    if (index === 0) top = trim ? baseline - HERSHEY_CAP_HEIGHT / HERSHEY_EM * fontSize : 0;
+    bottom = trim ? baseline : y + lineHeight;
+
+    const indent = row.paragraphStart ? node.paragraphIndent : 0;
+    const width = textRunWidth(row.chars);
+    const free = node.width - indent - width;
+    let x = indent;
+    let wordGap = 0;
+    if (node.textAlignHorizontal === 'CENTER') {
+      x += free / 2;
+    } else if (node.textAlignHorizontal === 'RIGHT') {
+      x += free;
+    } else if (node.textAlignHorizontal === 'JUSTIFIED' && !row.paragraphEnd) {
+      const spaces = row.chars.slice(0, row.chars.length - 1).filter(char => char.char === ' ').length;
+      if (spaces > 0 && free > 0) wordGap = free / spaces;
+    }
+
+    lines.push({ chars: row.chars, x, baseline, wordGap });
+    y += lineHeight + (row.paragraphEnd ? node.paragraphSpacing : 0);
+  });
+
+  // Align the block of lines vertically within the node
+  const free = node.height - (bottom - top);
+  const shift = (node.textAlignVertical === 'CENTER' ? free / 2 : node.textAlignVertical === 'BOTTOM' ? free : 0) - top;
+  for (const line of lines) line.baseline += shift;
+
+  return lines;
+}
+
+// Convert a TextNode to single-stroke paths using Hershey fonts
+// Glyphs keep their aspect ratio and are laid out like the node's own text
+function textNodeToPaths(node: TextNode, textGroupId: number, fontMappings: FontMapping[], missing: Set<string>): Path[] {
+  const paths: Path[] = [];
+
+  if (!node.characters) return paths;
+
+  // Get stroke color from the text node
+  const color = getNodeStrokeColor(node);
+
+  const lines = layoutText(node, textNodeChars(node, fontMappings, missing));
+
+  // Get the full transform (includes rotation)
+  const transform = node.absoluteTransform;
+
+  for (const line of lines) {
+    let cursorX = line.x;
+
+    for (const char of line.chars) {
+      // Each stroke in the glyph becomes a separate path
+      for (const stroke of char.glyph.strokes) {
+        if (stroke.length < 4) continue;
+
+        const points: Point[] = [];
+        for (let i = 0; i < stroke.length; i += 2) {
+          const localX = cursorX + stroke[i] * char.scale;
+          const localY = line.baseline + (stroke[i + 1] - HERSHEY_BASELINE) * char.scale;
+
+          // Apply full transform (rotation, scale, translation)
+          points.push(transformPoint(localX, localY, transform));
+        }
+
+        paths.push({ points, closed: false, color, isText: true, textGroupId });
+      }
+
+      cursorX += char.advance + (char.char === ' ' ? line.wordGap : 0);
+    }
+  }
+
+  return paths;
+}
+
+// Convert a TextNode using the font's own glyph outlines (Figma's vector outline of the text)
+// Outlines can be drawn as contours, contours plus hatching, or as approximate centerlines.
+function textNodeToOutlines(node: TextNode, textGroupId: number, settings: Settings): Path[] {
+  const color = getNodeStrokeColor(node);
+  const contours: Path[] = [];
+  const regions: Region[] = [];
+  addFillGeometry(node, color, contours, regions);
+
+  let paths: Path[];
+  if (settings.outlineFill === 'centerline') {
+    // Resolution follows the smallest font size so thin stems survive rasterization
+    let fontSize = Infinity;
+    for (const segment of node.getStyledTextSegments(['fontSize'])) {
+      fontSize = Math.min(fontSize, segment.fontSize);
+    }
+    const cellSize = (isFinite(fontSize) ? fontSize : 12) / CENTERLINE_CELLS_PER_EM;
+    paths = regionCenterlines(regions, cellSize).map(points => ({
+      points,
+      closed: points.length > 2 && distance(points[0], points[points.length - 1]) === 0,
+      color
+    }));
+  } else {
+    paths = contours;
+    if (settings.outlineFill === 'hatch') {
+      paths.push(...hatchNodeFill(node, regions, settings));
+    }
+  }
+
+  for (const path of paths) {
+    path.isText = true;
+    path.textGroupId = textGroupId;
+  }
+  return paths;
+}
+
+// Approximate the centerlines of filled regions: rasterize them, thin the raster
+// to a one-cell-wide skeleton (Zhang–Suen) and trace the skeleton into polylines
+function regionCenterlines(regions: Region[], cellSize: number): Point[][] {
+  const allPoints: Point[] = [];
+  for (const region of regions) {
+    for (const ring of region.rings) {
+      for (const p of ring) allPoints.push(p);
+    }
+  }
+  if (allPoints.length === 0 || !(cellSize > 0)) return [];
+
+  // Grid with a border of empty cells, coarsened if it would get too large
+  const bounds = pointsBounds(allPoints);
+  const pad = 2;
+  let cell = cellSize;
+  const cellCount = ((bounds.maxX - bounds.minX) / cell + 2 * pad) * ((bounds.maxY - bounds.minY) / cell + 2 * pad);
+  if (cellCount > MAX_CENTERLINE_CELLS) {
+    cell *= Math.sqrt(cellCount / MAX_CENTERLINE_CELLS);
+  }
+  const width = Math.ceil((bounds.maxX - bounds.minX) / cell) + 2 * pad;
+  const height = Math.ceil((bounds.maxY - bounds.minY) / cell) + 2 * pad;
+  const originX = bounds.minX - pad * cell;
+  const originY = bounds.minY - pad * cell;
+
+  // Rasterize: a cell is set when its center is inside any region
+  const grid = new Uint8Array(width * height);
+  for (let row = 0; row < height; row++) {
+    const y = originY + (row + 0.5) * cell;
+    const intervals: [number, number][] = [];
+    for (const region of regions) {
+      intervals.push(...scanlineIntervals(region.rings, region.windingRule, y));
+    }
+    for (const [x0, x1] of mergeIntervals(intervals)) {
+      const first = Math.max(0, Math.ceil((x0 - originX) / cell - 0.5));
+      const last = Math.min(width - 1, Math.floor((x1 - originX) / cell - 0.5));
+      for (let col = first; col <= last; col++) grid[row * width + col] = 1;
+    }
+  }
+
+  thinGrid(grid, width, height);
+
+  return traceSkeleton(grid, width, height).map(cells => simplifyPolyline(
+    cells.map(index => ({
+      x: originX + (index % width + 0.5) * cell,
+      y: originY + (Math.floor(index / width) + 0.5) * cell
+    })),
+    cell
+  ));
+}
+
+// Zhang–Suen thinning, in place: peel boundary cells until a one-cell-wide skeleton remains
+function thinGrid(grid: Uint8Array, width: number, height: number): void {
+  const remove: number[] = [];
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+    for (let step = 0; step < 2; step++) {
+      remove.length = 0;
+      for (let row = 1; row < height - 1; row++) {
+        for (let col = 1; col < width - 1; col++) {
+          const i = row * width + col;
+          if (!grid[i]) continue;
+
+          // Neighbors clockwise from north: p2..p9
+          const n = [
+            grid[i - width], grid[i - width + 1], grid[i + 1], grid[i + width + 1],
+            grid[i + width], grid[i + width - 1], grid[i - 1], grid[i - width - 1]
+          ];
+          const count = n[0] + n[1] + n[2] + n[3] + n[4] + n[5] + n[6] + n[7];
+          if (count < 2 || count > 6) continue;
+
+          let transitions = 0;
+          for (let k = 0; k < 8; k++) {
+            if (!n[k] && n[(k + 1) % 8]) transitions++;
+          }
+          if (transitions !== 1) continue;
+
+          if (step === 0 ? (n[0] && n[2] && n[4]) || (n[2] && n[4] && n[6])
+                         : (n[0] && n[2] && n[6]) || (n[0] && n[4] && n[6])) {
+            continue;
+          }
+          remove.push(i);
+        }
+      }
+      for (const i of remove) grid[i] = 0;
+      if (remove.length > 0) changed = true;
+    }
+  }
+}
+
+// Follow a one-cell-wide skeleton from its ends and junctions, returning each branch
+// (and each closed loop) as a list of cell indices. Short spurs left by thinning are dropped.
+function traceSkeleton(grid: Uint8Array, width: number, height: number): number[][] {
+  // Orthogonal neighbors, then diagonal ones that aren't already reached through an orthogonal neighbor
+  // (so corners of the skeleton don't look like junctions)
+  const orthogonal = [-width, 1, width, -1];
+  const neighbors = (i: number): number[] => {
+    const row = Math.floor(i / width);
+    const col = i % width;
+    const result: number[] = [];
+    if (row === 0 || col === 0 || row === height - 1 || col === width - 1) return result;
+    for (let k = 0; k < 4; k++) {
+      const a = orthogonal[k];
+      const b = orthogonal[(k + 1) % 4];
+      if (grid[i + a]) result.push(i + a);
+      if (grid[i + a + b] && !grid[i + a] && !grid[i + b]) result.push(i + a + b);
+    }
+    return result;
+  };
+
+  const visited = new Set<number>(); // Edges, keyed by their lower and higher cell index
+  const edgeKey = (a: number, b: number) => Math.min(a, b) * grid.length + Math.max(a, b);
+  const walk = (start: number, next: number): number[] => {
+    const cells = [start];
+    let previous = start;
+    let current = next;
+    visited.add(edgeKey(previous, current));
+    while (current !== start) {
+      cells.push(current);
+      const onward = neighbors(current).filter(i => i !== previous && !visited.has(edgeKey(current, i)));
+      if (neighbors(current).length !== 2 || onward.length === 0) break;
+      visited.add(edgeKey(current, onward[0]));
+      previous = current;
+      current = onward[0];
+    }
+    if (current === start) cells.push(start);
+    return cells;
+  };
+
+  const branches: number[][] = [];
+
+  // Branches start at ends and junctions
+  for (let i = 0; i < grid.length; i++) {
+    if (!grid[i]) continue;
+    const around = neighbors(i);
+    if (around.length === 2) continue;
+    for (const next of around) {
+      if (visited.has(edgeKey(i, next))) continue;
+      const cells = walk(i, next);
+      const end = cells[cells.length - 1];
+      const isSpur = (around.length === 1) !== (neighbors(end).length === 1) && cells.length < SPUR_CELLS;
+      if (!isSpur) branches.push(cells);
+    }
+  }
+
+  // Whatever is left are closed loops
+  for (let i = 0; i < grid.length; i++) {
+    if (!grid[i]) continue;
+    for (const next of neighbors(i)) {
+      if (!visited.has(edgeKey(i, next))) branches.push(walk(i, next));
+    }
+  }
+
+  return branches.filter(cells => cells.length >= 2);
+}
+
+// Rectangle outline with circular corners
+// Each corner's radius is clamped to half the shorter side, as Figma does
+function rectangleToPath(rect: RectangleNode): Path {
+  const transform = rect.absoluteTransform;
+  const w = rect.width;
+  const h = rect.height;
+  const limit = Math.min(w, h) / 2;
+
+  // Corners clockwise from top-left, with the angle at which each corner's arc starts
+  const corners = [
+    { x: 0, y: 0, radius: rect.topLeftRadius, start: Math.PI },
+    { x: w, y: 0, radius: rect.topRightRadius, start: -Math.PI / 2 },
+    { x: w, y: h, radius: rect.bottomRightRadius, start: 0 },
+    { x: 0, y: h, radius: rect.bottomLeftRadius, start: Math.PI / 2 }
+  ];
+
+  const points: Point[] = [];
+  for (const corner of corners) {
+    const radius = Math.min(Math.max(corner.radius || 0, 0), limit);
+    if (radius === 0) {
+      points.push(transformPoint(corner.x, corner.y, transform));
+      continue;
+    }
+
+    // Arc around a center inset from the corner by the radius
+    const cx = corner.x === 0 ? radius : w - radius;
+    const cy = corner.y === 0 ? radius : h - radius;
+    const count = Math.max(2, arcSegmentCount(radius, Math.PI / 2));
+    for (let i = 0; i <= count; i++) {
+      const angle = corner.start + (i / count) * Math.PI / 2;
+      points.push(transformPoint(cx + radius * Math.cos(angle), cy + radius * Math.sin(angle), transform));
+    }
+  }
+  points.push({ ...points[0] }); // Close
+
+  return { points, closed: true };
+}
+
+// Convert an ellipse to closed paths, honoring its arc settings:
+// a partial sweep becomes a pie slice (or a ring segment when it has an inner radius),
+// and a full ellipse with an inner radius becomes an outer and an inner ring
+function ellipseToPaths(ellipse: EllipseNode): Path[] {
+  const transform = ellipse.absoluteTransform;
+  const rx = ellipse.width / 2;
+  const ry = ellipse.height / 2;
+  const cx = rx; // Center in local coords
+  const cy = ry;
+
+  const { startingAngle, endingAngle, innerRadius } = ellipse.arcData;
+  let sweep = endingAngle - startingAngle;
+  const full = Math.abs(sweep) >= Math.PI * 2 - 1e-6;
+  if (full) sweep = Math.PI * 2;
+
+  // Large ellipses need more segments to stay within tolerance
+  const count = Math.max(
+    Math.ceil(32 * Math.abs(sweep) / (Math.PI * 2)),
+    arcSegmentCount(Math.max(rx, ry), Math.abs(sweep)),
+    1
+  );
+
+  // Points along the ellipse scaled by `ratio`, from the start angle to the end angle (or back)
+  const arc = (ratio: number, backwards: boolean): Point[] => {
+    const points: Point[] = [];
+    for (let i = 0; i <= count; i++) {
+      const t = backwards ? 1 - i / count : i / count;
+      const angle = startingAngle + t * sweep;
+      points.push(transformPoint(cx + ratio * rx * Math.cos(angle), cy + ratio * ry * Math.sin(angle), transform));
+    }
+    return points;
+  };
+
+  if (full) {
+    const paths: Path[] = [{ points: arc(1, false), closed: true }];
+    if (innerRadius > 0) {
+      paths.push({ points: arc(innerRadius, true), closed: true });
+    }
+    return paths;
+  }
+
+  const points = arc(1, false);
+  if (innerRadius > 0) {
+    points.push(...arc(innerRadius, true));
+  } else {
+    points.push(transformPoint(cx, cy, transform));
+  }
+  points.push({ ...points[0] }); // Close
+  return [{ points, closed: true }];
+}
+
+// Sharp polygon or star outline, stretched to fill the node's bounds
+// Used when the node has no fill geometry to read the exact shape from
+function polygonToPath(node: PolygonNode | StarNode): Path {
+  const count = node.type === 'STAR' ? node.pointCount * 2 : node.pointCount;
+  const vertices: Point[] = [];
+  for (let i = 0; i < count; i++) {
+    // First vertex at the top, inner star vertices in between the points
+    const angle = -Math.PI / 2 + i * 2 * Math.PI / count;
+    const radius = node.type === 'STAR' && i % 2 === 1 ? node.innerRadius : 1;
+    vertices.push({ x: radius * Math.cos(angle), y: radius * Math.sin(angle) });
+  }
+
+  const bounds = pointsBounds(vertices);
+  const points = vertices.map(p => transformPoint(
+    (p.x - bounds.minX) / (bounds.maxX - bounds.minX) * node.width,
+    (p.y - bounds.minY) / (bounds.maxY - bounds.minY) * node.height,
+    node.absoluteTransform
+  ));
+  points.push({ ...points[0] }); // Close
+
+  return { points, closed: true };
+}
+
+// Number of line segments needed to keep an arc's chord error within tolerance
+function arcSegmentCount(radius: number, sweep: number, tolerance: number = BEZIER_TOLERANCE): number {
+  if (radius <= tolerance) return 1;
+  const maxStep = 2 * Math.acos(1 - tolerance / radius);
+  return Math.ceil(sweep / maxStep);
+}
+
+function lineToPath(line: LineNode): Path {
+  const transform = line.absoluteTransform;
+  // Line goes from (0,0) to (width, 0) in local coordinates
+  const points = [
+    transformPoint(0, 0, transform),
+    transformPoint(line.width, 0, transform)
+  ];
+  return { points, closed: false };
+}
+
+// Calculate distance between two points
+function distance(a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  return Math.sqrt(dx * dx + dy * dy);
+}
+
+// Reverse a path's points (preserves all properties)
+function reversePath(path: Path): Path {
+  return { ...path, points: [...path.points].reverse() };
+}
+
+// Rotate a closed path so it starts (and ends) at the given vertex
+function rotateClosedPath(path: Path, index: number): Path {
+  if (index === 0) return path;
+  const ring = path.points.slice(0, -1); // Drop the repeated closing point
+  const points = ring.slice(index).concat(ring.slice(0, index));
+  points.push({ ...points[0] });
+  return { ...path, points };
+}
+
+// Get the start point of a path
+function pathStart(path: Path): Point {
+  return path.points[0];
+}
+
+// Get the end point of a path
+function pathEnd(path: Path): Point {
+  return path.points[path.points.length - 1];
+}
+
+// Simplify paths: merge collinear runs, apply Ramer-Douglas-Peucker, drop tiny paths
+// Tolerances come from settings in output units and are converted to pixels here.
+function simplifyPaths(
+  paths: Path[], settings: Settings
+): { paths: Path[]; pointsRemoved: number; pathsRemoved: number } {
+  const tolerance = Math.max(0, settings.simplifyTolerance || 0) * settings.scale;
+  const minLength = Math.max(0, settings.minPathLength || 0) * settings.scale;
+
+  const result: Path[] = [];
+  let pointsBefore = 0;
+  let pointsAfter = 0;
+
+  for (const path of paths) {
+    pointsBefore += path.points.length;
+
+    let points = mergeCollinear(path.points);
+    if (tolerance > 0) {
+      points = simplifyPolyline(points, tolerance);
+    }
+
+    // Paths that collapsed to a point or are shorter than the minimum are dropped
+    const length = polylineLength(points);
+    if (points.length < 2 || length === 0 || length < minLength) continue;
+
+    pointsAfter += points.length;
+    result.push({ ...path, points });
+  }
+
+  return {
+    paths: result,
+    pointsRemoved: pointsBefore - pointsAfter,
+    pathsRemoved: paths.length - result.length
+  };
+}
+
+// Remove duplicate points and points lying on a straight run between their neighbours
+function mergeCollinear(points: Point[]): Point[] {
+  const result: Point[] = [];
+  for (const p of points) {
+    const last = result[result.length - 1];
+    if (last && last.x === p.x && last.y === p.y) continue;
+
+    // Drop the previous point if it sits on the line from its predecessor to p
+    if (result.length >= 2) {
+      const a = result[result.length - 2];
+      const b = last;
+      const forward = (b.x - a.x) * (p.x - b.x) + (b.y - a.y) * (p.y - b.y) > 0;
+      if (forward && pointToLineDistance(b, a, p) < COLLINEAR_TOLERANCE) {
+        result.pop();
+      }
+    }
+    result.push(p);
+  }
+  return result;
+}
+
+// Ramer-Douglas-Peucker simplification (iterative to avoid deep recursion)
+// Endpoints are always kept, so closed paths stay closed.
+function simplifyPolyline(points: Point[], tolerance: number): Point[] {
+  if (points.length <= 2) return points;
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let maxDist = 0;
+    let index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const d = pointToLineDistance(points[i], points[first], points[last]);
+      if (d > maxDist) {
+        maxDist = d;
+        index = i;
+      }
+    }
+    if (index !== -1 && maxDist > tolerance) {
+      keep[index] = true;
+      stack.push([first, index], [index, last]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+}
+
+// Total length of a polyline
+function polylineLength(points: Point[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += distance(points[i - 1], points[i]);
+  }
+  return length;
+}
+
+// A run of segments kept from a path, with the snapped vertex id of each point
+interface PathPiece {
+  path: Path;
+  points: Point[];
+  ids: number[];
+}
+
+// Create a lookup that snaps points within a tolerance of each other to one vertex id
+function createVertexIndex(tolerance: number): (p: Point) => number {
+  const cells = new Map<string, { id: number; point: Point }[]>();
+  let nextId = 0;
+
+  return (p: Point) => {
+    const cx = Math.floor(p.x / tolerance);
+    const cy = Math.floor(p.y / tolerance);
+
+    // A close vertex can only be in this grid cell or a neighbouring one
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        const cell = cells.get(`${cx + dx},${cy + dy}`);
+        if (!cell) continue;
+        for (const vertex of cell) {
+          if (distance(vertex.point, p) <= tolerance) return vertex.id;
+        }
+      }
+    }
+
+    const id = nextId++;
+    const key = `${cx},${cy}`;
+    if (!cells.has(key)) cells.set(key, []);
+    cells.get(key)!.push({ id, point: p });
+    return id;
+  };
+}
+
+// Remove segments drawn more than once, then chain open paths whose endpoints meet
+// Segments are compared by their snapped endpoints, so overlaps must share vertices.
+function joinPaths(paths: Path[], tolerance: number): Path[] {
+  if (paths.length === 0 || !(tolerance > 0)) return paths;
+
+  const vertexId = createVertexIndex(tolerance);
+  const seen = new Set<string>();
+  const result: Path[] = [];
+  const pieces: PathPiece[] = [];
+
+  for (const path of paths) {
+    const ids = path.points.map(vertexId);
+    let current: PathPiece | null = null;
+    let droppedAny = false;
+    const runs: PathPiece[] = [];
+
+    for (let i = 0; i < path.points.length - 1; i++) {
+      const a = ids[i];
+      const b = ids[i + 1];
+      const key = a < b ? `${a}-${b}` : `${b}-${a}`;
+
+      if (a !== b && seen.has(key)) {
+        current = null;
+        droppedAny = true;
+        continue;
+      }
+      if (a !== b) seen.add(key);
+
+      if (!current) {
+        current = { path, points: [path.points[i]], ids: [a] };
+        runs.push(current);
+      }
+      current.points.push(path.points[i + 1]);
+      current.ids.push(b);
+    }
+
+    if (!droppedAny && path.closed) {
+      // Untouched closed loops are kept as they are
+      result.push(path);
+    } else {
+      pieces.push(...runs);
+    }
+  }
+
+  // Index the open pieces by their end vertices
+  const ends = new Map<number, PathPiece[]>();
+  const addEnd = (id: number, piece: PathPiece) => {
+    if (!ends.has(id)) ends.set(id, []);
+    ends.get(id)!.push(piece);
+  };
+  for (const piece of pieces) {
+    addEnd(piece.ids[0], piece);
+    addEnd(piece.ids[piece.ids.length - 1], piece);
+  }
+
+  const used = new Set<PathPiece>();
+  const takeAt = (id: number): PathPiece | undefined => {
+    const candidates = ends.get(id) || [];
+    return candidates.find(piece => !used.has(piece));
+  };
+
+  for (const piece of pieces) {
+    if (used.has(piece)) continue;
+    used.add(piece);
+    let points = [...piece.points];
+    let startId = piece.ids[0];
+    let endId = piece.ids[piece.ids.length - 1];
+
+    // Extend forward from the end, then backward from the start
+    while (startId !== endId) {
+      const next = takeAt(endId);
+      if (!next) break;
+      used.add(next);
+      const forward = next.ids[0] === endId;
+      const nextPoints = forward ? next.points : [...next.points].reverse();
+      points = points.concat(nextPoints.slice(1));
+      endId = forward ? next.ids[next.ids.length - 1] : next.ids[0];
+    }
+    while (startId !== endId) {
+      const prev = takeAt(startId);
+      if (!prev) break;
+      used.add(prev);
+      const backward = prev.ids[prev.ids.length - 1] === startId;
+      const prevPoints = backward ? prev.points : [...prev.points].reverse();
+      points = prevPoints.slice(0, -1).concat(points);
+      startId = backward ? prev.ids[0] : prev.ids[prev.ids.length - 1];
+    }
+
+    const closed = startId === endId && points.length > 2;
+    if (closed) {
+      points[points.length - 1] = { ...points[0] };
+    }
+    result.push({ ...piece.path, points, closed });
+  }
+
+  return result;
+}
+
+// Optimize path order to minimize pen-up travel
+// Builds a nearest-neighbor tour (entering closed paths at their closest vertex),
+// then improves it with 2-opt and Or-opt moves until the time budget runs out.
+function optimizePaths(paths: Path[], origin: Point, timeBudgetMs: number = 0): Path[] {
+  if (paths.length === 0) return paths;
+
+  let ordered = nearestNeighborOrder(paths, origin);
+  if (timeBudgetMs > 0 && ordered.length > 2) {
+    ordered = improveOrder(ordered, origin, Date.now() + timeBudgetMs);
+  }
+  return ordered;
+}
+
+// A point where a path can be entered: either end of an open path, any vertex of a closed one
+interface PathEntry {
+  path: number;   // Index into the path list
+  point: number;  // Index of the entry point
+}
+
+// Uniform grid of path entry points for fast nearest-neighbor queries
+interface EntryGrid {
+  cellSize: number;
+  minX: number;
+  minY: number;
+  cols: number;
+  rows: number;
+  cells: Map<string, PathEntry[]>;
+}
+
+function buildEntryGrid(paths: Path[]): EntryGrid {
+  const entries: { entry: PathEntry; p: Point }[] = [];
+  paths.forEach((path, i) => {
+    const last = path.points.length - 1;
+    if (path.closed) {
+      for (let k = 0; k < Math.max(1, last); k++) {
+        entries.push({ entry: { path: i, point: k }, p: path.points[k] });
+      }
+    } else {
+      entries.push({ entry: { path: i, point: 0 }, p: path.points[0] });
+      entries.push({ entry: { path: i, point: last }, p: path.points[last] });
+    }
+  });
+
+  const bounds = pointsBounds(entries.map(e => e.p));
+  const width = bounds.maxX - bounds.minX;
+  const height = bounds.maxY - bounds.minY;
+
+  // Aim for a couple of entries per cell; thin layouts (e.g. a single row) get square-ish cells
+  const extent = Math.max(width, height) || 1;
+  const area = Math.max(width, extent / 64) * Math.max(height, extent / 64);
+  const cellSize = Math.max(Math.sqrt(area * 2 / entries.length), extent / 1024, 1e-6);
+
+  const grid: EntryGrid = {
+    cellSize,
+    minX: bounds.minX,
+    minY: bounds.minY,
+    cols: Math.floor(width / cellSize) + 1,
+    rows: Math.floor(height / cellSize) + 1,
+    cells: new Map()
+  };
+  for (const { entry, p } of entries) {
+    const key = `${Math.floor((p.x - grid.minX) / cellSize)},${Math.floor((p.y - grid.minY) / cellSize)}`;
+    if (!grid.cells.has(key)) grid.cells.set(key, []);
+    grid.cells.get(key)!.push(entry);
+  }
+  return grid;
+}
+
+// Find the closest entry of an unvisited path by searching rings of cells outward
+// Entries of visited paths are removed from the grid as they are encountered.
+function nearestEntry(
+  grid: EntryGrid, paths: Path[], visited: boolean[], p: Point
+): PathEntry | null {
+  const cx = Math.floor((p.x - grid.minX) / grid.cellSize);
+  const cy = Math.floor((p.y - grid.minY) / grid.cellSize);
+
+  let best: PathEntry | null = null;
+  let bestDist = Infinity;
+
+  const visitCell = (x: number, y: number): void => {
+    const cell = grid.cells.get(`${x},${y}`);
+    if (!cell) return;
+
+    for (let i = cell.length - 1; i >= 0; i--) {
+      const entry = cell[i];
+      if (visited[entry.path]) {
+        cell.splice(i, 1);
+        continue;
+      }
+      const d = distance(p, paths[entry.path].points[entry.point]);
+      if (d < bestDist) {
+        bestDist = d;
+        best = entry;
+      }
+    }
+  };
+
+  // Rings closer than the grid are empty, and rings beyond its far corner don't exist
+  const outsideX = cx < 0 ? -cx : Math.max(0, cx - grid.cols + 1);
+  const outsideY = cy < 0 ? -cy : Math.max(0, cy - grid.rows + 1);
+  const maxRing = Math.max(cx, cy, grid.cols - 1 - cx, grid.rows - 1 - cy);
+  for (let ring = Math.max(outsideX, outsideY); ring <= maxRing; ring++) {
+    // Walk only the border of the ring, clamped to the grid
+    const x0 = Math.max(cx - ring, 0);
+    const x1 = Math.min(cx + ring, grid.cols - 1);
+    const y0 = Math.max(cy - ring + 1, 0);
+    const y1 = Math.min(cy + ring - 1, grid.rows - 1);
+    for (const y of ring === 0 ? [cy] : [cy - ring, cy + ring]) {
+      if (y < 0 || y >= grid.rows) continue;
+      for (let x = x0; x <= x1; x++) visitCell(x, y);
+    }
+    for (const x of ring === 0 ? [] : [cx - ring, cx + ring]) {
+      if (x < 0 || x >= grid.cols) continue;
+      for (let y = y0; y <= y1; y++) visitCell(x, y);
+    }
+
+    // Anything in further rings is at least this far away
+    if (best && bestDist <= ring * grid.cellSize) break;
+  }
+
+  return best;
+}
+
+// Greedy tour: repeatedly draw the path with the closest entry point
+function nearestNeighborOrder(paths: Path[], origin: Point): Path[] {
+  const grid = buildEntryGrid(paths);
+  const visited = new Array<boolean>(paths.length).fill(false);
+  const ordered: Path[] = [];
+  let currentPos = origin;
+
+  for (let n = 0; n < paths.length; n++) {
+    const entry = nearestEntry(grid, paths, visited, currentPos);
+    if (!entry) break;
+    visited[entry.path] = true;
+
+    const path = orientPath(paths[entry.path], entry.point);
+    ordered.push(path);
+    currentPos = pathEnd(path);
+  }
+
+  return ordered;
+}
+
+// Orient a path so it starts at the given point index
+// Open paths can only start at either end; closed paths are rotated to start anywhere.
+function orientPath(path: Path, pointIndex: number): Path {
+  if (path.closed) return rotateClosedPath(path, pointIndex);
+  return pointIndex === 0 ? path : reversePath(path);
+}
+
+// Improve a tour with 2-opt (reverse a run of paths) and Or-opt (move a short run
+// elsewhere, possibly reversed) until no move helps or the deadline passes
+function improveOrder(tour: Path[], origin: Point, deadline: number): Path[] {
+  const order = [...tour];
+  const n = order.length;
+  const entryOf = (i: number) => pathStart(order[i]);
+  const exitOf = (i: number) => pathEnd(order[i]);
+  const before = (i: number) => (i === 0 ? origin : exitOf(i - 1));
+
+  // Reverse order[i..j] in place, flipping the direction of each path
+  const reverseRun = (i: number, j: number) => {
+    const run = order.slice(i, j + 1).reverse().map(reversePath);
+    order.splice(i, run.length, ...run);
+  };
+
+  let improved = true;
+  while (improved && Date.now() < deadline) {
+    improved = false;
+
+    // 2-opt: replacing edges (i-1 -> i) and (j -> j+1) with (i-1 -> j) and (i -> j+1)
+    for (let i = 0; i < n - 1 && Date.now() < deadline; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const prev = before(i);
+        const hasNext = j < n - 1;
+        const current = distance(prev, entryOf(i)) + (hasNext ? distance(exitOf(j), entryOf(j + 1)) : 0);
+        const swapped = distance(prev, exitOf(j)) + (hasNext ? distance(entryOf(i), entryOf(j + 1)) : 0);
+        if (swapped < current - 1e-9) {
+          reverseRun(i, j);
+          improved = true;
+        }
+      }
+    }
+
+    // Or-opt: move runs of 1-3 paths to the best other position
+    for (let length = 1; length <= 3; length++) {
+      for (let i = 0; i + length <= n && Date.now() < deadline; i++) {
+        const last = i + length - 1;
+        const prev = before(i);
+        const next = last < n - 1 ? entryOf(last + 1) : null;
+        const removeGain = distance(prev, entryOf(i)) +
+          (next ? distance(exitOf(last), next) - distance(prev, next) : 0);
+
+        let bestGain = 1e-9;
+        let bestPos = -1;
+        let bestReversed = false;
+
+        // Insert between k-1 and k (k outside the run)
+        for (let k = 0; k <= n; k++) {
+          if (k >= i && k <= last + 1) continue;
+          const a = k === 0 ? origin : exitOf(k - 1);
+          const b = k < n ? entryOf(k) : null;
+          const base = b ? distance(a, b) : 0;
+          const forward = distance(a, entryOf(i)) + (b ? distance(exitOf(last), b) : 0) - base;
+          const reversed = distance(a, exitOf(last)) + (b ? distance(entryOf(i), b) : 0) - base;
+          if (removeGain - forward > bestGain) {
+            bestGain = removeGain - forward;
+            bestPos = k;
+            bestReversed = false;
+          }
+          if (removeGain - reversed > bestGain) {
+            bestGain = removeGain - reversed;
+            bestPos = k;
+            bestReversed = true;
+          }
+        }
+
+        if (bestPos !== -1) {
+          let run = order.splice(i, length);
+          if (bestReversed) run = run.reverse().map(reversePath);
+          const insertAt = bestPos > last ? bestPos - length : bestPos;
+          order.splice(insertAt, 0, ...run);
+          improved = true;
+        }
+      }
+    }
+  }
+
+  // Re-pick seams of closed paths now that their neighbours may have changed
+  for (let i = 0; i < n; i++) {
+    const path = order[i];
+    if (!path.closed || path.points.length < 3) continue;
+    const prev = before(i);
+    const next = i < n - 1 ? entryOf(i + 1) : null;
+    const cost = (p: Point) => distance(prev, p) + (next ? distance(p, next) : 0);
+
+    let bestIndex = 0;
+    let bestCost = cost(path.points[0]);
+    for (let k = 1; k < path.points.length - 1; k++) {
+      const c = cost(path.points[k]);
+      if (c < bestCost - 1e-9) {
+        bestCost = c;
+        bestIndex = k;
+      }
+    }
+    order[i] = rotateClosedPath(path, bestIndex);
+  }
+
+  return order;
+}
+
+// Represents a group of paths that should stay together (e.g., a TextNode)
+interface PathGroup {
+  paths: Path[];
+  start: Point;  // First point of first path
+  end: Point;    // Last point of last path
+}
+
+// Optimize text path groups using nearest-neighbor, keeping each group's paths together
+function optimizeTextGroups(textPaths: Path[], origin: Point): Path[] {
+  if (textPaths.length === 0) return [];
+
+  // Group paths by textGroupId
+  const groupMap = new Map<number, Path[]>();
+  for (const path of textPaths) {
+    const id = path.textGroupId ?? -1;
+    if (!groupMap.has(id)) {
+      groupMap.set(id, []);
+    }
+    groupMap.get(id)!.push(path);
+  }
+
+  // Convert to PathGroup array
+  const groups: PathGroup[] = [];
+  for (const paths of groupMap.values()) {
+    if (paths.length > 0) {
+      groups.push({
+        paths,
+        start: pathStart(paths[0]),
+        end: pathEnd(paths[paths.length - 1])
+      });
+    }
+  }
+
+  // Apply nearest-neighbor to groups, entering each from whichever end is closer
+  const optimized: Path[] = [];
+  const remaining = [...groups];
+  let currentPos = origin;
+
+  while (remaining.length > 0) {
+    let bestIndex = 0;
+    let bestDist = Infinity;
+    let shouldReverse = false;
+
+    for (let i = 0; i < remaining.length; i++) {
+      const group = remaining[i];
+      const startDist = distance(currentPos, group.start);
+      const endDist = distance(currentPos, group.end);
+      if (startDist < bestDist) {
+        bestDist = startDist;
+        bestIndex = i;
+        shouldReverse = false;
+      }
+      if (endDist < bestDist) {
+        bestDist = endDist;
+        bestIndex = i;
+        shouldReverse = true;
+      }
+    }
+
+    // A reversed group draws its strokes in reverse order, each stroke backwards
+    const bestGroup = remaining[bestIndex];
+    if (shouldReverse) {
+      optimized.push(...[...bestGroup.paths].reverse().map(reversePath));
+      currentPos = bestGroup.start;
+    } else {
+      optimized.push(...bestGroup.paths);
+      currentPos = bestGroup.end;
+    }
+    remaining.splice(bestIndex, 1);
+  }
+
+  return optimized;
+}
+
+// A drawing move: straight line, or circular arc around a center
+interface Move {
+  end: Point;
+  arc?: { center: Point; clockwise: boolean };
+}
+
+// Fit circular arcs through runs of points, falling back to straight lines
+// Works greedily: each arc is grown point by point while every point stays within
+// tolerance of the circle. Chord midpoints may deviate by the linearization error
+// as well, so sampled curves fit but polygons (whose sides are long chords) don't.
+// Points must be in machine coordinates so arc direction matches the output axes.
+function fitArcs(points: Point[], tolerance: number, chordTolerance: number): Move[] {
+  const moves: Move[] = [];
+  let i = 0;
+
+  while (i < points.length - 1) {
+    let best: { end: number; center: Point; clockwise: boolean } | null = null;
+
+    for (let j = i + 2; j < points.length; j++) {
+      const fit = fitArc(points, i, j, tolerance, chordTolerance);
+      if (!fit) break;
+      best = { end: j, ...fit };
+    }
+
+    if (best) {
+      moves.push({ end: points[best.end], arc: { center: best.center, clockwise: best.clockwise } });
+      i = best.end;
+    } else {
+      moves.push({ end: points[i + 1] });
+      i++;
+    }
+  }
+
+  return moves;
+}
+
+// Try to fit a single arc through points[from..to]; null if they don't lie on one
+function fitArc(
+  points: Point[], from: number, to: number, tolerance: number, chordTolerance: number
+): { center: Point; clockwise: boolean } | null {
+  const center = circleCenter(points[from], points[Math.floor((from + to) / 2)], points[to]);
+  if (!center) return null;
+  const radius = distance(center, points[from]);
+  if (radius > MAX_ARC_RADIUS) return null;
+
+  let sweep = 0;
+  for (let k = from; k < to; k++) {
+    const a = points[k];
+    const b = points[k + 1];
+    if (Math.abs(distance(center, b) - radius) > tolerance) return null;
+    if (Math.abs(distance(center, midpoint(a, b)) - radius) > tolerance + chordTolerance) return null;
+
+    // Every step must turn the same way around the center
+    const step = Math.atan2(
+      (a.x - center.x) * (b.y - center.y) - (a.y - center.y) * (b.x - center.x),
+      (a.x - center.x) * (b.x - center.x) + (a.y - center.y) * (b.y - center.y)
+    );
+    if (step === 0 || Math.abs(step) > MAX_ARC_STEP_ANGLE) return null;
+    if (sweep !== 0 && Math.sign(step) !== Math.sign(sweep)) return null;
+    sweep += step;
+  }
+
+  // Limit arcs to half a circle - longer arcs are numerically fragile in firmware
+  if (Math.abs(sweep) > Math.PI + 1e-6) return null;
+
+  return { center, clockwise: sweep < 0 };
+}
+
+// Center of the circle through three points, or null if they are collinear
+function circleCenter(a: Point, b: Point, c: Point): Point | null {
+  const d = 2 * (a.x * (b.y - c.y) + b.x * (c.y - a.y) + c.x * (a.y - b.y));
+  if (Math.abs(d) < 1e-12) return null;
+  const a2 = a.x * a.x + a.y * a.y;
+  const b2 = b.x * b.x + b.y * b.y;
+  const c2 = c.x * c.x + c.y * c.y;
+  return {
+    x: (a2 * (b.y - c.y) + b2 * (c.y - a.y) + c2 * (a.y - b.y)) / d,
+    y: (a2 * (c.x - b.x) + b2 * (a.x - c.x) + c2 * (b.x - a.x)) / d
+  };
+}
+
+// Format a machine coordinate with fixed precision (never "-0.000")
+function formatCoord(value: number, precision: number = 3): string {
+  const text = value.toFixed(precision);
+  return Number(text) === 0 ? text.replace('-', '') : text;
+}
+
+// Pause after a pen move: GRBL takes seconds, Marlin milliseconds
+function dwellCommand(seconds: number, firmware: Firmware): string {
+  return firmware === 'marlin'
+    ? `G4 P${Math.round(seconds * 1000)}`
+    : `G4 P${Number(seconds.toFixed(3))}`;
+}
+
+// Split a user-supplied start/end block into G-code lines, dropping blank ones
+function gcodeBlock(text: string): string[] {
+  return (text || '').split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+}
+
+// A pen-down stroke in machine coordinates
+interface ToolpathStroke {
+  points: Point[];
+  moves: Move[];        // The moves from the first point, as arcs where arc fitting found them
+  isText: boolean;
+  source?: string;      // Layer name, for error messages
+  color?: StrokeColor;  // Sets the power in laser mode
+}
+
+// The strokes drawn with one pen, in plot order
+interface ToolpathGroup {
+  pen: number;
+  colors: string[]; // Color keys drawn with this pen; the first one is used for display
+  strokes: ToolpathStroke[]; // Carriage positions: the ink lands at each point plus the offset
+  offset: Point;             // The pen's tip offset
+  textCount: number;
+}
+
+// The ordered job, shared by every output format
+// Each group starts and ends at the park position, where pens are changed
+interface Toolpath {
+  groups: ToolpathGroup[];
+  pathCount: number;
+  skippedPaths: number; // Paths whose pen is skipped in the pen table
+  bounds: { minX: number; minY: number; maxX: number; maxY: number }; // Machine units
+  travelBefore: number; // Pen-up travel in layer order, walked as analyzeToolpath does (machine units)
+}
+
+// Group paths by pen, order each group, and convert everything to machine coordinates
+function buildToolpath(paths: Path[], settings: Settings, origin: Origin): Toolpath {
+  const { scale } = settings;
+  const machine = machineTransform(origin, settings);
+  const toMachine = (p: Point): Point => transformPoint(p.x, p.y, machine);
+
+  // Park position in canvas pixels - where travel starts and pen changes happen
+  const home = transformPoint(settings.parkX || 0, settings.parkY || 0, invertTransform(machine));
+
+  const groups: ToolpathGroup[] = [];
+  const machinePoints: Point[] = [];
+  // Travel in layer order, from the park position and back to it between pens
+  const park: Point = { x: settings.parkX || 0, y: settings.parkY || 0 };
+  let travelBefore = 0;
+  let position = park;
+  let pathCount = 0;
+  let blade: Point = { x: 1, y: 0 }; // Drag knife blade direction, assumed aligned with +X at the start
+
+  const { groups: byPen, skipped } = groupPathsByPen(paths, settings.pens);
+  // A laser takes its power from each stroke's color, so all colors are ordered and cut together
+  const penGroups: PenGroup[] = settings.toolMode === 'laser' && byPen.length > 1
+    ? [{
+      pen: byPen[0].pen,
+      colors: byPen.reduce((colors: string[], g) => colors.concat(g.colors), []),
+      paths: byPen.reduce((all: Path[], g) => all.concat(g.paths), [])
+    }]
+    : byPen;
+  for (const penGroup of penGroups) {
+    const allGroupPaths = penGroup.paths;
+    pathCount += allGroupPaths.length;
+    // Separate text paths from non-text paths
+    let vectorPaths = allGroupPaths.filter(p => !p.isText);
+    const textPaths = allGroupPaths.filter(p => p.isText);
+
+    // Draw shared edges once and avoid pen lifts where paths meet
+    if (settings.joinPaths) {
+      vectorPaths = joinPaths(vectorPaths, settings.joinTolerance * scale);
+    }
+
+    // Optimize vector paths (nearest-neighbor, then refined within the time budget)
+    const optimizedVectorPaths = optimizePaths(vectorPaths, home, settings.optimizeTime);
+
+    // Update position after vectors for text optimization
+    const textStartPos = optimizedVectorPaths.length > 0
+      ? pathEnd(optimizedVectorPaths[optimizedVectorPaths.length - 1])
+      : home;
+
+    // Optimize text groups (keeps strokes within each TextNode together)
+    const optimizedTextPaths = optimizeTextGroups(textPaths, textStartPos);
+
+    // Combine: optimized vectors first, then optimized text groups
+    let orderedPaths = [...optimizedVectorPaths, ...optimizedTextPaths];
+
+    // A drag knife cuts what lies inside a shape before the shape itself, so parts don't shift
+    if (settings.toolMode === 'knife') {
+      orderedPaths = innerContoursFirst(orderedPaths);
+    }
+    // Shift the carriage opposite to the pen's tip offset so the pen lands on the drawing
+    const offset = penOffset(settings.penOffsets, penGroup.pen);
+    const toCarriage = (p: Point): Point => {
+      const q = toMachine(p);
+      return { x: q.x - offset.x, y: q.y - offset.y };
+    };
+
+    if (groups.length > 0) {
+      travelBefore += distance(position, park);
+      position = park;
+    }
+    for (const path of [...vectorPaths, ...textPaths]) {
+      if (path.points.length === 0) continue;
+      travelBefore += distance(position, toCarriage(pathStart(path)));
+      position = toCarriage(pathEnd(path));
+    }
 
-  // Set text to auto-width and cap-height baseline for accurate sizing
-  node.textAutoResize = 'WIDTH_AND_HEIGHT';
-  if ('leadingTrim' in node) {
-    (node as any).leadingTrim = 'CAP_HEIGHT';
+    const strokes: ToolpathStroke[] = [];
+    for (const path of orderedPaths) {
+      if (path.points.length === 0) continue;
+      let points = path.points.map(toMachine);
+      if (settings.toolMode === 'knife') {
+        const cut = dragKnifePath(points, path.closed, blade, settings.knifeOffset);
+        points = cut.points;
+        blade = cut.blade;
+      } else if (settings.toolMode === 'laser' && settings.laserPasses > 1) {
+        points = repeatPasses(points, settings.laserPasses);
+      }
+      points = points.map(p => ({ x: p.x - offset.x, y: p.y - offset.y }));
+      machinePoints.push(...points);
+      strokes.push({ points, moves: strokeMoves(points, settings), isText: !!path.isText, source: path.source, color: path.color });
+    }
+    groups.push({ pen: penGroup.pen, colors: penGroup.colors, strokes, offset, textCount: textPaths.length });
   }
 
-  // Get TextNode's actual dimensions (after auto-resize)
-  const targetWidth = node.width;
-  const targetHeight = node.height;
+  return {
+    groups,
+    pathCount,
+    skippedPaths: skipped,
+    bounds: pointsBounds(machinePoints),
+    travelBefore: travelBefore + distance(position, { x: 0, y: 0 })
+  };
+}
 
-  // Measure Hershey text in its native units
-  const hersheySize = measureHersheyText(text);
+// A drag knife cuts straight through direction changes smaller than this (degrees)
+// and swivels its blade around sharper corners
+const KNIFE_SWIVEL_ANGLE = 10;
+
+// Angle between points on a swivel arc, within the step that arc fitting accepts
+const KNIFE_SWIVEL_STEP = Math.PI / 18;
+
+// Reorder paths so each closed path follows everything inside it, keeping the given order
+// otherwise. Containment is judged by bounding box and by a point of the inner path.
+function innerContoursFirst(paths: Path[]): Path[] {
+  const bounds = paths.map(path => pointsBounds(path.points));
+  const area = bounds.map(b => (b.maxX - b.minX) * (b.maxY - b.minY));
+
+  // Closed paths by the grid cells their bounding boxes cover, smallest first in each cell
+  const closed = paths.map((_, index) => index).filter(index => paths[index].closed);
+  closed.sort((a, b) => area[a] - area[b]);
+  const extent = pointsBounds(bounds.map(b => ({ x: b.minX, y: b.minY })).concat(bounds.map(b => ({ x: b.maxX, y: b.maxY }))));
+  const cellSize = Math.max(extent.maxX - extent.minX, extent.maxY - extent.minY, 1e-6) /
+    Math.max(1, Math.ceil(Math.sqrt(closed.length)));
+  const cell = (value: number, min: number): number => Math.floor((value - min) / cellSize);
+  const cells = new Map<string, number[]>();
+  for (const outer of closed) {
+    const b = bounds[outer];
+    for (let x = cell(b.minX, extent.minX); x <= cell(b.maxX, extent.minX); x++) {
+      for (let y = cell(b.minY, extent.minY); y <= cell(b.maxY, extent.minY); y++) {
+        const key = `${x},${y}`;
+        if (!cells.has(key)) cells.set(key, []);
+        cells.get(key)!.push(outer);
+      }
+    }
+  }
 
-  if (hersheySize.width === 0 || hersheySize.height === 0) return paths;
+  // Each path's parent is the smallest closed path around it
+  const children: number[][] = paths.map(() => []);
+  const isRoot = paths.map(() => true);
+  paths.forEach((path, inner) => {
+    if (path.points.length === 0) return;
+    const probe = path.points[Math.floor(path.points.length / 2)];
+    const b = bounds[inner];
+    for (const outer of cells.get(`${cell(probe.x, extent.minX)},${cell(probe.y, extent.minY)}`) || []) {
+      const a = bounds[outer];
+      if (outer === inner || area[inner] >= area[outer]) continue;
+      if (b.minX < a.minX || b.minY < a.minY || b.maxX > a.maxX || b.maxY > a.maxY) continue;
+      if (pointInRegion(probe, { rings: [paths[outer].points], windingRule: 'EVENODD' })) {
+        children[outer].push(inner);
+        isRoot[inner] = false;
+        break;
+      }
+    }
+  });
 
-  // Calculate scale to fit Hershey text to TextNode dimensions
-  const scaleX = targetWidth / hersheySize.width;
-  const scaleY = targetHeight / hersheySize.height;
+  const result: Path[] = [];
+  const emit = (index: number): void => {
+    for (const child of children[index]) emit(child);
+    result.push(paths[index]);
+  };
+  paths.forEach((_, index) => {
+    if (isRoot[index]) emit(index);
+  });
+  return result;
+}
 
-  // Get the full transform (includes rotation)
-  const transform = node.absoluteTransform;
+// The path of a drag knife's axis that makes its trailing blade tip follow the given points
+// The axis runs the offset ahead of the tip along each segment and swivels around the tip at
+// sharp corners. The blade keeps its direction between cuts, so a cut starting in another
+// direction begins with a swivel too. Returns the axis path and the final blade direction.
+function dragKnifePath(points: Point[], closed: boolean, blade: Point, offset: number): { points: Point[]; blade: Point } {
+  const vertices = points.filter((p, i) => i === 0 || distance(points[i - 1], p) > 1e-9);
+  if (vertices.length < 2 || !(offset > 0)) return { points, blade };
+
+  const directions: Point[] = [];
+  for (let i = 1; i < vertices.length; i++) {
+    const length = distance(vertices[i - 1], vertices[i]);
+    directions.push({ x: (vertices[i].x - vertices[i - 1].x) / length, y: (vertices[i].y - vertices[i - 1].y) / length });
+  }
 
-  // Process each line of text
-  const lines = text.split('\n');
-  const lineHeight = 25; // Hershey native line height
-  let lineIndex = 0;
+  const result: Point[] = [];
+  const ahead = (p: Point, angle: number): Point =>
+    ({ x: p.x + Math.cos(angle) * offset, y: p.y + Math.sin(angle) * offset });
+
+  // Turn the blade at a corner: swivel around it, or cut through along the mean direction
+  const turn = (corner: Point, from: Point, to: Point): void => {
+    const start = Math.atan2(from.y, from.x);
+    const angle = Math.atan2(from.x * to.y - from.y * to.x, from.x * to.x + from.y * to.y);
+    if (Math.abs(angle) < KNIFE_SWIVEL_ANGLE * Math.PI / 180) {
+      result.push(ahead(corner, start + angle / 2));
+      return;
+    }
+    const steps = Math.ceil(Math.abs(angle) / KNIFE_SWIVEL_STEP);
+    for (let i = 0; i <= steps; i++) {
+      result.push(ahead(corner, start + angle * i / steps));
+    }
+  };
 
-  for (const line of lines) {
-    let cursorX = 0; // In Hershey units
+  turn(vertices[0], blade, directions[0]);
+  for (let i = 1; i < vertices.length - 1; i++) {
+    turn(vertices[i], directions[i - 1], directions[i]);
+  }
+  const last = directions[directions.length - 1];
+  if (closed) {
+    turn(vertices[vertices.length - 1], last, directions[0]);
+    return { points: result, blade: directions[0] };
+  }
+  result.push(ahead(vertices[vertices.length - 1], Math.atan2(last.y, last.x)));
+  return { points: result, blade: last };
+}
 
-    for (const char of line) {
-      const glyph = HERSHEY_FONT[char];
-      if (!glyph) {
-        cursorX += HERSHEY_FONT[' ']?.width || 16;
-        continue;
-      }
+// Trace a stroke several times without lifting: closed strokes go round again,
+// open strokes run back and forth
+function repeatPasses(points: Point[], passes: number): Point[] {
+  const closed = distance(points[0], points[points.length - 1]) < 1e-9;
+  const reversed = points.slice().reverse();
+  const result = points.slice();
+  for (let pass = 1; pass < passes; pass++) {
+    result.push(...(closed || pass % 2 === 0 ? points : reversed).slice(1));
+  }
+  return result;
+}
 
-      // Each stroke in the glyph becomes a separate path
-      for (const stroke of glyph.strokes) {
-        if (stroke.length < 4) continue;
+// Laser power (S value) for a stroke, from its color's darkness (as in tone hatching) or its opacity
+function laserPower(color: StrokeColor | undefined, settings: Settings): number {
+  const paint = color || { r: 0, g: 0, b: 0, a: 1 };
+  const level = settings.laserPower === 'color' ? colorToInk(paint).coverage
+    : settings.laserPower === 'opacity' ? paint.a : 1;
+  const min = settings.laserMinPower || 0;
+  return Math.round(min + (settings.laserMaxPower - min) * Math.min(1, Math.max(0, level)));
+}
 
-        const points: Point[] = [];
-        for (let i = 0; i < stroke.length; i += 2) {
-          // Calculate local position (scaled to match TextNode size)
-          const localX = (cursorX + stroke[i]) * scaleX;
-          const localY = (lineIndex * lineHeight + stroke[i + 1]) * scaleY;
+// How far a coordinate may stray past the bed edge before it counts as outside (machine units)
+const BOUNDS_TOLERANCE = 0.001;
 
-          // Apply full transform (rotation, scale, translation)
-          points.push(transformPoint(localX, localY, transform));
-        }
+// Number of offending layers named in the out-of-bounds error
+const OUT_OF_BOUNDS_LISTED = 5;
 
-        if (points.length >= 2) {
-          paths.push({ points, closed: false, color, isText: true, textGroupId });
-        }
-      }
+// Where a layer's strokes reach, in machine units
+interface LayerExtent {
+  source: string;
+  bounds: { minX: number; minY: number; maxX: number; maxY: number };
+}
 
-      cursorX += glyph.width;
+// Layers with strokes outside the drawable area (X0 Y0 to the bed size)
+// Only the strokes that leave the bed count towards each layer's extent. G-code also
+// travels to the park position for pen changes, so that is checked too; the return
+// to X0 Y0 at the end is always on the bed.
+function findOutOfBounds(toolpath: Toolpath, settings: Settings): LayerExtent[] {
+  const onBed = (bounds: { minX: number; minY: number; maxX: number; maxY: number }): boolean =>
+    bounds.minX >= -BOUNDS_TOLERANCE && bounds.minY >= -BOUNDS_TOLERANCE &&
+    bounds.maxX <= settings.bedWidth + BOUNDS_TOLERANCE && bounds.maxY <= settings.bedHeight + BOUNDS_TOLERANCE;
+
+  const layers = new Map<string, { minX: number; minY: number; maxX: number; maxY: number }>();
+  for (const group of toolpath.groups) {
+    for (const stroke of group.strokes) {
+      const bounds = pointsBounds(stroke.points);
+      if (onBed(bounds)) continue;
+      const source = stroke.source || 'Unnamed layer';
+      const known = layers.get(source);
+      layers.set(source, known ? {
+        minX: Math.min(known.minX, bounds.minX),
+        minY: Math.min(known.minY, bounds.minY),
+        maxX: Math.max(known.maxX, bounds.maxX),
+        maxY: Math.max(known.maxY, bounds.maxY)
+      } : bounds);
     }
-
-    lineIndex++;
   }
 
-  return paths;
-}
-
-function rectangleToPath(rect: RectangleNode): Path {
-  const transform = rect.absoluteTransform;
-  const w = rect.width;
-  const h = rect.height;
-
-  // Rectangle corners in local coordinates
-  const corners = [
-    { x: 0, y: 0 },
-    { x: w, y: 0 },
-    { x: w, y: h },
-    { x: 0, y: h },
-    { x: 0, y: 0 } // Close
-  ];
+  const result: LayerExtent[] = [];
+  layers.forEach((bounds, source) => result.push({ source, bounds }));
 
-  const points = corners.map(p => transformPoint(p.x, p.y, transform));
-  return { points, closed: true };
+  if (penChangeCount(toolpath, settings) > 0 && (settings.outputFormat || 'gcode') === 'gcode') {
+    const x = settings.parkX || 0;
+    const y = settings.parkY || 0;
+    const park = { minX: x, minY: y, maxX: x, maxY: y };
+    if (!onBed(park)) result.unshift({ source: 'Park position', bounds: park });
+  }
+  return result;
 }
 
-function ellipseToPath(ellipse: EllipseNode, segments: number = 32): Path {
-  const transform = ellipse.absoluteTransform;
-  const rx = ellipse.width / 2;
-  const ry = ellipse.height / 2;
-  const cx = rx; // Center in local coords
-  const cy = ry;
-
-  const points: Point[] = [];
+// Error text naming the first few layers that leave the bed and where they reach
+function outOfBoundsMessage(outside: LayerExtent[], settings: Settings): string {
+  const fmt = (value: number) => formatCoord(value, 2);
+  const listed = outside.slice(0, OUT_OF_BOUNDS_LISTED).map(({ source, bounds }) =>
+    bounds.minX === bounds.maxX && bounds.minY === bounds.maxY
+      ? `"${source}" (X${fmt(bounds.minX)} Y${fmt(bounds.minY)})`
+      : `"${source}" (X${fmt(bounds.minX)} to X${fmt(bounds.maxX)}, Y${fmt(bounds.minY)} to Y${fmt(bounds.maxY)})`
+  );
+  if (outside.length > OUT_OF_BOUNDS_LISTED) {
+    listed.push(`${outside.length - OUT_OF_BOUNDS_LISTED} more`);
+  }
+  return `Outside the ${settings.bedWidth} x ${settings.bedHeight} ${settings.units} bed, nothing was generated: ${listed.join(', ')}`;
+}
 
-  for (let i = 0; i <= segments; i++) {
-    const angle = (i / segments) * Math.PI * 2;
-    const x = cx + rx * Math.cos(angle);
-    const y = cy + ry * Math.sin(angle);
-    points.push(transformPoint(x, y, transform));
+// Calibration pattern sizes (mm): cross arm length, circle radius, tick spacing and lengths
+const CALIBRATION_ARM = 10;
+const CALIBRATION_RADIUS = 5;
+const CALIBRATION_TICK = 1;
+const CALIBRATION_TICK_LENGTH = 1;
+const CALIBRATION_MAJOR_TICK_LENGTH = 2;
+
+// A job in which every pen draws a cross and circle at the bed center, with its offset applied
+// The first pen also draws a millimetre scale along the cross, so the other pens' crosses
+// can be measured against it.
+function calibrationToolpath(settings: Settings): Toolpath | null {
+  const pens: number[] = [];
+  for (const entry of settings.pens || []) {
+    if (!entry.skip && pens.indexOf(entry.pen) < 0) pens.push(entry.pen);
   }
+  if (pens.length === 0) return null;
+
+  const mm = settings.units === 'inch' ? 1 / 25.4 : 1;
+  const center: Point = { x: settings.bedWidth / 2, y: settings.bedHeight / 2 };
+  const at = (dx: number, dy: number): Point => ({ x: center.x + dx * mm, y: center.y + dy * mm });
+  const arm = CALIBRATION_ARM;
+
+  const groups: ToolpathGroup[] = [];
+  const machinePoints: Point[] = [];
+  pens.forEach((pen, index) => {
+    const lines: Point[][] = [
+      [at(-arm, 0), at(arm, 0)],
+      [at(0, -arm), at(0, arm)]
+    ];
+    const circle: Point[] = [];
+    const steps = arcSegmentCount(CALIBRATION_RADIUS, 2 * Math.PI, 0.01);
+    for (let i = 0; i <= steps; i++) {
+      const angle = 2 * Math.PI * i / steps;
+      circle.push(at(CALIBRATION_RADIUS * Math.cos(angle), CALIBRATION_RADIUS * Math.sin(angle)));
+    }
+    lines.push(circle);
+    if (index === 0) {
+      for (let d = -arm; d <= arm; d += CALIBRATION_TICK) {
+        if (d === 0) continue;
+        const length = d % 5 === 0 ? CALIBRATION_MAJOR_TICK_LENGTH : CALIBRATION_TICK_LENGTH;
+        lines.push([at(d, 0), at(d, -length)]);
+        lines.push([at(0, d), at(-length, d)]);
+      }
+    }
 
-  return { points, closed: true };
+    const offset = penOffset(settings.penOffsets, pen);
+    const strokes = lines.map(line => {
+      const points = line.map(p => ({ x: p.x - offset.x, y: p.y - offset.y }));
+      return { points, moves: strokeMoves(points, settings), isText: false };
+    });
+    for (const stroke of strokes) machinePoints.push(...stroke.points);
+    groups.push({ pen, colors: [settings.pens.find(p => p.pen === pen)!.color], strokes, offset, textCount: 0 });
+  });
+
+  return {
+    groups,
+    pathCount: groups.reduce((sum, g) => sum + g.strokes.length, 0),
+    skippedPaths: 0,
+    bounds: pointsBounds(machinePoints),
+    travelBefore: 0
+  };
 }
 
-function lineToPath(line: LineNode): Path {
-  const transform = line.absoluteTransform;
-  // Line goes from (0,0) to (width, 0) in local coordinates
-  const points = [
-    transformPoint(0, 0, transform),
-    transformPoint(line.width, 0, transform)
-  ];
-  return { points, closed: false };
+// The job as sent to the UI preview, in machine units
+// Strokes are flat [x0, y0, x1, y1, ...] arrays to keep the message small.
+interface ToolpathPreview {
+  units: 'mm' | 'inch';
+  bedWidth: number;
+  bedHeight: number;
+  park: Point;
+  groups: { pen: number; color: string; strokes: number[][] }[];
 }
 
-// Calculate distance between two points
-function distance(a: Point, b: Point): number {
-  const dx = b.x - a.x;
-  const dy = b.y - a.y;
-  return Math.sqrt(dx * dx + dy * dy);
+// Where a stroke's ink lands: its carriage positions shifted back by the pen's tip offset
+function inkPoints(group: ToolpathGroup, stroke: ToolpathStroke): Point[] {
+  const { x, y } = group.offset;
+  if (x === 0 && y === 0) return stroke.points;
+  return stroke.points.map(p => ({ x: p.x + x, y: p.y + y }));
 }
 
-// Reverse a path's points (preserves all properties)
-function reversePath(path: Path): Path {
+function toolpathPreview(toolpath: Toolpath, settings: Settings): ToolpathPreview {
   return {
-    points: [...path.points].reverse(),
-    closed: path.closed,
-    color: path.color,
-    isText: path.isText
+    units: settings.units,
+    bedWidth: settings.bedWidth,
+    bedHeight: settings.bedHeight,
+    park: { x: settings.parkX || 0, y: settings.parkY || 0 },
+    groups: toolpath.groups.map(group => ({
+      pen: group.pen,
+      color: group.colors[0] === 'DEFAULT' ? '#000000' : group.colors[0],
+      strokes: group.strokes.map(stroke => {
+        const flat: number[] = [];
+        for (const p of inkPoints(group, stroke)) flat.push(p.x, p.y);
+        return flat;
+      })
+    }))
   };
 }
 
-// Get the start point of a path
-function pathStart(path: Path): Point {
-  return path.points[0];
+// Totals and a run-time estimate for a job, in machine units
+interface JobStats {
+  drawLength: number;
+  travelLength: number;
+  travelBefore: number; // Travel in layer order (0 if the job wasn't reordered)
+  penLifts: number;
+  penChanges: number;
+  pens: { pen: number; colors: string[]; strokes: number; drawLength: number }[];
+  bounds: { minX: number; minY: number; maxX: number; maxY: number };
+  drawSeconds: number;
+  travelSeconds: number;
+  dwellSeconds: number; // Pen waits; manual pen changes are not included
 }
 
-// Get the end point of a path
-function pathEnd(path: Path): Point {
-  return path.points[path.points.length - 1];
+// Pen changes in a job: before every pen but the first, and before the first if asked
+// A laser has a single head and never changes pens.
+function penChangeCount(toolpath: Toolpath, settings: Settings): number {
+  if (toolpath.groups.length === 0) return 0;
+  const atStart = settings.toolChangeAtStart && settings.toolMode !== 'laser';
+  return toolpath.groups.length - 1 + (atStart ? 1 : 0);
 }
 
-// Optimize path order using nearest-neighbor algorithm
-// Starts from origin, picks closest unvisited path, reverses if endpoint is closer
-function optimizePaths(paths: Path[], origin: Point): Path[] {
-  if (paths.length <= 1) return paths;
+// Walk the job in plot order: from the park position through each pen's strokes,
+// back to the park position for every pen change, and home to X0 Y0 at the end
+function analyzeToolpath(toolpath: Toolpath, settings: Settings): JobStats {
+  const drawFeed = settings.feedRate / 60;
+  const travelFeed = (settings.travelFeed > 0 ? settings.travelFeed : settings.rapidFeed || settings.feedRate) / 60;
+  const accel = settings.acceleration || 0;
+  const deviation = settings.junctionDeviation || 0;
+  const park: Point = { x: settings.parkX || 0, y: settings.parkY || 0 };
+  // Lasers switch on and off without waiting
+  const laser = settings.toolMode === 'laser';
+  const upDwell = laser ? 0 : settings.penUpDwell || 0;
+  const downDwell = laser ? 0 : settings.penDownDwell || 0;
+
+  const stats: JobStats = {
+    drawLength: 0,
+    travelLength: 0,
+    travelBefore: toolpath.travelBefore,
+    penLifts: 0,
+    penChanges: penChangeCount(toolpath, settings),
+    pens: [],
+    bounds: toolpath.bounds,
+    drawSeconds: 0,
+    travelSeconds: 0,
+    dwellSeconds: upDwell // Initial pen up
+  };
 
-  const optimized: Path[] = [];
-  const remaining = [...paths];
-  let currentPos = origin;
+  let position = park;
+  const travel = (to: Point): void => {
+    const length = distance(position, to);
+    stats.travelLength += length;
+    stats.travelSeconds += moveTime(position, [{ end: to }], travelFeed, accel, deviation);
+    position = to;
+  };
 
-  while (remaining.length > 0) {
-    let bestIndex = 0;
-    let bestDist = Infinity;
-    let shouldReverse = false;
+  toolpath.groups.forEach((group, index) => {
+    if (index > 0) travel(park);
+    let groupLength = 0;
+    for (const stroke of group.strokes) {
+      travel(stroke.points[0]);
+      groupLength += polylineLength(stroke.points);
+      const limits = moveFeeds(stroke.points[0], stroke.moves, settings).map(feed => feed / 60);
+      stats.drawSeconds += moveTime(stroke.points[0], stroke.moves, drawFeed, accel, deviation, limits);
+      stats.dwellSeconds += downDwell + upDwell;
+      position = stroke.points[stroke.points.length - 1];
+    }
+    stats.penLifts += group.strokes.length;
+    stats.drawLength += groupLength;
+    stats.pens.push({ pen: group.pen, colors: group.colors, strokes: group.strokes.length, drawLength: groupLength });
+  });
+  travel({ x: 0, y: 0 });
 
-    // Find nearest path (checking both start and end points)
-    for (let i = 0; i < remaining.length; i++) {
-      const path = remaining[i];
-      const startDist = distance(currentPos, pathStart(path));
-      const endDist = distance(currentPos, pathEnd(path));
+  return stats;
+}
 
-      if (startDist < bestDist) {
-        bestDist = startDist;
-        bestIndex = i;
-        shouldReverse = false;
-      }
+// Time to follow a run of moves that starts and ends at rest, modelled on GRBL's planner:
+// speed through each corner is limited by the junction deviation, and every move
+// accelerates, cruises and decelerates within the acceleration limit.
+// Limits optionally cap the feed of each move.
+function moveTime(start: Point, moves: Move[], feed: number, accel: number, deviation: number, limits?: number[]): number {
+  if (!(feed > 0)) return 0;
+  const lengths: number[] = [];
+  const directions: { start: Point; end: Point }[] = [];
+  const feeds: number[] = [];
+  let from = start;
+  moves.forEach((move, index) => {
+    const length = moveLength(from, move);
+    const direction = moveDirections(from, move);
+    from = move.end;
+    if (length < 1e-9 || !direction.start || !direction.end) return;
+    lengths.push(length);
+    directions.push({ start: direction.start, end: direction.end });
+    feeds.push(limits && limits[index] > 0 ? Math.min(feed, limits[index]) : feed);
+  });
+  if (lengths.length === 0) return 0;
+  if (!(accel > 0)) {
+    return lengths.reduce((sum, length, i) => sum + length / feeds[i], 0);
+  }
 
-      // For non-closed paths, also consider starting from the end
-      if (!path.closed && endDist < bestDist) {
-        bestDist = endDist;
-        bestIndex = i;
-        shouldReverse = true;
-      }
-    }
+  // Highest speed at the start of each segment (and at the end of the last)
+  const speeds: number[] = [0];
+  for (let i = 1; i < lengths.length; i++) {
+    const cosTheta = -(directions[i - 1].end.x * directions[i].start.x + directions[i - 1].end.y * directions[i].start.y);
+    const sinHalfTheta = Math.sqrt(Math.max(0, 0.5 * (1 - cosTheta)));
+    const cruise = Math.min(feeds[i - 1], feeds[i]);
+    const junction = sinHalfTheta >= 1 - 1e-9
+      ? cruise
+      : Math.sqrt(accel * deviation * sinHalfTheta / (1 - sinHalfTheta));
+    speeds.push(Math.min(cruise, junction));
+  }
+  speeds.push(0);
 
-    // Add the best path (reversed if needed)
-    let bestPath = remaining[bestIndex];
-    if (shouldReverse) {
-      bestPath = reversePath(bestPath);
-    }
+  // Respect the acceleration limit backwards (so the machine can stop) and forwards
+  for (let i = lengths.length - 1; i >= 0; i--) {
+    speeds[i] = Math.min(speeds[i], Math.sqrt(speeds[i + 1] * speeds[i + 1] + 2 * accel * lengths[i]));
+  }
+  for (let i = 0; i < lengths.length; i++) {
+    speeds[i + 1] = Math.min(speeds[i + 1], Math.sqrt(speeds[i] * speeds[i] + 2 * accel * lengths[i]));
+  }
 
-    optimized.push(bestPath);
-    currentPos = pathEnd(bestPath);
-    remaining.splice(bestIndex, 1);
+  let time = 0;
+  for (let i = 0; i < lengths.length; i++) {
+    const entry = speeds[i];
+    const exit = speeds[i + 1];
+    const cruise = feeds[i];
+    const accelDistance = (cruise * cruise - entry * entry) / (2 * accel);
+    const decelDistance = (cruise * cruise - exit * exit) / (2 * accel);
+    if (accelDistance + decelDistance <= lengths[i]) {
+      // Trapezoid: reaches the feed rate and cruises
+      time += (cruise - entry) / accel + (cruise - exit) / accel + (lengths[i] - accelDistance - decelDistance) / cruise;
+    } else {
+      // Triangle: turns from accelerating to decelerating before reaching the feed rate
+      const peak = Math.sqrt((2 * accel * lengths[i] + entry * entry + exit * exit) / 2);
+      time += (peak - entry) / accel + (peak - exit) / accel;
+    }
   }
+  return time;
+}
 
-  return optimized;
+// Format seconds as "1h 02m 03s", "2m 03s" or "3s"
+function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor(total % 3600 / 60);
+  const s = total % 60;
+  const two = (n: number) => (n < 10 ? '0' : '') + n;
+  if (h > 0) return `${h}h ${two(m)}m ${two(s)}s`;
+  if (m > 0) return `${m}m ${two(s)}s`;
+  return `${s}s`;
 }
 
-// Represents a group of paths that should stay together (e.g., a TextNode)
-interface PathGroup {
-  paths: Path[];
-  start: Point;  // First point of first path
-  end: Point;    // Last point of last path
+// Job statistics as header lines (without the comment prefix)
+function statsLines(stats: JobStats, units: string): string[] {
+  const lines = [
+    `Draw length: ${stats.drawLength.toFixed(1)} ${units}, pen-up travel: ${stats.travelLength.toFixed(1)} ${units}` +
+      (stats.travelBefore > 0 ? ` (${stats.travelBefore.toFixed(1)} ${units} before optimization)` : ''),
+    `Pen lifts: ${stats.penLifts}, pen changes: ${stats.penChanges}`
+  ];
+  for (const pen of stats.pens) {
+    lines.push(`  Pen ${pen.pen} (${pen.colors.join(', ')}): ${pen.strokes} stroke${pen.strokes !== 1 ? 's' : ''}, ${pen.drawLength.toFixed(1)} ${units}`);
+  }
+  const total = stats.drawSeconds + stats.travelSeconds + stats.dwellSeconds;
+  lines.push(`Estimated time: ${formatDuration(total)} (drawing ${formatDuration(stats.drawSeconds)}, travel ${formatDuration(stats.travelSeconds)}, pen waits ${formatDuration(stats.dwellSeconds)}; pen changes not included)`);
+  return lines;
 }
 
-// Optimize text path groups using nearest-neighbor, keeping each group's paths together
-function optimizeTextGroups(textPaths: Path[], origin: Point): Path[] {
-  if (textPaths.length === 0) return [];
+// File extension for each output format
+const OUTPUT_EXTENSIONS: { [format: string]: string } = {
+  gcode: 'gcode',
+  hpgl: 'hpgl',
+  ebb: 'ebb',
+  svg: 'svg'
+};
 
-  // Group paths by textGroupId
-  const groupMap = new Map<number, Path[]>();
-  for (const path of textPaths) {
-    const id = path.textGroupId ?? -1;
-    if (!groupMap.has(id)) {
-      groupMap.set(id, []);
-    }
-    groupMap.get(id)!.push(path);
+// Why the toolpath can't be written in the chosen output format, or null if it can
+function formatLimitation(toolpath: Toolpath, settings: Settings): string | null {
+  const format = settings.outputFormat || 'gcode';
+  if (settings.toolMode === 'laser' && format !== 'gcode') {
+    return 'Laser power is only written in G-code. Choose G-code output, or the pen tool for this format.';
   }
-
-  // Convert to PathGroup array
-  const groups: PathGroup[] = [];
-  for (const paths of groupMap.values()) {
-    if (paths.length > 0) {
-      groups.push({
-        paths,
-        start: pathStart(paths[0]),
-        end: pathEnd(paths[paths.length - 1])
-      });
-    }
+  if (format === 'ebb' && toolpath.groups.length > 1) {
+    return `EBB commands have no pen change, but this job uses ${toolpath.groups.length} pens. ` +
+      'Map every color to one pen in the pen table, or select and plot one color at a time.';
   }
+  return null;
+}
 
-  if (groups.length <= 1) {
-    return textPaths;
+// Write the job in the chosen output format
+// A null origin means the toolpath is already in machine coordinates (calibration patterns)
+function serializeToolpath(
+  toolpath: Toolpath, settings: Settings, stats: JobStats, origin: Origin | null, headerNotes: string[]
+): string {
+  switch (settings.outputFormat) {
+    case 'hpgl': return toolpathToHPGL(toolpath, settings);
+    case 'ebb': return toolpathToEBB(toolpath, settings);
+    case 'svg': return toolpathToSVG(toolpath, settings, stats, headerNotes);
+    default: return toolpathToGCode(toolpath, settings, stats, origin, headerNotes);
   }
+}
 
-  // Apply nearest-neighbor to groups
-  const optimized: Path[] = [];
-  const remaining = [...groups];
-  let currentPos = origin;
+// A pen command that moves an axis (G0 or G1, e.g. a Z lift), rewritten as a G1 move at the given feed
+// Other commands, such as servo and spindle M-codes, are written as they are.
+function penMoveCommand(command: string, feed: number): string {
+  const commentStart = command.indexOf(';');
+  const code = commentStart >= 0 ? command.slice(0, commentStart) : command;
+  const match = /^\s*G0?[01](?![0-9.])(.*)$/i.exec(code);
+  if (!match || !(feed > 0)) return command;
+
+  const words = match[1].replace(/F\s*[-+]?[0-9.]+/gi, '').trim();
+  const comment = commentStart >= 0 ? ` ${command.slice(commentStart)}` : '';
+  return `G1 ${words ? words + ' ' : ''}F${feed}${comment}`;
+}
 
-  while (remaining.length > 0) {
-    let bestIndex = 0;
-    let bestDist = Infinity;
+// The moves that draw a stroke: arcs where the points follow a circle, if arc fitting is on
+// Points must be in machine coordinates.
+function strokeMoves(points: Point[], settings: Settings): Move[] {
+  return settings.arcFitting
+    ? fitArcs(points, settings.arcTolerance, BEZIER_TOLERANCE / settings.scale)
+    : points.slice(1).map(end => ({ end }));
+}
 
-    for (let i = 0; i < remaining.length; i++) {
-      const group = remaining[i];
-      const dist = distance(currentPos, group.start);
-      if (dist < bestDist) {
-        bestDist = dist;
-        bestIndex = i;
-      }
-    }
+// Length of a move, along the arc for arc moves
+function moveLength(from: Point, move: Move): number {
+  if (!move.arc) return distance(from, move.end);
+  const { center, clockwise } = move.arc;
+  const startAngle = Math.atan2(from.y - center.y, from.x - center.x);
+  const endAngle = Math.atan2(move.end.y - center.y, move.end.x - center.x);
+  let sweep = clockwise ? startAngle - endAngle : endAngle - startAngle;
+  if (sweep <= 0) sweep += Math.PI * 2;
+  return distance(center, from) * sweep;
+}
 
-    const bestGroup = remaining[bestIndex];
-    optimized.push(...bestGroup.paths);
-    currentPos = bestGroup.end;
-    remaining.splice(bestIndex, 1);
+// Feed for each move of a stroke (units per minute): the feed rate, or the slow feed for
+// moves shorter than the short-segment length and for both moves around a sharp corner,
+// including the corner where a closed stroke meets its start
+function moveFeeds(start: Point, moves: Move[], settings: Settings): number[] {
+  const feeds = moves.map(() => settings.feedRate);
+  if (!settings.slowDown || !(settings.slowFeed > 0) || moves.length === 0) return feeds;
+  const slow = Math.min(settings.feedRate, settings.slowFeed);
+
+  // Direction of travel where each move starts and ends (null for zero-length moves)
+  const directions: { start: Point | null; end: Point | null }[] = [];
+  let from = start;
+  moves.forEach((move, index) => {
+    if (distance(from, move.end) < (settings.shortSegment || 0)) feeds[index] = slow;
+    directions.push(moveDirections(from, move));
+    from = move.end;
+  });
+
+  // A corner is sharp when the direction turns by at least the corner angle
+  const threshold = Math.cos((settings.cornerAngle || 0) * Math.PI / 180);
+  const sharp = (a: Point | null, b: Point | null): boolean =>
+    a !== null && b !== null && a.x * b.x + a.y * b.y <= threshold + 1e-9;
+  for (let i = 1; i < moves.length; i++) {
+    if (sharp(directions[i - 1].end, directions[i].start)) {
+      feeds[i - 1] = slow;
+      feeds[i] = slow;
+    }
   }
+  const last = moves.length - 1;
+  if (last > 0 && distance(start, moves[last].end) < 1e-9 && sharp(directions[last].end, directions[0].start)) {
+    feeds[last] = slow;
+    feeds[0] = slow;
+  }
+  return feeds;
+}
 
-  return optimized;
+// Unit direction of travel at the start and end of a move; arcs run along their tangent
+function moveDirections(from: Point, move: Move): { start: Point | null; end: Point | null } {
+  const unit = (x: number, y: number): Point | null => {
+    const length = Math.sqrt(x * x + y * y);
+    return length < 1e-9 ? null : { x: x / length, y: y / length };
+  };
+  if (!move.arc) {
+    const direction = unit(move.end.x - from.x, move.end.y - from.y);
+    return { start: direction, end: direction };
+  }
+  // The tangent is perpendicular to the radius, turning with the arc
+  const { center, clockwise } = move.arc;
+  const tangent = (p: Point): Point | null => clockwise
+    ? unit(p.y - center.y, center.x - p.x)
+    : unit(center.y - p.y, p.x - center.x);
+  return { start: tangent(from), end: tangent(move.end) };
 }
 
-function pathsToGCode(paths: Path[], settings: Settings, origin: Origin): string {
-  const lines: string[] = [];
-  const { units, scale, feedRate, penUpCmd, penDownCmd } = settings;
+// Pen change lines used until the user edits them
+const DEFAULT_TOOL_CHANGE = 'M0 ; Pause - change to pen {pen} ({color}), then resume';
 
-  // Group paths by color
-  const colorGroups = groupPathsByColor(paths);
-  const colorKeys = Array.from(colorGroups.keys());
+function toolpathToGCode(
+  toolpath: Toolpath, settings: Settings, stats: JobStats, origin: Origin | null, headerNotes: string[] = []
+): string {
+  const lines: string[] = [];
+  const { units, feedRate, penUpCmd, penDownCmd } = settings;
+  const precision = settings.precision === undefined ? 3 : settings.precision;
+  const fmt = (value: number): string => formatCoord(value, precision);
+  // GRBL always travels at its rapid rate on G0; Marlin treats the F word on G0 as the travel feed.
+  // G1 travel needs a feed, so it falls back to the rapid rate.
+  const travelCode = settings.travelG1 ? 'G1' : 'G0';
+  const travelFeed = settings.travelFeed > 0 ? ` F${settings.travelFeed}`
+    : settings.travelG1 ? ` F${settings.rapidFeed || feedRate}` : '';
+  const travel = (x: number, y: number): string => `${travelCode} X${fmt(x)} Y${fmt(y)}${travelFeed}`;
+  // A laser switches on at the stroke's power instead of lowering a pen, and needs no waits
+  const laser = settings.toolMode === 'laser';
+  const penUp = (): void => {
+    if (laser) {
+      lines.push('M5');
+      return;
+    }
+    lines.push(penMoveCommand(penUpCmd, settings.penUpFeed));
+    if (settings.penUpDwell > 0) lines.push(dwellCommand(settings.penUpDwell, settings.firmware));
+  };
+  const penDown = (stroke: ToolpathStroke): void => {
+    if (laser) {
+      lines.push(`${settings.laserDynamic ? 'M4' : 'M3'} S${laserPower(stroke.color, settings)}`);
+      return;
+    }
+    lines.push(penMoveCommand(penDownCmd, settings.penDownFeed));
+    if (settings.penDownDwell > 0) lines.push(dwellCommand(settings.penDownDwell, settings.firmware));
+  };
 
   // Header
   lines.push('; Generated by Figma Vector to G-Code');
+  if (settings.profile) {
+    lines.push(`; Machine: ${settings.profile}`);
+  }
   lines.push(`; Units: ${units}`);
-  lines.push(`; Paths: ${paths.length}`);
-  lines.push(`; Color groups: ${colorKeys.length}`);
-  lines.push(`; Origin: ${origin.frame ? 'existing frame' : 'auto-generated frame'}`);
+  lines.push(`; Paths: ${toolpath.pathCount}`);
+  lines.push(`; Pens: ${toolpath.groups.length}`);
+  if (toolpath.skippedPaths > 0) {
+    lines.push(`; Skipped pens: ${toolpath.skippedPaths} path${toolpath.skippedPaths !== 1 ? 's' : ''} not drawn`);
+  }
+  // Resolved origin and the extent of the drawing in machine units
+  if (origin) {
+    const sourceLabel = origin.source === 'frame' ? 'existing frame'
+      : origin.source === 'generated' ? 'auto-generated frame'
+      : origin.source === 'paper' ? 'paper' : 'selection bounds';
+    lines.push(`; Origin: ${settings.originCorner || 'bottom-left'} of ${sourceLabel}, offset X${fmt(settings.offsetX || 0)} Y${fmt(settings.offsetY || 0)}`);
+    const transforms: string[] = [];
+    if (settings.mirrorX) transforms.push('mirror X');
+    if (settings.mirrorY) transforms.push('mirror Y');
+    if (settings.rotation) transforms.push(`rotate ${settings.rotation}°`);
+    if (transforms.length > 0) {
+      lines.push(`; Transform: ${transforms.join(', ')}`);
+    }
+  }
+  const bounds = toolpath.bounds;
+  lines.push(`; Bounds: X${fmt(bounds.minX)} to X${fmt(bounds.maxX)}, Y${fmt(bounds.minY)} to Y${fmt(bounds.maxY)} (${units})`);
+  for (const note of headerNotes) {
+    lines.push(`; ${note}`);
+  }
+  for (const line of statsLines(stats, units)) {
+    lines.push(`; ${line}`);
+  }
   lines.push('');
   lines.push(units === 'mm' ? 'G21' : 'G20'); // Set units
   lines.push('G90'); // Absolute positioning
   lines.push('G17'); // XY plane
+  const startBlock = gcodeBlock(settings.startGCode);
+  if (startBlock.length > 0) {
+    lines.push('; Start G-code');
+    lines.push(...startBlock);
+  }
   lines.push('');
 
-  // Use frame height for Y flip (Figma Y goes down, G-code Y goes up)
-  // This ensures Y=0 is at the bottom of the frame, not the bottom of paths
-  const frameHeight = origin.height;
-
   // Initial pen up
-  lines.push(penUpCmd);
-
-  // Process each color group
-  let globalPathIndex = 0;
-  let currentPos: Point = { x: origin.x, y: origin.y + frameHeight }; // Start at origin (bottom-left)
+  penUp();
 
-  for (let colorIndex = 0; colorIndex < colorKeys.length; colorIndex++) {
-    const colorKey = colorKeys[colorIndex];
-    const allGroupPaths = colorGroups.get(colorKey)!;
-
-    // Separate text paths from non-text paths
-    const vectorPaths = allGroupPaths.filter(p => !p.isText);
-    const textPaths = allGroupPaths.filter(p => p.isText);
-
-    // Optimize vector paths with nearest-neighbor
-    const optimizedVectorPaths = optimizePaths(vectorPaths, currentPos);
+  // Park, then run the tool-change lines for the next pen
+  const toolChange = settings.toolChange === undefined ? DEFAULT_TOOL_CHANGE : settings.toolChange;
+  const changePen = (group: ToolpathGroup): void => {
+    lines.push('');
+    lines.push(`; Change to pen ${group.pen}`);
+    lines.push(travel(settings.parkX || 0, settings.parkY || 0));
+    lines.push(...gcodeBlock(toolChange.replace(/\{pen\}/g, String(group.pen)).replace(/\{color\}/g, group.colors[0])));
+  };
 
-    // Update position after vectors for text optimization
-    const textStartPos = optimizedVectorPaths.length > 0
-      ? pathEnd(optimizedVectorPaths[optimizedVectorPaths.length - 1])
-      : currentPos;
+  let globalPathIndex = 0;
+  const groups = toolpath.groups;
 
-    // Optimize text groups (keeps strokes within each TextNode together)
-    const optimizedTextPaths = optimizeTextGroups(textPaths, textStartPos);
+  for (let groupIndex = 0; groupIndex < groups.length; groupIndex++) {
+    const group = groups[groupIndex];
+    const strokeCount = group.strokes.length;
 
-    // Combine: optimized vectors first, then optimized text groups
-    const orderedPaths = [...optimizedVectorPaths, ...optimizedTextPaths];
+    if (groupIndex > 0 || (settings.toolChangeAtStart && !laser)) {
+      changePen(group);
+    }
 
     lines.push('');
     lines.push(`; ========================================`);
-    lines.push(`; Color: ${colorKey} (${orderedPaths.length} path${orderedPaths.length !== 1 ? 's' : ''}${textPaths.length > 0 ? `, ${textPaths.length} text` : ''})`);
+    lines.push(`; Pen ${group.pen}: ${group.colors.join(', ')} (${strokeCount} path${strokeCount !== 1 ? 's' : ''}${group.textCount > 0 ? `, ${group.textCount} text` : ''})`);
     lines.push(`; ========================================`);
 
-    // Helper to output a single path
-    const outputPath = (path: Path, label: string) => {
-      if (path.points.length === 0) return;
+    let inText = false;
+    for (const stroke of group.strokes) {
+      // Text strokes follow the vector paths of their group
+      if (stroke.isText && !inText) {
+        lines.push('');
+        lines.push(`; --- Text paths ---`);
+        inText = true;
+      }
       globalPathIndex++;
 
       lines.push('');
-      lines.push(`; ${label} ${globalPathIndex}`);
+      lines.push(`; ${stroke.isText ? 'Text' : 'Path'} ${globalPathIndex}`);
 
       // Move to start (pen up)
-      const start = path.points[0];
-      const startX = ((start.x - origin.x) / scale).toFixed(3);
-      const startY = ((frameHeight - (start.y - origin.y)) / scale).toFixed(3);
-      lines.push(`G0 X${startX} Y${startY}`);
+      const points = stroke.points;
+      const start = points[0];
+      lines.push(travel(start.x, start.y));
 
       // Pen down
-      lines.push(penDownCmd);
-
-      // Draw path
-      for (let j = 1; j < path.points.length; j++) {
-        const point = path.points[j];
-        const x = ((point.x - origin.x) / scale).toFixed(3);
-        const y = ((frameHeight - (point.y - origin.y)) / scale).toFixed(3);
-        lines.push(`G1 X${x} Y${y} F${feedRate}`);
-      }
+      penDown(stroke);
+
+      // Draw path, as arcs where the points follow a circle
+      const moves = stroke.moves;
+
+      // Slower through sharp corners and over very short moves, if enabled
+      const feeds = moveFeeds(start, moves, settings);
+
+      let from = start;
+      moves.forEach((move, index) => {
+        const x = fmt(move.end.x);
+        const y = fmt(move.end.y);
+        if (move.arc) {
+          // I/J are the center's offset from the arc's start point
+          const i = fmt(move.arc.center.x - from.x);
+          const j = fmt(move.arc.center.y - from.y);
+          lines.push(`${move.arc.clockwise ? 'G2' : 'G3'} X${x} Y${y} I${i} J${j} F${feeds[index]}`);
+        } else {
+          lines.push(`G1 X${x} Y${y} F${feeds[index]}`);
+        }
+        from = move.end;
+      });
 
       // Pen up after path
-      lines.push(penUpCmd);
+      penUp();
+    }
+  }
 
-      // Update current position
-      currentPos = pathEnd(path);
-    };
+  // Footer
+  lines.push('');
+  lines.push('; End');
+  lines.push(travel(0, 0)); // Return to origin
+  const endBlock = gcodeBlock(settings.endGCode);
+  if (endBlock.length > 0) {
+    lines.push('; End G-code');
+    lines.push(...endBlock);
+  }
+  lines.push('M2'); // End program
 
-    // Output vector paths (optimized)
-    for (const path of optimizedVectorPaths) {
-      outputPath(path, 'Path');
-    }
+  return lines.join('\n');
+}
 
-    // Output text paths (groups optimized, strokes within groups preserved)
-    if (optimizedTextPaths.length > 0) {
-      lines.push('');
-      lines.push(`; --- Text paths ---`);
-      for (const path of optimizedTextPaths) {
-        outputPath(path, 'Text');
+// HP-GL plotter units: 40 per millimetre
+const HPGL_UNITS_PER_MM = 40;
+
+// Points per PD instruction, to stay within the input buffer of older plotters
+const HPGL_POINTS_PER_COMMAND = 32;
+
+// HP-GL for vintage pen plotters: one pen per color group, selected with SP
+function toolpathToHPGL(toolpath: Toolpath, settings: Settings): string {
+  const unitsPerMachineUnit = HPGL_UNITS_PER_MM * (settings.units === 'inch' ? 25.4 : 1);
+  const coord = (p: Point): string =>
+    `${Math.round(p.x * unitsPerMachineUnit)},${Math.round(p.y * unitsPerMachineUnit)}`;
+  // VS takes cm/s
+  const feedMmPerMin = settings.feedRate * (settings.units === 'inch' ? 25.4 : 1);
+  const velocity = Math.max(0.1, feedMmPerMin / 600);
+
+  const lines: string[] = ['IN;'];
+  for (const group of toolpath.groups) {
+    lines.push(`SP${group.pen};`);
+    lines.push(`VS${Number(velocity.toFixed(1))};`);
+    for (const stroke of group.strokes) {
+      lines.push(`PU${coord(stroke.points[0])};`);
+      const rest = stroke.points.slice(1);
+      if (rest.length === 0) {
+        // A single point still leaves a dot
+        lines.push(`PD${coord(stroke.points[0])};`);
+      }
+      for (let i = 0; i < rest.length; i += HPGL_POINTS_PER_COMMAND) {
+        lines.push(`PD${rest.slice(i, i + HPGL_POINTS_PER_COMMAND).map(coord).join(',')};`);
       }
     }
+    lines.push('PU0,0;');
+  }
+  lines.push('SP0;');
 
-    // After each color group (except the last), return to origin and pause for pen change
-    if (colorIndex < colorKeys.length - 1) {
-      lines.push('');
-      lines.push('; Return to origin for pen change');
-      lines.push(penUpCmd);
-      lines.push('G0 X0 Y0');
-      lines.push('M0 ; Pause - change to next pen, then resume');
-      // Reset position to origin for next color group
-      currentPos = { x: origin.x, y: origin.y + frameHeight };
+  return lines.join('\n');
+}
+
+// EiBotBoard motor steps per millimetre (AxiDraw at 16x microstepping)
+const EBB_STEPS_PER_MM = 80;
+
+// Travel speed when the profile leaves travel feed at 0 (mm/min)
+const EBB_TRAVEL_FEED = 6000;
+
+// EiBotBoard (AxiDraw-class) command stream
+// Moves are SM commands on the mixed-axis (CoreXY) motors: A = X + Y, B = X - Y, in steps.
+// The machine homes at the top-left of the bed with Y pointing down, so machine Y (up from
+// the bottom of the bed) is measured down from the top instead. The stream has no pause
+// command for a pen change, so it takes a single pen group.
+function toolpathToEBB(toolpath: Toolpath, settings: Settings): string {
+  const mmPerUnit = settings.units === 'inch' ? 25.4 : 1;
+  const top = settings.bedHeight > 0 ? settings.bedHeight : toolpath.bounds.maxY;
+  const drawSpeed = settings.feedRate * mmPerUnit / 60; // mm/s
+  const travelSpeed = (settings.travelFeed > 0 ? settings.travelFeed * mmPerUnit : EBB_TRAVEL_FEED) / 60;
+  const penUpDelay = Math.round((settings.penUpDwell || 0) * 1000);
+  const penDownDelay = Math.round((settings.penDownDwell || 0) * 1000);
+
+  const lines: string[] = ['EM,1,1', `SP,1,${penUpDelay}`];
+  // Position in whole steps, so rounding never accumulates
+  let stepX = 0;
+  let stepY = 0;
+  const moveTo = (p: Point, speed: number): void => {
+    const targetX = Math.round(p.x * mmPerUnit * EBB_STEPS_PER_MM);
+    const targetY = Math.round((top - p.y) * mmPerUnit * EBB_STEPS_PER_MM);
+    const dx = targetX - stepX;
+    const dy = targetY - stepY;
+    if (dx === 0 && dy === 0) return;
+    const length = Math.sqrt(dx * dx + dy * dy) / EBB_STEPS_PER_MM;
+    const duration = Math.max(1, Math.round(length / speed * 1000));
+    lines.push(`SM,${duration},${dx + dy},${dx - dy}`);
+    stepX = targetX;
+    stepY = targetY;
+  };
+
+  for (const group of toolpath.groups) {
+    for (const stroke of group.strokes) {
+      moveTo(stroke.points[0], travelSpeed);
+      lines.push(`SP,0,${penDownDelay}`);
+      for (let i = 1; i < stroke.points.length; i++) {
+        moveTo(stroke.points[i], drawSpeed);
+      }
+      lines.push(`SP,1,${penUpDelay}`);
     }
   }
+  moveTo({ x: 0, y: top }, travelSpeed); // Back to home
+  lines.push('EM,0,0');
 
-  // Footer
-  lines.push('');
-  lines.push('; End');
-  lines.push('G0 X0 Y0'); // Return to origin
-  lines.push('M2'); // End program
+  return lines.join('\n');
+}
+
+// Escape text for use in SVG content and attributes
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// SVG of the optimized plot for review and archiving: the bed, pen-up travel as
+// dashed lines, and one layer of strokes per pen, in machine units with Y up
+function toolpathToSVG(toolpath: Toolpath, settings: Settings, stats: JobStats, headerNotes: string[]): string {
+  const precision = settings.precision === undefined ? 3 : settings.precision;
+  const fmt = (value: number): string => formatCoord(value, precision);
+  // SVG's Y axis points down, so machine Y is negated
+  const coord = (p: Point): string => `${fmt(p.x)},${fmt(-p.y)}`;
+
+  // Strokes are drawn where the ink lands, with pen offsets added back
+  const ink = toolpath.groups.map(group => group.strokes.map(stroke => inkPoints(group, stroke)));
+  const inkBounds = pointsBounds(ink.reduce((all: Point[], strokes) => all.concat(...strokes), []));
+
+  // Show the whole bed, and anything drawn outside it
+  const minX = Math.min(0, inkBounds.minX);
+  const minY = Math.min(0, inkBounds.minY);
+  const maxX = Math.max(settings.bedWidth, inkBounds.maxX);
+  const maxY = Math.max(settings.bedHeight, inkBounds.maxY);
+  const width = maxX - minX;
+  const height = maxY - minY;
+  const unit = settings.units === 'inch' ? 'in' : 'mm';
+  const penWidth = settings.penWidth > 0 ? settings.penWidth : 0.5;
+
+  const lines: string[] = [];
+  lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+  lines.push(`<svg xmlns="http://www.w3.org/2000/svg" width="${fmt(width)}${unit}" height="${fmt(height)}${unit}" viewBox="${fmt(minX)} ${fmt(-maxY)} ${fmt(width)} ${fmt(height)}">`);
+  lines.push('  <title>Generated by Figma Vector to G-Code</title>');
+  const notes = [
+    `Paths: ${toolpath.pathCount}`,
+    ...statsLines(stats, settings.units),
+    ...headerNotes
+  ];
+  lines.push(`  <desc>${escapeXml(notes.join('\n'))}</desc>`);
+  lines.push(`  <rect id="bed" x="0" y="${fmt(-settings.bedHeight)}" width="${fmt(settings.bedWidth)}" height="${fmt(settings.bedHeight)}" fill="none" stroke="#cccccc" stroke-width="${fmt(penWidth / 2)}"/>`);
+
+  // Travel from the park position to each stroke, and back to it after each group
+  const park: Point = { x: settings.parkX || 0, y: settings.parkY || 0 };
+  lines.push(`  <g id="travel" fill="none" stroke="#999999" stroke-width="${fmt(penWidth / 2)}" stroke-dasharray="${fmt(penWidth * 2)} ${fmt(penWidth * 2)}">`);
+  for (const strokes of ink) {
+    let from = park;
+    for (const points of strokes) {
+      lines.push(`    <line x1="${fmt(from.x)}" y1="${fmt(-from.y)}" x2="${fmt(points[0].x)}" y2="${fmt(-points[0].y)}"/>`);
+      from = points[points.length - 1];
+    }
+    lines.push(`    <line x1="${fmt(from.x)}" y1="${fmt(-from.y)}" x2="${fmt(park.x)}" y2="${fmt(-park.y)}"/>`);
+  }
+  lines.push('  </g>');
+
+  toolpath.groups.forEach((group, index) => {
+    const color = group.colors[0] === 'DEFAULT' ? '#000000' : group.colors[0];
+    lines.push(`  <g id="pen-${group.pen}" fill="none" stroke="${color}" stroke-width="${fmt(penWidth)}" stroke-linecap="round" stroke-linejoin="round">`);
+    for (const strokePoints of ink[index]) {
+      // A lone point is repeated so its round caps draw a dot
+      const points = strokePoints.length === 1 ? [strokePoints[0], strokePoints[0]] : strokePoints;
+      lines.push(`    <polyline points="${points.map(coord).join(' ')}"/>`);
+    }
+    lines.push('  </g>');
+  });
+  lines.push('</svg>');
 
   return lines.join('\n');
 }